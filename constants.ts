@@ -0,0 +1,46 @@
+import type { SimulationSettings } from './types';
+
+export const CANVAS_WIDTH = 800;
+export const CANVAS_HEIGHT = 600;
+export const SCALE = 1e-14; // meters per pixel
+export const TIME_STEP = 1e-22; // seconds
+export const K_COULOMB = 8.9875517923e9; // N⋅m²/C²
+export const ELEMENTARY_CHARGE = 1.602176634e-19; // Coulombs
+export const ALPHA_PARTICLE_MASS = 6.6446573357e-27; // kg
+export const PROTON_MASS = 1.67262192369e-27; // kg
+export const DEUTERON_MASS = 3.3435837724e-27; // kg
+export const ELECTRON_MASS = 9.1093837015e-31; // kg
+export const MUON_MASS = 1.883531627e-28; // kg
+export const ATOMIC_MASS_UNIT = 1.66053906660e-27; // kg
+export const JOULES_PER_MEV = 1.60218e-13; // J/MeV
+export const SPEED_OF_LIGHT = 299792458; // m/s
+export const NUCLEUS_RADIUS_BASE = 1.25e-15; // meters (femtometers)
+export const BEAM_RADIUS = (CANVAS_HEIGHT / 2) * 0.8 * SCALE; // meters
+export const FOCUS_BEAM_RADIUS = 150e-15; // meters
+export const DETECTOR_RADIUS_PIXELS = 260;
+export const THOMSON_ATOM_RADIUS = 1e-10; // meters
+export const MAX_LADDER_PARTICLES = 50000;
+export const MAX_RANDOM_PARTICLES = 50000;
+
+export const DEFAULT_SETTINGS: SimulationSettings = {
+    projectile: 'alpha',
+    customCharge: 2,
+    customMass: 4,
+    energy: 5,
+    energyRange: 'standard',
+    isRelativistic: false,
+    numParticles: 50,
+    targetZ: 79,
+    targetMassNumber: null,
+    isFocusModeEnabled: false,
+    integrator: 'euler',
+    potential: 'coulomb',
+    beamMode: 'ladder',
+    seed: 1909,
+    targetMode: 'single',
+    foilLayers: 3,
+    foilSpacing: 500,
+    foilArrangement: 'lattice',
+    isSplitView: false,
+    isThreeDimensional: false,
+};
@@ -1,133 +1,216 @@
-import React, { useState, useEffect, useRef, useCallback, useMemo, useLayoutEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo, useLayoutEffect, useId, useContext } from 'react';
 import ReactDOM from 'react-dom/client';
 import { HelpCircle } from 'lucide-react';
 import { Scatter } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
   LinearScale,
+  LogarithmicScale,
   PointElement,
   LineElement,
   Tooltip as ChartTooltip,
   Legend,
   ChartOptions,
+  Plugin,
   TooltipItem,
 } from 'chart.js';
 
-// --- From types.ts ---
-interface Vector2D {
-    x: number;
-    y: number;
-}
+import {
+    CANVAS_WIDTH,
+    CANVAS_HEIGHT,
+    SCALE,
+    NUCLEUS_RADIUS_BASE,
+    BEAM_RADIUS,
+    FOCUS_BEAM_RADIUS,
+    DETECTOR_RADIUS_PIXELS,
+    MAX_LADDER_PARTICLES,
+    MAX_RANDOM_PARTICLES,
+    THOMSON_ATOM_RADIUS,
+    JOULES_PER_MEV,
+} from './constants';
+import type {
+    Vector2D,
+    Vector3D,
+    ParticleSnapshot,
+    IntegratorType,
+    BeamMode,
+    TargetMode,
+    PotentialModel,
+    ProjectileType,
+    FoilArrangement,
+    ReferenceFrame,
+    EnergyRange,
+    SimulationSettings,
+    SimulationStatus,
+    ScatterPoint,
+    Detector,
+    DetectorHitUpdate,
+    ConservationDiagnostic,
+} from './types';
+import { PROJECTILES, massNumberFromZ, resolveProjectile, resolveTargetMass, resolveTargetMassNumber } from './utils/projectiles';
+import { headOnDistanceFm, relativisticDeflectionRatio, scatteringKinematics, predictedAngleDeg, predictedCrossSection } from './utils/rutherford';
+import type { ScatteringKinematics } from './utils/rutherford';
+import { summarizeAngles } from './utils/statistics';
+import { createNumberFormat } from './utils/format';
+import type { NumberFormat } from './utils/format';
+import { chartFigure, figureToPng, trajectoryFigure } from './utils/figure';
+import type { Figure, FigureOptions } from './utils/figure';
+import { MAX_CHALLENGE_NUMBER, MYSTERY_ENERGY_RANGE, MYSTERY_Z_RANGE, challengeSettings, createChallenge, fitHeadOnDistance, gradeChallenge, targetZFromHeadOnDistance } from './utils/challenge';
+import type { Challenge, HeadOnFit } from './utils/challenge';
+import { createRunFile, parseRunFile, RunFileError, runToCsv } from './utils/runFile';
+import { settingsEqual, settingsFromSearch, settingsToSearch } from './utils/settings';
+import { VIEW_3D_PRESETS, detectorDirection, detectorSolidAngle, isThreeDimensionalRun, projectPoint } from './utils/beamGeometry';
+import type { View3DPreset, ViewRotation } from './utils/beamGeometry';
+import { BUILT_IN_PRESETS, loadUserPresets, saveUserPresets } from './utils/presets';
+import type { ExperimentPreset } from './utils/presets';
+import type { RunFile } from './utils/runFile';
+import type { Asymptote, FieldRegion, FinishedPayload, ParticleTrace, PotentialField, TraceSamples, WorkerRequest, WorkerResponse } from './simulation/protocol';
+import { EMPTY_PATH_BUFFER, PATH_POINT_SIZE, PATH_POINT_SIZE_3D, packPaths, unpackPaths } from './simulation/pathBuffer';
+import {
+    appendReplayFrames,
+    closestApproachFrame,
+    createReplayRecording,
+    EMPTY_LAYOUT,
+    EMPTY_POSITIONS,
+    framePositions,
+    frameSnapshots,
+    replayFrame,
+    replayFrameTime,
+    snapshotPositions,
+} from './simulation/replay';
+import type { FramePositions, ReplayLayout, ReplayRecording } from './simulation/replay';
+import { MAX_SWEEP_STEPS, buildSweepRuns, sweepValues } from './simulation/sweep';
+import { CATALOGS, DEFAULT_LOCALE, LOCALES, loadLocale, saveLocale } from './locales';
+import type { Locale, Messages } from './locales';
+import type { RunSummary, SweepDefinition, SweepParameter, SweepRun } from './simulation/sweep';
 
-interface Particle {
-    id: number;
-    position: Vector2D;
-    velocity: Vector2D;
-    path?: Vector2D[];
-    color: string;
-    impactParameter: number; // in meters
-}
+// --- From utils/crossSection.ts ---
+const beamRadius = (settings: SimulationSettings) => (settings.isFocusModeEnabled ? FOCUS_BEAM_RADIUS : BEAM_RADIUS);
 
-interface SimulationSettings {
-    energy: number; // in MeV
-    numParticles: number;
-    targetZ: number; // Atomic number of the target nucleus
-    isFocusModeEnabled: boolean;
+interface CrossSectionBin {
+    thetaLow: number; // degrees
+    thetaHigh: number; // degrees
+    thetaCenter: number; // degrees
+    count: number;
+    crossSection: number; // fm²/sr
+    error: number; // fm²/sr, Poisson 1σ
+    isComplete: boolean; // false when the sampled impact parameters do not reach this angle
 }
 
-type SimulationStatus = 'idle' | 'running' | 'paused';
+/**
+ * Bins finished trajectories by scattering angle. Each particle stands for the ring of
+ * impact parameters between it and its neighbours, so its weight is that ring's area
+ * 2πb·db; the summed area in a bin divided by the bin's solid angle is dσ/dΩ.
+ * A random beam already samples the beam disk uniformly, so when `beamArea` (fm²) is
+ * given every particle carries an equal share of it instead.
+ */
+const computeCrossSection = (data: ScatterPoint[], binCount: number, beamArea?: number): CrossSectionBin[] => {
+    const samples = data
+        .map(p => ({ b: Math.abs(p.x), theta: p.y }))
+        .filter(p => Number.isFinite(p.theta))
+        .sort((a, b) => a.b - b.b);
+    if (samples.length === 0 || binCount <= 0) return [];
 
-interface ScatterPoint {
-    x: number; // Impact parameter in femtometers (fm).
-    y: number; // Scattering angle in degrees (°).
-}
+    const distinctB = Array.from(new Set(samples.map(p => p.b)));
+    const multiplicity = new Map<number, number>();
+    samples.forEach(p => multiplicity.set(p.b, (multiplicity.get(p.b) || 0) + 1));
+
+    const ringArea = new Map<number, number>();
+    distinctB.forEach((b, i) => {
+        const low = i === 0 ? 0 : (distinctB[i - 1] + b) / 2;
+        const high = i === distinctB.length - 1 ? b + (b - low) : (b + distinctB[i + 1]) / 2;
+        ringArea.set(b, (Math.PI * (high ** 2 - low ** 2)) / (multiplicity.get(b) || 1));
+    });
+    const areaOf = (b: number) => (beamArea !== undefined ? beamArea / samples.length : ringArea.get(b) || 0);
+
+    const binWidth = 180 / binCount;
+    const bins: CrossSectionBin[] = Array.from({ length: binCount }, (_, i) => ({
+        thetaLow: i * binWidth,
+        thetaHigh: (i + 1) * binWidth,
+        thetaCenter: (i + 0.5) * binWidth,
+        count: 0,
+        crossSection: 0,
+        error: 0,
+        isComplete: true,
+    }));
+
+    const areaPerBin = new Array<number>(binCount).fill(0);
+    samples.forEach(p => {
+        const index = Math.min(binCount - 1, Math.max(0, Math.floor(p.theta / binWidth)));
+        bins[index].count++;
+        areaPerBin[index] += areaOf(p.b);
+    });
+
+    // Angles smaller than the one produced by the widest sampled impact parameter are
+    // only partly covered by the beam, so those bins underestimate dσ/dΩ.
+    const smallestCoveredAngle = samples[samples.length - 1].theta;
+
+    bins.forEach((bin, i) => {
+        const solidAngle = 2 * Math.PI * (Math.cos((bin.thetaLow * Math.PI) / 180) - Math.cos((bin.thetaHigh * Math.PI) / 180));
+        bin.crossSection = areaPerBin[i] / solidAngle;
+        bin.error = bin.count > 0 ? bin.crossSection / Math.sqrt(bin.count) : 0;
+        bin.isComplete = bin.thetaLow >= smallestCoveredAngle;
+    });
+
+    return bins;
+};
 
-interface PathUpdate {
-    [particleId: number]: Vector2D[];
+// --- From components/I18n.tsx ---
+interface I18n {
+    locale: Locale;
+    t: Messages;
+    format: NumberFormat;
+    setLocale: (locale: Locale) => void;
 }
 
-// --- From constants.ts ---
-const CANVAS_WIDTH = 800;
-const CANVAS_HEIGHT = 600;
-const SCALE = 1e-14; // meters per pixel
-const TIME_STEP = 1e-22; // seconds
-const K_COULOMB = 8.9875517923e9; // N⋅m²/C²
-const ELEMENTARY_CHARGE = 1.602176634e-19; // Coulombs
-const ALPHA_PARTICLE_MASS = 6.6446573357e-27; // kg
-const JOULES_PER_MEV = 1.60218e-13; // J/MeV
-const NUCLEUS_RADIUS_BASE = 1.25e-15; // meters (femtometers)
+const I18nContext = React.createContext<I18n>({
+    locale: DEFAULT_LOCALE,
+    t: CATALOGS[DEFAULT_LOCALE],
+    format: createNumberFormat(DEFAULT_LOCALE),
+    setLocale: () => {},
+});
 
+const useI18n = () => useContext(I18nContext);
 
-// --- From components/explanations.tsx ---
-const Highlight: React.FC<{children: React.ReactNode}> = ({ children }) => <span className="text-cyan-400 font-semibold">{children}</span>;
-const Bold: React.FC<{children: React.ReactNode}> = ({ children }) => <span className="font-bold text-gray-100">{children}</span>;
+const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [locale, setLocaleState] = useState<Locale>(loadLocale);
+    const setLocale = useCallback((next: Locale) => {
+        setLocaleState(next);
+        saveLocale(next);
+    }, []);
+    const value = useMemo(
+        () => ({ locale, t: CATALOGS[locale], format: createNumberFormat(locale), setLocale }),
+        [locale, setLocale],
+    );
 
-const explanations = {
-    simulationTitle: {
-        title: "러더퍼드 산란 시뮬레이션이란?",
-        content: (
-            <>
-                <p>이 시뮬레이션은 20세기 초 물리학의 역사를 바꾼 '러더퍼드 산란 실험'을 재현합니다.</p>
-                <p>이 실험 이전, 원자는 (+)전하가 흩어져 있는 '푸딩 모델'로 여겨졌습니다. 하지만 러더퍼드가 금박에 알파 입자를 쏘았을 때, 극소수의 입자가 크게 튕겨 나오는 것을 발견했습니다.</p>
-                <p>이를 통해 <Highlight>"원자의 질량과 양전하 대부분은 아주 작은 중심(원자핵)에 모여있다"</Highlight>는 사실을 최초로 증명했습니다. 이 시뮬레이터로 그 위대한 발견의 순간을 직접 확인할 수 있습니다.</p>
-            </>
-        )
-    },
-    kineticEnergy: {
-        title: "α-입자 운동 에너지",
-        content: (
-             <>
-                <p>알파 입자가 처음 발사될 때 가진 에너지(속도)를 결정합니다.</p>
-                <p><Bold>에너지가 높으면 (빠르면)</Bold> 입자는 원자핵의 영향을 적게 받아 경로가 조금만 휘어집니다.</p>
-                <p><Bold>에너지가 낮으면 (느리면)</Bold> 원자핵의 영향을 더 오래 받아 경로가 크게 휘어집니다.</p>
-            </>
-        )
-    },
-    particleCount: {
-        title: "알파 입자 수",
-        content: (
-            <>
-                <p>시뮬레이션에 사용할 총 알파 입자의 개수입니다.</p>
-                <p>입자 수가 많을수록 실제 실험과 같이 전체적인 산란 분포를 더 명확하게 관찰할 수 있습니다.</p>
-            </>
-        )
-    },
-    targetZ: {
-        title: "표적핵 전하량 (Z)",
-        content: (
-            <>
-                <p>표적 원자핵이 가진 양성자의 수, 즉 (+)전하의 세기를 의미합니다. 금(Au)은 Z=79 입니다.</p>
-                <p><Bold>Z값이 크면</Bold> 원자핵의 (+)전하가 강해져, 알파 입자를 더욱 세게 밀어냅니다. 이 때문에 산란각이 전반적으로 커집니다.</p>
-            </>
-        )
-    },
-    focusMode: {
-        title: "원자핵 집중 탐사",
-        content: (
-            <>
-                <p>원자핵 바로 주변, 즉 산란의 비밀이 숨겨진 핵심 영역을 집중적으로 관찰하는 모드입니다.</p>
-                <p>이 모드를 켜면, 아주 작은 <Highlight>충돌 계수(1~150fm)</Highlight> 범위에 수백 개의 입자를 정밀하게 발사하여 산란각이 급격하게 변하는 극적인 모습을 관찰할 수 있습니다.</p>
-            </>
-        )
-    },
-    impactParameter: {
-        title: "충돌 계수 (Impact Parameter, b)",
-        content: (
-             <>
-                <p><Bold>"알파 입자가 얼마나 중심을 벗어나서 조준되었는가"</Bold>를 나타내는 거리입니다. 원자핵 중심과 입자의 초기 경로 사이의 수직 거리입니다.</p>
-                <p><Highlight>충돌 계수가 작을수록</Highlight> (정면 충돌) 산란각은 커지고, <Highlight>충돌 계수가 클수록</Highlight> (스쳐 지나감) 산란각은 작아집니다.</p>
-            </>
-        )
-    },
-    scatteringAngle: {
-        title: "산란각 (Scattering Angle, θ)",
-        content: (
-            <>
-                <p>알파 입자가 원자핵의 전기적 반발력에 의해 원래 경로에서 <Bold>얼마나 휘어졌는지를 나타내는 각도</Bold>입니다.</p>
-                <p><Bold>0°</Bold>는 직진, <Bold>180°</Bold>는 정면으로 되튕겨 나왔음을 의미합니다. 러더퍼드는 극소수의 입자만 큰 각도로 산란되는 것을 보고 원자핵 모델을 제안했습니다.</p>
-            </>
-        )
-    }
+    useEffect(() => {
+        document.documentElement.lang = locale;
+        document.title = value.t.app.title;
+    }, [locale, value]);
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+// The projectile's name runs through several explanations, in Korean with its own particles.
+const useProjectileExplanations = (settings: SimulationSettings) => {
+    const { t } = useI18n();
+    return t.projectileExplanations(t.projectiles[settings.projectile], resolveProjectile(settings).charge < 0);
+};
+
+const LanguageSwitcher: React.FC = () => {
+    const { locale, t, setLocale } = useI18n();
+    return (
+        <select
+            value={locale}
+            onChange={(e) => setLocale(e.target.value as Locale)}
+            aria-label={t.app.language}
+            className="px-2 py-1 text-sm text-gray-200 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+        >
+            {LOCALES.map(option => (
+                <option key={option} value={option}>{CATALOGS[option].languageName}</option>
+            ))}
+        </select>
+    );
 };
 
 // --- From components/Tooltip.tsx ---
@@ -138,6 +221,7 @@ interface TooltipProps {
 }
 
 const Tooltip: React.FC<TooltipProps> = ({ title, content, position = 'top' }) => {
+  const { t } = useI18n();
   const [isVisible, setIsVisible] = useState(false);
 
   const positionClasses = {
@@ -160,7 +244,7 @@ const Tooltip: React.FC<TooltipProps> = ({ title, content, position = 'top' }) =
         onFocus={() => setIsVisible(true)}
         onBlur={() => setIsVisible(false)}
         className="text-gray-400 hover:text-cyan-400 transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500 rounded-full"
-        aria-label="도움말 보기"
+        aria-label={t.app.help}
       >
         <HelpCircle size={16} />
       </button>
@@ -182,30 +266,164 @@ ChartJS.register(LinearScale, PointElement, LineElement, ChartTooltip, Legend);
 
 interface ChartProps {
     data: ScatterPoint[];
+    referenceData?: ScatterPoint[] | null; // Same beam on a single nucleus, shown in foil mode.
+    classicalData?: ScatterPoint[] | null; // Same beam under Newtonian dynamics, shown for relativistic runs.
+    comparisonData?: ScatterPoint[] | null; // Same beam on a Thomson atom, shown in split view.
+    pinnedSeries?: PinnedSeries[]; // Earlier runs pinned for comparison, already in this frame
+    settings: SimulationSettings;
+    frame: ReferenceFrame;
+    isTheoryHidden?: boolean; // The target is a mystery, so its prediction must not be drawn.
+    fittedHeadOnDistance?: number | null; // fm, drawn instead while the theory is hidden
+    figureCaption: string;
+}
+
+interface PinnedSeries {
+    label: string;
+    color: string;
+    data: ScatterPoint[];
 }
 
-const AngleDistributionChart: React.FC<ChartProps> = ({ data }) => {
+// Matches trajectories by index, as both runs fire the same beam in the same order.
+const summarizeDivergence = (points: ScatterPoint[], classical: ScatterPoint[]) => {
+    const differences = points.slice(0, classical.length).map((p, i) => Math.abs(p.y - classical[i].y));
+    const ratios = points
+        .map((p, i) => (classical[i] && classical[i].y > 0 ? p.y / classical[i].y : NaN))
+        .filter(Number.isFinite);
+    return {
+        meanDifference: differences.length > 0 ? differences.reduce((sum, d) => sum + d, 0) / differences.length : 0,
+        maxDifference: Math.max(0, ...differences),
+        medianRatio: ratios.length > 0 ? [...ratios].sort((a, b) => a - b)[Math.floor(ratios.length / 2)] : NaN,
+    };
+};
+
+const ANALYTIC_CURVE_SAMPLES = 200;
+
+// The prediction a chart compares against. With the theory hidden that is only a curve fitted to
+// centre-of-mass data, which has no recoil left to correct for.
+const chartKinematics = (settings: SimulationSettings, frame: ReferenceFrame, isTheoryHidden: boolean, fittedHeadOnDistance: number | null): ScatteringKinematics | null => {
+    if (!isTheoryHidden) return scatteringKinematics(settings, frame);
+    return fittedHeadOnDistance ? { headOnDistance: fittedHeadOnDistance, massRatio: 0, frame: 'cm' } : null;
+};
+
+const tooltipStyle = {
+    backgroundColor: '#1a202c',
+    titleColor: '#e2e8f0',
+    bodyColor: '#e2e8f0',
+    borderColor: '#4a5568',
+    borderWidth: 1,
+};
+
+const AngleDistributionChart: React.FC<ChartProps> = ({ data, referenceData, classicalData, comparisonData, pinnedSeries = [], settings, frame, isTheoryHidden = false, fittedHeadOnDistance = null, figureCaption }) => {
+    const { locale, t, format } = useI18n();
+    const chartRef = useRef<ChartJS<'scatter'>>(null);
+    const residualChartRef = useRef<ChartJS<'scatter'>>(null);
+    const projectile = resolveProjectile(settings);
+    const projectileExplanations = useProjectileExplanations(settings);
+    const kinematics = useMemo(
+        () => chartKinematics(settings, frame, isTheoryHidden, fittedHeadOnDistance),
+        [settings, frame, isTheoryHidden, fittedHeadOnDistance]
+    );
+    const widestImpactParameter = [data, ...pinnedSeries.map(series => series.data)]
+        .reduce((max, points) => points.reduce((m, p) => Math.max(m, p.x), max), 0);
+    const xMax = Math.max(2500, Math.ceil(widestImpactParameter / 500) * 500);
+
+    // Quadratic spacing puts most samples at small b, where θ changes fastest.
+    const analyticCurve = useMemo(() => {
+        const curve: ScatterPoint[] = [];
+        if (!kinematics) return curve;
+        for (let i = 0; i <= ANALYTIC_CURVE_SAMPLES; i++) {
+            const b = xMax * (i / ANALYTIC_CURVE_SAMPLES) ** 2;
+            curve.push({ x: b, y: predictedAngleDeg(b, kinematics) });
+        }
+        return curve;
+    }, [xMax, kinematics]);
+
+    const residuals = useMemo(
+        () => (kinematics ? data.map(p => ({ x: p.x, y: p.y - predictedAngleDeg(p.x, kinematics) })) : []),
+        [data, kinematics]
+    );
+    const rmsResidual = residuals.length > 0
+        ? Math.sqrt(residuals.reduce((sum, r) => sum + r.y ** 2, 0) / residuals.length)
+        : 0;
+    const residualRange = Math.max(1, Math.ceil(Math.max(0, ...residuals.map(r => Math.abs(r.y)))));
+    const divergence = useMemo(
+        () => (classicalData ? summarizeDivergence(data, classicalData) : null),
+        [data, classicalData]
+    );
+
     const chartData = {
         datasets: [
             {
-                label: '입자',
+                label: referenceData ? t.chart.foil : t.chart.particles,
                 data: data,
                 backgroundColor: '#06b6d4',
                 pointRadius: 4,
                 pointHoverRadius: 6,
             },
+            ...(referenceData ? [{
+                label: t.chart.singleNucleusReference,
+                data: referenceData,
+                backgroundColor: 'rgba(160, 174, 192, 0.6)',
+                pointRadius: 3,
+                pointHoverRadius: 5,
+            }] : []),
+            ...(comparisonData ? [{
+                label: t.chart.thomsonModel,
+                data: comparisonData,
+                backgroundColor: 'rgba(252, 165, 165, 0.7)',
+                pointRadius: 3,
+                pointHoverRadius: 5,
+            }] : []),
+            ...(classicalData ? [{
+                label: t.chart.classicalReference,
+                data: classicalData,
+                backgroundColor: 'rgba(192, 132, 252, 0.6)',
+                pointRadius: 3,
+                pointHoverRadius: 5,
+            }] : []),
+            ...pinnedSeries.map(series => ({
+                label: series.label,
+                data: series.data,
+                backgroundColor: series.color,
+                pointRadius: 3,
+                pointHoverRadius: 5,
+                pointStyle: 'triangle' as const,
+            })),
+            {
+                label: `${isTheoryHidden ? t.chart.fittedCurve : t.chart.theory} θ = 2·arctan(d/2b)`,
+                data: analyticCurve,
+                borderColor: '#f59e0b',
+                backgroundColor: '#f59e0b',
+                borderWidth: 2,
+                showLine: true,
+                pointRadius: 0,
+                pointHoverRadius: 0,
+            },
+        ],
+    };
+
+    const residualData = {
+        datasets: [
+            {
+                label: t.chart.residual,
+                data: residuals,
+                backgroundColor: '#f472b6',
+                pointRadius: 3,
+                pointHoverRadius: 5,
+            },
         ],
     };
 
     const options: ChartOptions<'scatter'> = {
         responsive: true,
         maintainAspectRatio: false,
+        locale,
         scales: {
             x: {
                 type: 'linear',
                 position: 'bottom',
                 min: 0,
-                max: 2500,
+                max: xMax,
                 title: { display: false },
                 ticks: { color: '#a0aec0' },
                 grid: { color: '#4a5568' },
@@ -218,19 +436,61 @@ const AngleDistributionChart: React.FC<ChartProps> = ({ data }) => {
                 grid: { color: '#4a5568' },
             },
         },
+        plugins: {
+            legend: { display: true, labels: { color: '#a0aec0', boxWidth: 12 } },
+            tooltip: {
+                ...tooltipStyle,
+                filter: (item: TooltipItem<'scatter'>) => item.datasetIndex !== chartData.datasets.length - 1,
+                callbacks: {
+                    label: function (context: TooltipItem<'scatter'>) {
+                        const point = context.raw as ScatterPoint;
+                        const xLabel = `${t.chart.impactParameter}: ${format.fixed(point.x, 2)} fm`;
+                        const yLabel = `${t.chart.scatteringAngle}: ${format.fixed(point.y, 2)}°`;
+                        // The curve belongs to the current settings, so pinned runs are named instead.
+                        const isPinned = context.datasetIndex >= chartData.datasets.length - 1 - pinnedSeries.length;
+                        if (isPinned) return [context.dataset.label || '', xLabel, yLabel];
+                        if (!kinematics) return [xLabel, yLabel];
+                        const theoryLabel = `${isTheoryHidden ? t.chart.fittedCurve : t.chart.theory}: ${format.fixed(predictedAngleDeg(point.x, kinematics), 2)}°`;
+                        return [xLabel, yLabel, theoryLabel];
+                    },
+                },
+            },
+        },
+    };
+
+    const residualOptions: ChartOptions<'scatter'> = {
+        responsive: true,
+        maintainAspectRatio: false,
+        locale,
+        scales: {
+            x: {
+                type: 'linear',
+                position: 'bottom',
+                min: 0,
+                max: xMax,
+                title: { display: false },
+                ticks: { color: '#a0aec0' },
+                grid: { color: '#4a5568' },
+            },
+            y: {
+                min: -residualRange,
+                max: residualRange,
+                title: { display: false },
+                ticks: { color: '#a0aec0' },
+                grid: {
+                    color: (context) => (context.tick.value === 0 ? '#f59e0b' : '#4a5568'),
+                },
+            },
+        },
         plugins: {
             legend: { display: false },
             tooltip: {
-                backgroundColor: '#1a202c',
-                titleColor: '#e2e8f0',
-                bodyColor: '#e2e8f0',
-                borderColor: '#4a5568',
-                borderWidth: 1,
+                ...tooltipStyle,
                 callbacks: {
                     label: function (context: TooltipItem<'scatter'>) {
                         const point = context.raw as ScatterPoint;
-                        const xLabel = `충돌 계수: ${point.x.toFixed(2)} fm`;
-                        const yLabel = `산란각: ${point.y.toFixed(2)}°`;
+                        const xLabel = `${t.chart.impactParameter}: ${format.fixed(point.x, 2)} fm`;
+                        const yLabel = `${t.chart.residual}: ${point.y >= 0 ? '+' : ''}${format.fixed(point.y, 3)}°`;
                         return [xLabel, yLabel];
                     },
                 },
@@ -238,23 +498,122 @@ const AngleDistributionChart: React.FC<ChartProps> = ({ data }) => {
         },
     };
 
+    const buildFigure = (options: FigureOptions) => chartRef.current
+        ? chartFigure(chartRef.current, { x: t.chart.impactParameterAxis, y: t.chart.scatteringAngleAxis }, options)
+        : null;
+
+    // The zero line is coloured by a scriptable option, which the figure does not evaluate.
+    const buildResidualFigure = (options: FigureOptions) => {
+        const chart = residualChartRef.current;
+        if (!chart) return null;
+        const zero = chart.scales.y.getPixelForValue(0);
+        return chartFigure(chart, { x: t.chart.impactParameterAxis, y: t.chart.residualAxis }, options, color =>
+            `<path d="M${chart.chartArea.left} ${zero}H${chart.chartArea.right}" stroke="${color('#f59e0b')}" stroke-width="1"/>`);
+    };
+
     return (
-        <div className="w-full flex" style={{ height: 300 }}>
-            <div className="flex items-center justify-center pr-4" style={{ writingMode: 'vertical-rl' }}>
-                 <div className="flex items-center gap-2 text-sm text-gray-400">
-                    <span>산란각 (°)</span>
-                    <div style={{ writingMode: 'horizontal-tb' }}>
-                        <Tooltip title={explanations.scatteringAngle.title} content={explanations.scatteringAngle.content} position="right" />
+        <div className="space-y-4">
+            <div className="flex justify-end">
+                <FigureExportMenu fileName="scattering-angle" caption={figureCaption} buildFigure={buildFigure} />
+            </div>
+            <div className="w-full flex" style={{ height: 300 }}>
+                <div className="flex items-center justify-center pr-4" style={{ writingMode: 'vertical-rl' }}>
+                     <div className="flex items-center gap-2 text-sm text-gray-400">
+                        <span>{t.chart.scatteringAngleAxis}</span>
+                        <div style={{ writingMode: 'horizontal-tb' }}>
+                            <Tooltip title={projectileExplanations.scatteringAngle.title} content={projectileExplanations.scatteringAngle.content} position="right" />
+                        </div>
+                    </div>
+                </div>
+                <div className="flex-grow flex flex-col min-w-0">
+                    <div className="flex-grow w-full h-full">
+                        <Scatter ref={chartRef} options={options} data={chartData} />
+                    </div>
+                    <div className="flex items-center justify-center pt-3 gap-2 text-sm text-gray-400">
+                        <span>{t.chart.impactParameterAxis}</span>
+                        <Tooltip title={projectileExplanations.impactParameter.title} content={projectileExplanations.impactParameter.content} />
+                    </div>
+                </div>
+            </div>
+            <div className="flex items-center justify-center gap-4 text-sm text-gray-400">
+                {kinematics ? (
+                    <span className="flex items-center gap-2">
+                        {isTheoryHidden ? t.chart.fittedHeadOnDistance : t.chart.headOnDistance} <span className="font-mono text-amber-400">{format.fixed(kinematics.headOnDistance, 2)} fm</span>
+                        <Tooltip title={t.explanations.analyticPrediction.title} content={t.explanations.analyticPrediction.content} />
+                    </span>
+                ) : (
+                    <span>{t.chart.theoryHidden}</span>
+                )}
+                {residuals.length > 0 && (
+                    <span>{t.chart.rmsResidual} <span className="font-mono text-pink-400">{format.fixed(rmsResidual, 3)}°</span></span>
+                )}
+            </div>
+            {referenceData && data.length > 0 && (
+                <div className="grid grid-cols-3 gap-2 text-sm text-center">
+                    <div />
+                    <div className="text-cyan-400">{t.chart.foil}</div>
+                    <div className="text-gray-400">{t.chart.singleNucleus}</div>
+                    <div className="text-gray-400">{t.chart.meanAngle}</div>
+                    <div className="font-mono">{format.fixed(summarizeAngles(data).meanAngle, 2)}°</div>
+                    <div className="font-mono">{format.fixed(summarizeAngles(referenceData).meanAngle, 2)}°</div>
+                    <div className="text-gray-400">{t.chart.backscattered}</div>
+                    <div className="font-mono">{format.percent(summarizeAngles(data).backscatterFraction, 2)}</div>
+                    <div className="font-mono">{format.percent(summarizeAngles(referenceData).backscatterFraction, 2)}</div>
+                </div>
+            )}
+            {comparisonData && data.length > 0 && (
+                <div className="grid grid-cols-3 gap-2 text-sm text-center">
+                    <div />
+                    <div className="text-cyan-400">{t.chart.nuclearModel}</div>
+                    <div className="text-red-300 flex items-center justify-center gap-1">
+                        {t.chart.thomsonModel}
+                        <Tooltip title={t.explanations.splitView.title} content={t.explanations.splitView.content} />
+                    </div>
+                    <div className="text-gray-400">{t.chart.meanAngle}</div>
+                    <div className="font-mono">{format.fixed(summarizeAngles(data).meanAngle, 2)}°</div>
+                    <div className="font-mono">{format.fixed(summarizeAngles(comparisonData).meanAngle, 4)}°</div>
+                    <div className="text-gray-400">{t.chart.maxAngle}</div>
+                    <div className="font-mono">{format.fixed(Math.max(0, ...data.map(p => p.y)), 2)}°</div>
+                    <div className="font-mono">{format.fixed(Math.max(0, ...comparisonData.map(p => p.y)), 4)}°</div>
+                    <div className="text-gray-400">{t.chart.backscattered}</div>
+                    <div className="font-mono">{format.percent(summarizeAngles(data).backscatterFraction, 2)}</div>
+                    <div className="font-mono">{format.percent(summarizeAngles(comparisonData).backscatterFraction, 2)}</div>
+                </div>
+            )}
+            {classicalData && divergence && data.length > 0 && (
+                <div className="grid grid-cols-3 gap-2 text-sm text-center">
+                    <div />
+                    <div className="text-cyan-400">{t.chart.relativistic}</div>
+                    <div className="text-purple-400">{t.chart.classical}</div>
+                    <div className="text-gray-400">{t.chart.meanAngle}</div>
+                    <div className="font-mono">{format.fixed(summarizeAngles(data).meanAngle, 2)}°</div>
+                    <div className="font-mono">{format.fixed(summarizeAngles(classicalData).meanAngle, 2)}°</div>
+                    <div className="text-gray-400">{t.chart.angleDifference}</div>
+                    <div className="col-span-2 font-mono">{format.fixed(divergence.meanDifference, 3)}° / {format.fixed(divergence.maxDifference, 3)}°</div>
+                    <div className="text-gray-400 flex items-center justify-center gap-1">
+                        {t.chart.angleRatio}
+                        <Tooltip title={t.explanations.relativistic.title} content={t.explanations.relativistic.content} />
+                    </div>
+                    <div className="col-span-2 font-mono">
+                        {Number.isFinite(divergence.medianRatio) ? format.fixed(divergence.medianRatio, 3) : '–'}
+                        <span className="text-gray-400"> {t.chart.smallAnglePrediction(format.fixed(relativisticDeflectionRatio(settings.energy, projectile.mass), 3))}</span>
                     </div>
                 </div>
+            )}
+            <div className="flex justify-end">
+                <FigureExportMenu fileName="angle-residuals" caption={figureCaption} buildFigure={buildResidualFigure} />
             </div>
-            <div className="flex-grow flex flex-col min-w-0">
-                <div className="flex-grow w-full h-full">
-                    <Scatter options={options} data={chartData} />
+            <div className="w-full flex" style={{ height: 160 }}>
+                <div className="flex items-center justify-center pr-4" style={{ writingMode: 'vertical-rl' }}>
+                     <div className="flex items-center gap-2 text-sm text-gray-400">
+                        <span>{t.chart.residualAxis}</span>
+                        <div style={{ writingMode: 'horizontal-tb' }}>
+                            <Tooltip title={t.explanations.residual.title} content={t.explanations.residual.content} position="right" />
+                        </div>
+                    </div>
                 </div>
-                <div className="flex items-center justify-center pt-3 gap-2 text-sm text-gray-400">
-                    <span>충돌 계수 (fm)</span>
-                    <Tooltip title={explanations.impactParameter.title} content={explanations.impactParameter.content} />
+                <div className="flex-grow w-full h-full min-w-0">
+                    <Scatter ref={residualChartRef} options={residualOptions} data={residualData} />
                 </div>
             </div>
         </div>
@@ -268,6 +627,7 @@ const Icon: React.FC<{ name: string, className?: string }> = ({ name, className
         play: <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="5 3 19 12 5 21 5 3"></polygon></svg>,
         pause: <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="6" y="4" width="4" height="16"></rect><rect x="14" y="4"width="4" height="16"></rect></svg>,
         reset: <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 2v6h6"></path><path d="M3 13a9 9 0 1 0 3-7.7L3 8"></path></svg>,
+        dice: <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="18" height="18" rx="2" ry="2"></rect><circle cx="8.5" cy="8.5" r="1.5"></circle><circle cx="15.5" cy="15.5" r="1.5"></circle><circle cx="12" cy="12" r="1.5"></circle></svg>,
     };
     return <span className={className}>{icons[name]}</span>;
 }
@@ -279,29 +639,40 @@ interface ControlsProps {
     onStart: () => void;
     onStop: () => void;
     onReset: () => void;
+    mystery?: { isEnergyHidden: boolean } | null; // A challenge hides the target and fixes how it is modelled.
 }
 
-const Slider: React.FC<{ label: string; tooltip: {title: string, content: React.ReactNode}; value: number; min: number; max: number; step: number; unit: string; onChange: (e: React.ChangeEvent<HTMLInputElement>) => void }> = ({ label, tooltip, value, min, max, step, unit, onChange }) => (
-    <div className="space-y-2">
-        <label className="flex justify-between text-sm font-medium text-gray-300">
-            <span className="flex items-center gap-2">
-                {label}
-                <Tooltip title={tooltip.title} content={tooltip.content} position="top" />
-            </span>
-            <span className="font-bold text-cyan-400">{value} {unit}</span>
-        </label>
-        <input
-            type="range"
-            min={min}
-            max={max}
-            step={step}
-            value={value}
-            onChange={onChange}
-            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-cyan-500"
-        />
+const HiddenSetting: React.FC<{ label: string; unit?: string }> = ({ label, unit }) => (
+    <div className="flex justify-between items-center py-2">
+        <span className="font-medium text-gray-300">{label}</span>
+        <span className="font-mono text-amber-400">?{unit ? ` ${unit}` : ''}</span>
     </div>
 );
 
+const Slider: React.FC<{ label: string; tooltip: {title: string, content: React.ReactNode}; value: number; min: number; max: number; step: number; unit: string; onChange: (e: React.ChangeEvent<HTMLInputElement>) => void }> = ({ label, tooltip, value, min, max, step, unit, onChange }) => {
+    const { format } = useI18n();
+    return (
+        <div className="space-y-2">
+            <label className="flex justify-between text-sm font-medium text-gray-300">
+                <span className="flex items-center gap-2">
+                    {label}
+                    <Tooltip title={tooltip.title} content={tooltip.content} position="top" />
+                </span>
+                <span className="font-bold text-cyan-400">{format.number(value)} {unit}</span>
+            </label>
+            <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                onChange={onChange}
+                className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+            />
+        </div>
+    );
+};
+
 const ToggleSwitch: React.FC<{ label: string; tooltip: {title: string, content: React.ReactNode}; enabled: boolean; onChange: (enabled: boolean) => void }> = ({ label, tooltip, enabled, onChange }) => (
     <div className="flex items-center justify-between py-2">
         <span className="font-medium text-gray-300 flex items-center gap-2">
@@ -328,43 +699,284 @@ const ToggleSwitch: React.FC<{ label: string; tooltip: {title: string, content:
     </div>
 );
 
-const Controls: React.FC<ControlsProps> = ({ settings, setSettings, status, onStart, onStop, onReset }) => {
+const SelectInput = <T extends string>({ label, tooltip, value, options, onChange }: { label: string; tooltip: {title: string, content: React.ReactNode}; value: T; options: { value: T; label: string }[]; onChange: (value: T) => void }) => (
+    <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+            {label}
+            <Tooltip title={tooltip.title} content={tooltip.content} position="top" />
+        </label>
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value as T)}
+            className="w-full px-3 py-2 text-sm text-gray-100 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+        >
+            {options.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+        </select>
+    </div>
+);
+
+const NumberInput: React.FC<{ label: string; tooltip: {title: string, content: React.ReactNode}; value: number; min?: number; max?: number; onChange: (value: number) => void; children?: React.ReactNode }> = ({ label, tooltip, value, min, max, onChange, children }) => (
+    <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+            {label}
+            <Tooltip title={tooltip.title} content={tooltip.content} position="top" />
+        </label>
+        <div className="flex gap-2">
+            <input
+                type="number"
+                min={min}
+                max={max}
+                value={value}
+                onChange={(e) => {
+                    const next = Number(e.target.value);
+                    if (Number.isFinite(next)) onChange(next);
+                }}
+                className="flex-1 min-w-0 px-3 py-2 text-sm font-mono text-gray-100 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            />
+            {children}
+        </div>
+    </div>
+);
+
+// Select options in catalog order, each named in the current language.
+const labelledOptions = <T extends string>(labels: Record<T, string>) =>
+    (Object.keys(labels) as T[]).map(value => ({ value, label: labels[value] }));
+
+const ENERGY_RANGES: Record<EnergyRange, { max: number; step: number }> = {
+    standard: { max: 15, step: 0.5 },
+    high: { max: 200, step: 1 },
+    ultra: { max: 2000, step: 10 },
+};
+
+const energyRangeOptions = (format: NumberFormat): { value: EnergyRange; label: string }[] =>
+    (Object.keys(ENERGY_RANGES) as EnergyRange[]).map(key => ({
+        value: key,
+        label: `${format.integer(1)}–${format.integer(ENERGY_RANGES[key].max)} MeV`,
+    }));
+
+const projectileOptions = (t: Messages): { value: ProjectileType; label: string }[] => [
+    ...(Object.keys(PROJECTILES) as Exclude<ProjectileType, 'custom'>[]).map(key => ({
+        value: key,
+        label: `${t.projectiles[key]} (${PROJECTILES[key].symbol})`,
+    })),
+    { value: 'custom', label: t.controls.customProjectile },
+];
+
+const MAX_SEED = 2 ** 32 - 1;
+
+const Controls: React.FC<ControlsProps> = ({ settings, setSettings, status, onStart, onStop, onReset, mystery = null }) => {
     const handleSettingsChange = (field: keyof SimulationSettings) => (e: React.ChangeEvent<HTMLInputElement>) => {
         setSettings(prev => ({ ...prev, [field]: Number(e.target.value) }));
     };
     const handleFocusModeChange = (enabled: boolean) => {
         setSettings(prev => ({ ...prev, isFocusModeEnabled: enabled }));
     };
+    const handleIntegratorChange = (integrator: IntegratorType) => {
+        setSettings(prev => ({ ...prev, integrator }));
+    };
+    const handleRelativisticChange = (enabled: boolean) => {
+        setSettings(prev => ({ ...prev, isRelativistic: enabled }));
+    };
+    const handleEnergyRangeChange = (energyRange: EnergyRange) => {
+        setSettings(prev => ({ ...prev, energyRange, energy: Math.min(prev.energy, ENERGY_RANGES[energyRange].max) }));
+    };
+    const handleBeamModeChange = (beamMode: BeamMode) => {
+        const maxParticles = beamMode === 'random' ? MAX_RANDOM_PARTICLES : MAX_LADDER_PARTICLES;
+        setSettings(prev => ({ ...prev, beamMode, numParticles: Math.min(prev.numParticles, maxParticles) }));
+    };
+    const handleSeedChange = (seed: number) => {
+        setSettings(prev => ({ ...prev, seed: Math.min(MAX_SEED, Math.max(0, Math.floor(seed))) }));
+    };
+    const handleNewSeed = () => {
+        handleSeedChange(Math.floor(Math.random() * MAX_SEED));
+    };
+    const handlePotentialChange = (potential: PotentialModel) => {
+        setSettings(prev => ({ ...prev, potential }));
+    };
+    const handleTargetModeChange = (targetMode: TargetMode) => {
+        setSettings(prev => ({ ...prev, targetMode }));
+    };
+    const handleSplitViewChange = (enabled: boolean) => {
+        setSettings(prev => ({ ...prev, isSplitView: enabled }));
+    };
+    const handleThreeDimensionalChange = (enabled: boolean) => {
+        setSettings(prev => ({ ...prev, isThreeDimensional: enabled }));
+    };
+    const handleFoilArrangementChange = (foilArrangement: FoilArrangement) => {
+        setSettings(prev => ({ ...prev, foilArrangement }));
+    };
+    const handleProjectileChange = (projectileType: ProjectileType) => {
+        setSettings(prev => ({ ...prev, projectile: projectileType }));
+    };
+    const { t, format } = useI18n();
+    const isRandomBeam = settings.beamMode === 'random';
+    const projectileExplanations = useProjectileExplanations(settings);
     const isRunning = status === 'running';
 
     return (
         <div className="space-y-6">
-            <h2 className="text-xl font-semibold text-center text-cyan-400">시뮬레이션 제어</h2>
+            <h2 className="text-xl font-semibold text-center text-cyan-400">{t.controls.title}</h2>
             <div className="space-y-4">
-                <Slider label="α-입자 운동 에너지" tooltip={explanations.kineticEnergy} value={settings.energy} min={1} max={15} step={0.5} unit="MeV" onChange={handleSettingsChange('energy')} />
-                <Slider label="알파 입자 수" tooltip={explanations.particleCount} value={settings.numParticles} min={50} max={300} step={10} unit="" onChange={handleSettingsChange('numParticles')} />
-                <Slider label="표적핵 전하량 (Z)" tooltip={explanations.targetZ} value={settings.targetZ} min={1} max={118} step={1} unit="" onChange={handleSettingsChange('targetZ')} />
+                <SelectInput
+                    label={t.controls.projectile}
+                    tooltip={t.explanations.projectile}
+                    value={settings.projectile}
+                    options={projectileOptions(t)}
+                    onChange={handleProjectileChange}
+                />
+                {settings.projectile === 'custom' && (
+                    <div className="grid grid-cols-2 gap-3">
+                        <NumberInput label={t.controls.customCharge} tooltip={t.explanations.projectile} value={settings.customCharge} min={-10} max={10} onChange={(value) => setSettings(prev => ({ ...prev, customCharge: Math.round(value) }))} />
+                        <NumberInput label={t.controls.customMass} tooltip={t.explanations.projectile} value={settings.customMass} min={0.0005} max={250} onChange={(value) => setSettings(prev => ({ ...prev, customMass: Math.max(0.0005, value) }))} />
+                    </div>
+                )}
+                {mystery?.isEnergyHidden ? (
+                    <HiddenSetting label={projectileExplanations.kineticEnergy.title} unit="MeV" />
+                ) : (
+                    <Slider label={projectileExplanations.kineticEnergy.title} tooltip={projectileExplanations.kineticEnergy} value={settings.energy} min={1} max={ENERGY_RANGES[settings.energyRange].max} step={ENERGY_RANGES[settings.energyRange].step} unit="MeV" onChange={handleSettingsChange('energy')} />
+                )}
+                <Slider label={projectileExplanations.particleCount.title} tooltip={projectileExplanations.particleCount} value={settings.numParticles} min={50} max={isRandomBeam ? MAX_RANDOM_PARTICLES : MAX_LADDER_PARTICLES} step={isRandomBeam ? 50 : 10} unit="" onChange={handleSettingsChange('numParticles')} />
+                {mystery ? (
+                    <HiddenSetting label={t.controls.targetZ} />
+                ) : (
+                    <Slider label={t.controls.targetZ} tooltip={projectileExplanations.targetZ} value={settings.targetZ} min={1} max={118} step={1} unit="" onChange={handleSettingsChange('targetZ')} />
+                )}
+                {settings.targetMode !== 'foil' && !mystery && (
+                    <NumberInput
+                        label={t.controls.targetMassNumber}
+                        tooltip={t.explanations.targetMassNumber}
+                        value={resolveTargetMassNumber(settings)}
+                        min={1}
+                        max={300}
+                        onChange={(value) => setSettings(prev => ({ ...prev, targetMassNumber: Math.min(300, Math.max(1, Math.round(value))) }))}
+                    >
+                        <button
+                            type="button"
+                            onClick={() => setSettings(prev => ({ ...prev, targetMassNumber: null }))}
+                            disabled={settings.targetMassNumber === null}
+                            className="px-3 py-2 text-sm font-semibold text-gray-100 bg-gray-600 rounded-md hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                            {t.controls.massNumberFromZ}
+                        </button>
+                    </NumberInput>
+                )}
             </div>
             <div className="pt-2 border-t border-gray-700">
                 <ToggleSwitch 
-                    label="원자핵 집중 탐사"
-                    tooltip={explanations.focusMode}
+                    label={t.controls.focusMode}
+                    tooltip={t.explanations.focusMode}
                     enabled={settings.isFocusModeEnabled}
                     onChange={handleFocusModeChange}
                 />
             </div>
+            {!mystery && (
+                <div className="pt-4 border-t border-gray-700 space-y-4">
+                    <SelectInput
+                        label={t.controls.targetMode}
+                        tooltip={t.explanations.targetMode}
+                        value={settings.targetMode}
+                        options={labelledOptions(t.controls.targetModes)}
+                        onChange={handleTargetModeChange}
+                    />
+                    {settings.targetMode !== 'thomson' && !isThreeDimensionalRun(settings) && (
+                        <ToggleSwitch
+                            label={t.controls.splitView}
+                            tooltip={t.explanations.splitView}
+                            enabled={settings.isSplitView}
+                            onChange={handleSplitViewChange}
+                        />
+                    )}
+                    <SelectInput
+                        label={t.controls.potential}
+                        tooltip={t.explanations.potential}
+                        value={settings.potential}
+                        options={labelledOptions(t.controls.potentials)}
+                        onChange={handlePotentialChange}
+                    />
+                    {settings.targetMode === 'foil' && (
+                        <>
+                            <Slider label={t.controls.foilLayers} tooltip={t.explanations.foilLayers} value={settings.foilLayers} min={1} max={6} step={1} unit={t.controls.layerUnit} onChange={handleSettingsChange('foilLayers')} />
+                            <Slider label={t.controls.foilSpacing} tooltip={t.explanations.foilSpacing} value={settings.foilSpacing} min={200} max={1000} step={50} unit="fm" onChange={handleSettingsChange('foilSpacing')} />
+                            <SelectInput
+                                label={t.controls.foilArrangement}
+                                tooltip={t.explanations.foilArrangement}
+                                value={settings.foilArrangement}
+                                options={labelledOptions(t.controls.foilArrangements)}
+                                onChange={handleFoilArrangementChange}
+                            />
+                        </>
+                    )}
+                </div>
+            )}
+            <div className="pt-4 border-t border-gray-700 space-y-4">
+                <SelectInput
+                    label={t.controls.beamMode}
+                    tooltip={t.explanations.beamMode}
+                    value={settings.beamMode}
+                    options={labelledOptions(t.controls.beamModes)}
+                    onChange={handleBeamModeChange}
+                />
+                {settings.targetMode === 'single' && (
+                    <ToggleSwitch
+                        label={t.controls.threeDimensional}
+                        tooltip={t.explanations.threeDimensional}
+                        enabled={settings.isThreeDimensional}
+                        onChange={handleThreeDimensionalChange}
+                    />
+                )}
+                {isRandomBeam && (
+                    <NumberInput label={t.controls.seed} tooltip={t.explanations.seed} value={settings.seed} min={0} max={MAX_SEED} onChange={handleSeedChange}>
+                        <button
+                            type="button"
+                            onClick={handleNewSeed}
+                            className="p-2 text-white bg-gray-600 rounded-md hover:bg-gray-700 transition-colors"
+                            title={t.controls.newSeed}
+                        >
+                            <Icon name="dice" className="w-5 h-5" />
+                        </button>
+                    </NumberInput>
+                )}
+            </div>
+            <div className="pt-4 border-t border-gray-700 space-y-4">
+                <SelectInput
+                    label={t.controls.integrator}
+                    tooltip={t.explanations.integrator}
+                    value={settings.integrator}
+                    options={labelledOptions(t.controls.integrators)}
+                    onChange={handleIntegratorChange}
+                />
+                {!mystery && (
+                    <>
+                        <ToggleSwitch
+                            label={t.controls.relativistic}
+                            tooltip={t.explanations.relativistic}
+                            enabled={settings.isRelativistic}
+                            onChange={handleRelativisticChange}
+                        />
+                        <SelectInput
+                            label={t.controls.energyRange}
+                            tooltip={t.explanations.energyRange}
+                            value={settings.energyRange}
+                            options={energyRangeOptions(format)}
+                            onChange={handleEnergyRangeChange}
+                        />
+                    </>
+                )}
+            </div>
             <div className="flex justify-center gap-2 pt-2">
                 <button 
                     onClick={isRunning ? onStop : onStart} 
                     className="flex-1 flex items-center justify-center gap-2 px-4 py-2 font-semibold text-white bg-cyan-600 rounded-md hover:bg-cyan-700 disabled:bg-gray-500 transition-colors"
                 >
                     <Icon name={isRunning ? "pause" : "play"} className="w-5 h-5" />
-                    {isRunning ? '일시정지' : (status === 'paused' ? '계속' : '시작')}
+                    {isRunning ? t.controls.pause : (status === 'paused' ? t.controls.resume : t.controls.start)}
                 </button>
                 <button 
                     onClick={onReset}
                     className="p-3 font-semibold text-white bg-gray-600 rounded-md hover:bg-gray-700 transition-colors"
-                    title="시뮬레이션 초기화"
+                    title={t.controls.reset}
                 >
                     <Icon name="reset" className="w-5 h-5" />
                 </button>
@@ -373,431 +985,3353 @@ const Controls: React.FC<ControlsProps> = ({ settings, setSettings, status, onSt
     );
 };
 
-// --- From components/SimulationCanvas.tsx ---
-interface SimulationCanvasProps {
-    particles: Omit<Particle, 'path'>[];
-    targetZ: number;
-    newPaths: PathUpdate;
-    simulationId: number;
-}
+// --- From components/FigureExportMenu.tsx ---
+const FIGURE_PIXEL_RATIOS = ['2', '3', '4'];
 
-const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ particles, targetZ, newPaths, simulationId }) => {
-    const nucleusRadiusInMeters = NUCLEUS_RADIUS_BASE * Math.cbrt(targetZ);
-    const nucleusRadiusOnCanvas = Math.max(5, nucleusRadiusInMeters / SCALE);
-    
-    const pathGroupRef = useRef<SVGGElement>(null);
-    const polylinesRef = useRef<Record<number, SVGPolylineElement>>({});
-    const lastSimulationIdRef = useRef<number | null>(null);
+// The run a figure shows, in one line for its caption. A mystery target stays hidden.
+const figureCaption = (settings: SimulationSettings, frame: ReferenceFrame | null, mystery: { isEnergyHidden: boolean } | null, t: Messages, format: NumberFormat) => {
+    const projectile = resolveProjectile(settings);
+    const parts = mystery
+        ? [`${t.projectiles[settings.projectile]} ${projectile.symbol} ${mystery.isEnergyHidden ? '?' : format.number(settings.energy)} MeV`, t.figure.hiddenTarget]
+        : [`${t.projectiles[settings.projectile]} ${describeRun(settings, t, format)}`];
+    parts.push(t.app.particleCount(format.integer(settings.numParticles)), t.controls.integrators[settings.integrator]);
+    if (frame) parts.push(t.figure.frames[frame]);
+    return parts.join(' · ');
+};
 
-    const colorMap = useMemo(() => new Map(particles.map(p => [p.id, p.color])), [particles]);
+interface FigureExportMenuProps {
+    fileName: string; // Without an extension
+    caption: string;
+    hasScaleBar?: boolean;
+    buildFigure: (options: FigureOptions) => Figure | null; // Null while there is nothing to draw
+}
 
-    useLayoutEffect(() => {
-        const group = pathGroupRef.current;
-        if (!group) return;
+const FigureExportMenu: React.FC<FigureExportMenuProps> = ({ fileName, caption, hasScaleBar = false, buildFigure }) => {
+    const { t } = useI18n();
+    const [isOpen, setIsOpen] = useState(false);
+    const [isLightTheme, setIsLightTheme] = useState(true);
+    const [isCaptionShown, setIsCaptionShown] = useState(true);
+    const [isScaleBarShown, setIsScaleBarShown] = useState(true);
+    const [pixelRatio, setPixelRatio] = useState(FIGURE_PIXEL_RATIOS[1]);
+    const [hasPngFailed, setHasPngFailed] = useState(false);
 
-        if (simulationId !== lastSimulationIdRef.current) {
-            group.innerHTML = '';
-            polylinesRef.current = {};
-            lastSimulationIdRef.current = simulationId;
-        }
+    const figureOptions = (): FigureOptions => ({
+        theme: isLightTheme ? 'light' : 'dark',
+        isScaleBarShown: hasScaleBar && isScaleBarShown,
+        caption: isCaptionShown ? caption : null,
+    });
 
-        for (const idStr in newPaths) {
-            const id = Number(idStr);
-            const pointsToAdd = newPaths[id];
-            if (!pointsToAdd || pointsToAdd.length === 0) continue;
+    const handleSvg = () => {
+        const figure = buildFigure(figureOptions());
+        if (figure) downloadFile(`${fileName}.svg`, figure.svg, 'image/svg+xml');
+    };
 
-            let polyline = polylinesRef.current[id];
-            
-            if (!polyline) {
-                const color = colorMap.get(id);
-                if (!color) continue; 
-
-                polyline = document.createElementNS('http://www.w3.org/2000/svg', 'polyline');
-                polyline.setAttribute('fill', 'none');
-                polyline.setAttribute('stroke', color);
-                polyline.setAttribute('stroke-width', '1.5');
-                polyline.setAttribute('stroke-opacity', '0.7');
-                group.appendChild(polyline);
-                polylinesRef.current[id] = polyline;
-            }
-            
-            const newPointsString = pointsToAdd.map(p => `${p.x},${p.y}`).join(' ');
-            const existingPoints = polyline.getAttribute('points') || '';
-            polyline.setAttribute('points', existingPoints ? `${existingPoints} ${newPointsString}` : newPointsString);
-        }
-    }, [newPaths, simulationId, colorMap]);
+    const handlePng = () => {
+        const figure = buildFigure(figureOptions());
+        if (!figure) return;
+        setHasPngFailed(false);
+        figureToPng(figure, Number(pixelRatio))
+            .then(blob => downloadFile(`${fileName}.png`, blob, 'image/png'))
+            .catch(() => setHasPngFailed(true));
+    };
 
-    return (
-        <div className="bg-black rounded-lg shadow-lg overflow-hidden border-2 border-gray-700">
-            <svg width="100%" viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}>
-                <defs>
-                    <pattern id="grid" width="40" height="40" patternUnits="userSpaceOnUse">
-                        <path d="M 40 0 L 0 0 0 40" fill="none" stroke="rgba(55, 65, 81, 0.5)" strokeWidth="1"/>
-                    </pattern>
-                </defs>
-                <rect width="100%" height="100%" fill="url(#grid)" />
-                <g ref={pathGroupRef} />
-
-                {particles.map(p => {
-                    const canvasPos = {
-                        x: p.position.x / SCALE + CANVAS_WIDTH / 2,
-                        y: p.position.y / SCALE + CANVAS_HEIGHT / 2
-                    };
-                    if (canvasPos.x >= 0 && canvasPos.x <= CANVAS_WIDTH && canvasPos.y >= 0 && canvasPos.y <= CANVAS_HEIGHT) {
-                        return (
-                           <circle
-                            key={`particle-${p.id}`}
-                            cx={canvasPos.x}
-                            cy={canvasPos.y}
-                            r="3"
-                            fill={p.color}
-                        />
-                        );
-                    }
-                    return null;
-                })}
+    const buttonClass = 'flex-1 px-3 py-1.5 text-sm font-semibold text-white bg-gray-600 rounded-md hover:bg-gray-500 transition-colors';
 
-                <circle cx={CANVAS_WIDTH / 2} cy={CANVAS_HEIGHT / 2} r={nucleusRadiusOnCanvas} fill="gold" stroke="yellow" strokeWidth="2" />
-                 <circle cx={CANVAS_WIDTH / 2} cy={CANVAS_HEIGHT / 2} r={nucleusRadiusOnCanvas + 5} fill="none" stroke="rgba(255, 215, 0, 0.3)" strokeWidth="1" />
-            </svg>
+    return (
+        <div className="relative">
+            <button
+                type="button"
+                className="px-2 py-1 text-sm font-semibold text-gray-100 bg-gray-800/80 border border-gray-600 rounded hover:bg-gray-700"
+                onClick={() => setIsOpen(open => !open)}
+                aria-expanded={isOpen}
+                title={t.figure.title}
+            >
+                {t.figure.export}
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 top-full mt-1 z-20 w-72 p-3 space-y-2 text-left bg-gray-800 border border-gray-600 rounded-lg shadow-lg">
+                    <div className="flex items-center justify-between">
+                        <h3 className="font-semibold text-cyan-400">{t.figure.title}</h3>
+                        <Tooltip title={t.explanations.figureExport.title} content={t.explanations.figureExport.content} position="left" />
+                    </div>
+                    <ToggleSwitch label={t.figure.lightTheme} tooltip={t.explanations.figureExport} enabled={isLightTheme} onChange={setIsLightTheme} />
+                    <ToggleSwitch label={t.figure.caption} tooltip={t.explanations.figureExport} enabled={isCaptionShown} onChange={setIsCaptionShown} />
+                    {hasScaleBar && (
+                        <ToggleSwitch label={t.figure.scaleBar} tooltip={t.explanations.figureExport} enabled={isScaleBarShown} onChange={setIsScaleBarShown} />
+                    )}
+                    <SelectInput
+                        label={t.figure.resolution}
+                        tooltip={t.explanations.figureExport}
+                        value={pixelRatio}
+                        options={FIGURE_PIXEL_RATIOS.map(ratio => ({ value: ratio, label: t.figure.resolutionOption(Number(ratio)) }))}
+                        onChange={setPixelRatio}
+                    />
+                    <div className="flex gap-2 pt-1">
+                        <button type="button" className={buttonClass} onClick={handleSvg}>SVG</button>
+                        <button type="button" className={buttonClass} onClick={handlePng}>PNG</button>
+                    </div>
+                    {hasPngFailed && <p className="text-sm text-red-400">{t.figure.pngFailed}</p>}
+                </div>
+            )}
         </div>
     );
 };
 
-// --- From App.tsx ---
-const workerCode = `
-    const CANVAS_WIDTH = 800;
-    const CANVAS_HEIGHT = 600;
-    const SCALE = 1e-14;
-    const TIME_STEP = 1e-22;
-    const K_COULOMB = 8.9875517923e9;
-    const ELEMENTARY_CHARGE = 1.602176634e-19;
-    const ALPHA_PARTICLE_MASS = 6.6446573357e-27;
-    const JOULES_PER_MEV = 1.60218e-13;
-
-    let particles = [];
-    let newPathData = {};
-    let settings = null;
-    let physicsTimer = null;
-    let updateTimer = null;
-    let isRunning = false;
-
-    const sendUpdate = () => {
-        if (!isRunning) return;
-        
-        const particlePositions = particles.map(p => ({
-            id: p.id,
-            position: p.position,
-            color: p.color
-        }));
+// --- From components/SimulationCanvas.tsx ---
+interface SimulationCanvasProps {
+    particles: Pick<ParticleSnapshot, 'id' | 'color'>[];
+    positions: Float32Array; // x, y of each of `particles` in turn, in meters
+    recoilPositions: Float32Array | null; // Likewise for their recoiling nuclei
+    targetZ: number;
+    newPaths: Float32Array; // Packed as in simulation/pathBuffer.ts
+    newRecoilPaths: Float32Array;
+    simulationId: number;
+    nuclei: Vector2D[]; // in meters
+    electrons: Vector2D[]; // in meters, for a Thomson atom
+    isThomsonAtom: boolean;
+    detectors: Detector[];
+    detectorCounts: Record<number, number>;
+    onDetectorMove: (id: number, angle: number) => void;
+    fitRadius: number; // meters around the target that the fit button brings into view
+    selectedParticleId?: number | null;
+    onSelectParticle?: (id: number | null) => void;
+    ghostPaths?: GhostPaths[]; // Pinned runs drawn faintly beneath this one
+    overlays?: CanvasOverlays;
+    figureCaption: string;
+    figureFileName: string;
+}
 
-        self.postMessage({
-            type: 'update',
-            payload: {
-                particles: particlePositions,
-                newPaths: newPathData,
-            }
-        });
-        newPathData = {};
-    };
+// Geometry drawn over the target on request. Lengths are in meters.
+interface CanvasOverlays {
+    potentialField: PotentialField | null;
+    onRequestField: ((region: FieldRegion) => void) | null; // Set while the potential is shown
+    forces: Float32Array | null; // N, on each particle, laid out like positions
+    isClosestApproachShown: boolean;
+    asymptotes: { incoming: Asymptote; outgoing: Asymptote } | null; // Of the selected particle
+    headOnDistance: number; // d of the relative motion
+    turningEnergy: number; // MeV, the Coulomb energy at d, which a head-on particle just reaches
+}
 
-    const runSimulationStep = () => {
-        if (!isRunning || !settings || particles.length === 0) {
-            return;
-        }
+// The part of the lab frame on screen: its centre and how many meters one canvas unit spans.
+interface CanvasView {
+    centre: Vector2D;
+    scale: number;
+}
 
-        let finishedCount = 0;
-        particles.forEach(p => {
-            if (p.finished) {
-                finishedCount++;
-                return;
-            }
+const DEFAULT_VIEW: CanvasView = { centre: { x: 0, y: 0 }, scale: SCALE };
+const MIN_VIEW_SCALE = SCALE / 1e4; // 0.001 fm per canvas unit
+const MAX_VIEW_SCALE = SCALE * 1e3; // Wide enough for a whole Thomson atom
+const ZOOM_BUTTON_FACTOR = 2;
+const WHEEL_ZOOM_RATE = 0.0015; // Zoom exponent per wheel delta unit
+const SCALE_BAR_TARGET = 120; // Canvas units the scale bar aims for
+// The selected particle's path is drawn in femtometers inside a transformed group, so zooming
+// rescales the vector line instead of rebuilding it.
+const PATH_UNIT = 1e-15; // m
+const CLICK_TOLERANCE = 4; // Canvas units a press may move and still count as a click
+const PICK_RADIUS = 10; // Canvas units from a trajectory within which a click selects it
 
-            const boundaryX = CANVAS_WIDTH / 2 + 50;
-            const boundaryY = CANVAS_HEIGHT / 2 + 50;
-            const particleX = p.position.x / SCALE;
-            const particleY = p.position.y / SCALE;
+// Distance from p to the segment ab, all in the same units.
+const segmentDistance = (p: Vector2D, a: Vector2D, b: Vector2D) => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.min(1, Math.max(0, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared)) : 0;
+    return Math.hypot(p.x - a.x - t * dx, p.y - a.y - t * dy);
+};
 
-            if (particleX > boundaryX || particleX < -boundaryX || particleY > boundaryY || particleY < -boundaryY) {
-                p.finished = true;
-                finishedCount++;
-                return;
-            }
+const toScreen = (point: Vector2D, view: CanvasView): Vector2D => ({
+    x: (point.x - view.centre.x) / view.scale + CANVAS_WIDTH / 2,
+    y: (point.y - view.centre.y) / view.scale + CANVAS_HEIGHT / 2,
+});
 
-            const rVector = { x: p.position.x, y: p.position.y };
-            const rMagnitude = Math.sqrt(rVector.x ** 2 + rVector.y ** 2);
+const toWorld = (point: Vector2D, view: CanvasView): Vector2D => ({
+    x: (point.x - CANVAS_WIDTH / 2) * view.scale + view.centre.x,
+    y: (point.y - CANVAS_HEIGHT / 2) * view.scale + view.centre.y,
+});
 
-            if (rMagnitude < 1e-15) { 
-                p.finished = true;
-                finishedCount++;
-                return;
-            }
+// Zooms by `factor` while keeping the world point under `anchor` (canvas units) in place.
+const zoomView = (view: CanvasView, factor: number, anchor: Vector2D): CanvasView => {
+    const scale = Math.min(MAX_VIEW_SCALE, Math.max(MIN_VIEW_SCALE, view.scale / factor));
+    const world = toWorld(anchor, view);
+    return {
+        scale,
+        centre: {
+            x: world.x - (anchor.x - CANVAS_WIDTH / 2) * scale,
+            y: world.y - (anchor.y - CANVAS_HEIGHT / 2) * scale,
+        },
+    };
+};
 
-            const forceMagnitude = (K_COULOMB * (2 * ELEMENTARY_CHARGE) * (settings.targetZ * ELEMENTARY_CHARGE)) / (rMagnitude ** 2);
-            const force = {
-                x: forceMagnitude * (rVector.x / rMagnitude),
-                y: forceMagnitude * (rVector.y / rMagnitude),
-            };
+// The largest 1, 2 or 5 × 10ⁿ not above `value`.
+const roundScaleLength = (value: number) => {
+    const power = 10 ** Math.floor(Math.log10(value));
+    const mantissa = value / power;
+    return (mantissa >= 5 ? 5 : mantissa >= 2 ? 2 : 1) * power;
+};
 
-            const acceleration = {
-                x: force.x / ALPHA_PARTICLE_MASS,
-                y: force.y / ALPHA_PARTICLE_MASS,
-            };
+const pointOnDetectorCircle = (angleDeg: number, radius: number, centre: Vector2D) => ({
+    x: centre.x + radius * Math.cos((angleDeg * Math.PI) / 180),
+    y: centre.y - radius * Math.sin((angleDeg * Math.PI) / 180),
+});
 
-            const newVelocity = {
-                x: p.velocity.x + acceleration.x * TIME_STEP,
-                y: p.velocity.y + acceleration.y * TIME_STEP,
-            };
+const detectorArcPath = (detector: Detector, radius: number, centre: Vector2D) => {
+    const start = pointOnDetectorCircle(detector.angle - detector.width / 2, radius, centre);
+    const end = pointOnDetectorCircle(detector.angle + detector.width / 2, radius, centre);
+    const largeArc = detector.width > 180 ? 1 : 0;
+    return `M ${start.x} ${start.y} A ${radius} ${radius} 0 ${largeArc} 0 ${end.x} ${end.y}`;
+};
 
-            const newPosition = {
-                x: p.position.x + newVelocity.x * TIME_STEP,
-                y: p.position.y + newVelocity.y * TIME_STEP,
-            };
+// Particles drawn in one batch share a colour, so large beams take a few hundred strokes per
+// update instead of one per particle. Neighbouring particles already have nearly the same hue.
+const MAX_STROKE_COLORS = 360;
+const DENSE_BEAM_PARTICLES = 2000; // Above this many, particles are drawn as smaller dots
+const TRAJECTORY_OPACITY = 0.7;
+const DIMMED_TRAILS_OPACITY = 0.35; // Of the whole trail layer while one particle is selected
+const GHOST_TRAJECTORY_OPACITY = 0.3;
 
-            p.position = newPosition;
-            p.velocity = newVelocity;
-            
-            p.stepCount = (p.stepCount || 0) + 1;
-            if (p.stepCount % 5 === 0) {
-                const newPathPoint = {
-                    x: newPosition.x / SCALE + CANVAS_WIDTH / 2,
-                    y: newPosition.y / SCALE + CANVAS_HEIGHT / 2,
-                };
-                if (!newPathData[p.id]) {
-                    newPathData[p.id] = [];
-                }
-                newPathData[p.id].push(newPathPoint);
-            }
-        });
+interface StrokeColors {
+    colors: string[];
+    indexOf: Map<number, number>; // Particle id to its entry in colors
+}
 
-        if (particles.length > 0 && finishedCount === particles.length) {
-            isRunning = false;
-            if (physicsTimer) clearInterval(physicsTimer);
-            if (updateTimer) clearInterval(updateTimer);
-            physicsTimer = null;
-            updateTimer = null;
-            
-            sendUpdate();
+const strokeColorsFor = (particles: Pick<ParticleSnapshot, 'id' | 'color'>[]): StrokeColors => {
+    const count = Math.min(particles.length, MAX_STROKE_COLORS);
+    const colors: string[] = [];
+    const indexOf = new Map<number, number>();
+    particles.forEach((p, i) => {
+        const index = Math.floor((i * count) / particles.length);
+        indexOf.set(p.id, index);
+        if (colors[index] === undefined) colors[index] = p.color;
+    });
+    return { colors, indexOf };
+};
 
-            const scatterData = particles.map(p => {
-                const finalVelocity = p.velocity;
-                const scatterAngle = Math.abs(Math.atan2(finalVelocity.y, finalVelocity.x) * (180 / Math.PI));
-                const impactParameterInFm = p.impactParameter / 1e-15;
-                return { x: impactParameterInFm, y: scatterAngle };
-            });
-            
-            self.postMessage({ type: 'finished', payload: { scatterData: scatterData } });
-        }
-    };
+// Strokes the segments a packed path buffer adds, one batch per colour. `lastPoints` holds the
+// screen position each path has reached so far and is advanced as the buffer is read.
+const strokePathBuffer = (
+    context: CanvasRenderingContext2D,
+    buffer: Float32Array,
+    lastPoints: Map<number, Vector2D>,
+    view: CanvasView,
+    colors: string[],
+    colorIndexOf: (id: number) => number | undefined
+) => {
+    const batches: (Path2D | undefined)[] = [];
+    for (let i = 0; i + PATH_POINT_SIZE <= buffer.length; i += PATH_POINT_SIZE) {
+        const id = buffer[i];
+        const point = toScreen({ x: buffer[i + 1], y: buffer[i + 2] }, view);
+        const last = lastPoints.get(id);
+        lastPoints.set(id, point);
+        const colorIndex = colorIndexOf(id);
+        if (!last || colorIndex === undefined) continue;
+        const batch = batches[colorIndex] ?? (batches[colorIndex] = new Path2D());
+        batch.moveTo(last.x, last.y);
+        batch.lineTo(point.x, point.y);
+    }
+    batches.forEach((batch, colorIndex) => {
+        if (!batch) return;
+        context.strokeStyle = colors[colorIndex];
+        context.stroke(batch);
+    });
+};
 
-    const stopSimulation = () => {
-        isRunning = false;
-        if (physicsTimer) {
-            clearInterval(physicsTimer);
-            physicsTimer = null;
-        }
-        if (updateTimer) {
-            clearInterval(updateTimer);
-            updateTimer = null;
-        }
-    };
+// One particle's points from a packed buffer, as polyline points in femtometers.
+const particlePolylinePoints = (buffer: Float32Array, id: number) => {
+    const points: string[] = [];
+    for (let i = 0; i + PATH_POINT_SIZE <= buffer.length; i += PATH_POINT_SIZE) {
+        if (buffer[i] === id) points.push(`${buffer[i + 1] / PATH_UNIT},${buffer[i + 2] / PATH_UNIT}`);
+    }
+    return points.join(' ');
+};
 
-    self.onmessage = (e) => {
-        const { type, payload } = e.data;
+// A bitmap covering the canvas area, sharp on high-density screens; drawing is in canvas units.
+const prepareBitmap = (canvas: HTMLCanvasElement | null) => {
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return null;
+    const pixelRatio = window.devicePixelRatio || 1;
+    if (canvas.width !== CANVAS_WIDTH * pixelRatio) {
+        canvas.width = CANVAS_WIDTH * pixelRatio;
+        canvas.height = CANVAS_HEIGHT * pixelRatio;
+    }
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    return context;
+};
 
-        switch (type) {
-            case 'start':
-                if (!isRunning) {
-                    isRunning = true;
-                    if (!physicsTimer) {
-                        physicsTimer = setInterval(runSimulationStep, 0);
-                    }
-                    if (!updateTimer) {
-                        updateTimer = setInterval(sendUpdate, 1000 / 60);
-                    }
-                }
-                break;
-
-            case 'pause':
-                stopSimulation();
-                break;
-
-            case 'reset':
-                stopSimulation();
-                settings = payload.settings;
-                
-                let finalParticles = [];
-                const initialPaths = {};
-
-                if (settings) {
-                    const particleMap = new Map();
-                    const initialVelocityX = Math.sqrt((2 * settings.energy * JOULES_PER_MEV) / ALPHA_PARTICLE_MASS);
-
-                    const addParticle = (impactB_pixels) => {
-                        const key = impactB_pixels.toFixed(6);
-                        if (particleMap.has(key)) return;
-
-                        const particleData = {
-                            position: { x: -CANVAS_WIDTH / 2 * SCALE, y: impactB_pixels * SCALE },
-                            velocity: { x: initialVelocityX, y: 0 },
-                            impactParameterInPixels: impactB_pixels,
-                            impactParameter: Math.abs(impactB_pixels * SCALE),
-                            stepCount: 0,
-                            finished: false,
-                        };
-                        particleMap.set(key, particleData);
-                    };
-
-                    if (settings.isFocusModeEnabled) {
-                        for (let i = 1; i <= 150; i++) {
-                            const impactInMeters = i * 1e-15;
-                            const impactInPixels = impactInMeters / SCALE;
-                            addParticle(impactInPixels);
-                            addParticle(-impactInPixels);
-                        }
-                    }
+interface TrailChunk {
+    buffer: Float32Array;
+    isRecoil: boolean;
+}
+
+const FIELD_SAMPLE_SPACING = 3; // Canvas units between potential samples
+const FIELD_DECADES = 3; // The colour fades out this many decades below the turning energy.
+const FORCE_ARROW_LENGTH = 24; // Canvas units, for the Coulomb force at the head-on distance
+const FORCE_ARROW_DECADES = 3; // Each decade weaker takes a third off the arrow.
+const MAX_FORCE_ARROWS = 500; // Larger beams show every few particles' arrows
+const ANGLE_MARK_RADIUS = 36; // Canvas units
+
+// The potential as a small image, one pixel per sample: warm where it repels, blue where it
+// attracts, strongest at the turning energy. White lines mark 1/8, 1/4, 1/2 and all of it.
+const potentialImage = (field: PotentialField, turningEnergy: number) => {
+    const { columns, rows, energies } = field;
+    const canvas = document.createElement('canvas');
+    canvas.width = columns;
+    canvas.height = rows;
+    const context = canvas.getContext('2d');
+    if (!context) return canvas;
+
+    const levels = new Int8Array(energies.length);
+    energies.forEach((energy, i) => {
+        const ratio = Math.abs(energy) / turningEnergy;
+        if (ratio >= 1) levels[i] = 4;
+        else if (ratio >= 1 / 8) levels[i] = 4 + Math.floor(Math.log2(ratio));
+    });
+    const image = context.createImageData(columns, rows);
+    const pixels = image.data;
+    energies.forEach((energy, i) => {
+        const column = i % columns;
+        const level = levels[i];
+        // A line runs along the inner edge of each level, next to a sample below it.
+        const isContour = level > 0 && (
+            (column > 0 && levels[i - 1] < level) ||
+            (column + 1 < columns && levels[i + 1] < level) ||
+            (i >= columns && levels[i - columns] < level) ||
+            (i + columns < energies.length && levels[i + columns] < level)
+        );
+        const strength = Math.min(1, Math.max(0, 1 + Math.log10(Math.abs(energy) / turningEnergy) / FIELD_DECADES));
+        const [r, g, b, a] = isContour
+            ? [255, 255, 255, level === 4 ? 230 : 120]
+            : energy > 0 ? [251, 146, 60, 160 * strength] : [96, 165, 250, 160 * strength];
+        pixels.set([r, g, b, a], 4 * i);
+    });
+    context.putImageData(image, 0, 0);
+    return canvas;
+};
+
+// Where the outgoing asymptote crosses the incoming one, which runs along the beam; null when
+// the two are (nearly) parallel.
+const asymptoteVertex = (incoming: Asymptote, outgoing: Asymptote): Vector2D | null => {
+    const { point, direction } = outgoing;
+    if (Math.abs(direction.y) < 1e-6) return null;
+    const t = (incoming.point.y - point.y) / direction.y;
+    return { x: point.x + t * direction.x, y: incoming.point.y };
+};
+
+interface GhostPaths {
+    buffers: Float32Array[]; // Packed as in simulation/pathBuffer.ts
+    color: string;
+}
+
+const NO_GHOST_PATHS: GhostPaths[] = [];
+
+const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ particles, positions, recoilPositions, targetZ, newPaths, newRecoilPaths, simulationId, nuclei, electrons, isThomsonAtom, detectors, detectorCounts, onDetectorMove, fitRadius, selectedParticleId = null, onSelectParticle, ghostPaths = NO_GHOST_PATHS, overlays, figureCaption, figureFileName }) => {
+    const { t, format } = useI18n();
+    const [view, setView] = useState<CanvasView>(DEFAULT_VIEW);
+    const nucleusRadiusInMeters = NUCLEUS_RADIUS_BASE * Math.cbrt(targetZ);
+    const nucleusRadiusOnCanvas = Math.max(5, nucleusRadiusInMeters / view.scale);
+    const origin = toScreen({ x: 0, y: 0 }, view);
+    const detectorRadius = (DETECTOR_RADIUS_PIXELS * SCALE) / view.scale;
+    const gridPatternId = `grid-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`;
+
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [draggingDetectorId, setDraggingDetectorId] = useState<number | null>(null);
+    const panStartRef = useRef<{ pointer: Vector2D; centre: Vector2D } | null>(null);
+    const [isPanning, setIsPanning] = useState(false);
+    const fieldCanvasRef = useRef<HTMLCanvasElement>(null);
+    const trailsCanvasRef = useRef<HTMLCanvasElement>(null);
+    const particlesCanvasRef = useRef<HTMLCanvasElement>(null);
+    const selectedPathRef = useRef<SVGPolylineElement>(null);
+    // Everything drawn so far, in arrival order, so the bitmap can be redrawn at a new zoom.
+    const trailChunksRef = useRef<TrailChunk[]>([]);
+    const lastPointsRef = useRef(new Map<number, Vector2D>());
+    const lastRecoilPointsRef = useRef(new Map<number, Vector2D>());
+    const lastSimulationIdRef = useRef<number | null>(null);
+    const viewRef = useRef(view);
+    viewRef.current = view;
+    const selectedIdRef = useRef(selectedParticleId);
+    selectedIdRef.current = selectedParticleId;
+
+    const strokeColors = useMemo(() => strokeColorsFor(particles), [particles]);
+    const strokeColorsRef = useRef(strokeColors);
+    strokeColorsRef.current = strokeColors;
+
+    const drawTrailChunk = useCallback((context: CanvasRenderingContext2D, chunk: TrailChunk) => {
+        const { colors, indexOf } = strokeColorsRef.current;
+        context.lineWidth = 1.5;
+        context.lineCap = 'round';
+        if (chunk.isRecoil) {
+            context.globalAlpha = 0.6;
+            context.setLineDash([3, 3]);
+            strokePathBuffer(context, chunk.buffer, lastRecoilPointsRef.current, viewRef.current, ['gold'], () => 0);
+        } else {
+            context.globalAlpha = TRAJECTORY_OPACITY;
+            context.setLineDash([]);
+            strokePathBuffer(context, chunk.buffer, lastPointsRef.current, viewRef.current, colors, id => indexOf.get(id));
+        }
+    }, []);
+
+    const redrawTrails = useCallback(() => {
+        const context = prepareBitmap(trailsCanvasRef.current);
+        if (!context) return;
+        context.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        lastPointsRef.current.clear();
+        lastRecoilPointsRef.current.clear();
+        context.lineWidth = 1;
+        context.lineCap = 'round';
+        context.setLineDash([]);
+        context.globalAlpha = GHOST_TRAJECTORY_OPACITY;
+        ghostPaths.forEach(({ buffers, color }) => {
+            const lastPoints = new Map<number, Vector2D>();
+            buffers.forEach(buffer => strokePathBuffer(context, buffer, lastPoints, viewRef.current, [color], () => 0));
+        });
+        trailChunksRef.current.forEach(chunk => drawTrailChunk(context, chunk));
+    }, [drawTrailChunk, ghostPaths]);
+
+    const appendTrailChunk = useCallback((chunk: TrailChunk) => {
+        if (chunk.buffer.length === 0) return;
+        trailChunksRef.current.push(chunk);
+        const context = prepareBitmap(trailsCanvasRef.current);
+        if (context) drawTrailChunk(context, chunk);
+
+        const selectedPath = selectedPathRef.current;
+        const selectedId = selectedIdRef.current;
+        if (!chunk.isRecoil && selectedPath && selectedId !== null) {
+            const points = particlePolylinePoints(chunk.buffer, selectedId);
+            const existing = selectedPath.getAttribute('points') || '';
+            if (points) selectedPath.setAttribute('points', existing ? `${existing} ${points}` : points);
+        }
+    }, [drawTrailChunk]);
+
+    // Declared first so that a new run is cleared before its first paths are appended.
+    useLayoutEffect(() => {
+        if (simulationId === lastSimulationIdRef.current) return;
+        lastSimulationIdRef.current = simulationId;
+        trailChunksRef.current = [];
+        selectedPathRef.current?.setAttribute('points', '');
+        redrawTrails();
+    }, [simulationId, redrawTrails]);
+
+    useLayoutEffect(() => {
+        appendTrailChunk({ buffer: newPaths, isRecoil: false });
+    }, [newPaths, appendTrailChunk]);
+
+    useLayoutEffect(() => {
+        appendTrailChunk({ buffer: newRecoilPaths, isRecoil: true });
+    }, [newRecoilPaths, appendTrailChunk]);
+
+    useLayoutEffect(() => {
+        redrawTrails();
+    }, [view, strokeColors, redrawTrails]);
+
+    useLayoutEffect(() => {
+        selectedPathRef.current?.setAttribute('points', selectedParticleId === null
+            ? ''
+            : trailChunksRef.current
+                .filter(chunk => !chunk.isRecoil)
+                .map(chunk => particlePolylinePoints(chunk.buffer, selectedParticleId))
+                .filter(Boolean)
+                .join(' '));
+    }, [selectedParticleId, simulationId]);
+
+    // A new sample is asked for whenever the view moves; until it arrives the last one is drawn where it belongs.
+    const onRequestField = overlays?.onRequestField;
+    useEffect(() => {
+        if (!onRequestField) return;
+        const step = FIELD_SAMPLE_SPACING * view.scale;
+        const corner = toWorld({ x: 0, y: 0 }, view);
+        onRequestField({
+            x0: corner.x + step / 2,
+            y0: corner.y + step / 2,
+            step,
+            columns: Math.ceil(CANVAS_WIDTH / FIELD_SAMPLE_SPACING),
+            rows: Math.ceil(CANVAS_HEIGHT / FIELD_SAMPLE_SPACING),
+        });
+    }, [view, simulationId, onRequestField]);
+
+    const potentialField = overlays?.potentialField ?? null;
+    const turningEnergy = overlays?.turningEnergy ?? 0;
+    const fieldImage = useMemo(
+        () => (potentialField && turningEnergy > 0 ? potentialImage(potentialField, turningEnergy) : null),
+        [potentialField, turningEnergy],
+    );
+
+    useLayoutEffect(() => {
+        const context = prepareBitmap(fieldCanvasRef.current);
+        if (!context) return;
+        context.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        if (!fieldImage || !potentialField || !onRequestField) return;
+        const { x0, y0, step, columns, rows } = potentialField;
+        const corner = toScreen({ x: x0 - step / 2, y: y0 - step / 2 }, view);
+        context.imageSmoothingEnabled = true;
+        context.drawImage(fieldImage, corner.x, corner.y, (columns * step) / view.scale, (rows * step) / view.scale);
+    }, [fieldImage, potentialField, onRequestField, view]);
+
+    const forces = overlays?.forces ?? null;
+    const headOnDistance = overlays?.headOnDistance ?? 0;
+
+    useLayoutEffect(() => {
+        const context = prepareBitmap(particlesCanvasRef.current);
+        if (!context) return;
+        context.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        const radius = particles.length > DENSE_BEAM_PARTICLES ? 1.5 : 3;
+        const addDot = (batch: Path2D, x: number, y: number, r: number) => {
+            const point = toScreen({ x, y }, view);
+            if (point.x < -r || point.x > CANVAS_WIDTH + r || point.y < -r || point.y > CANVAS_HEIGHT + r) return;
+            batch.moveTo(point.x + r, point.y);
+            batch.arc(point.x, point.y, r, 0, 2 * Math.PI);
+        };
+
+        const batches: Path2D[] = strokeColors.colors.map(() => new Path2D());
+        particles.forEach((p, i) => {
+            if (2 * i + 1 >= positions.length) return;
+            addDot(batches[strokeColors.indexOf.get(p.id)!], positions[2 * i], positions[2 * i + 1], radius);
+        });
+        context.globalAlpha = 1;
+        batches.forEach((batch, colorIndex) => {
+            context.fillStyle = strokeColors.colors[colorIndex];
+            context.fill(batch);
+        });
+
+        if (recoilPositions) {
+            const recoilBatch = new Path2D();
+            for (let i = 0; i + 1 < recoilPositions.length; i += 2) addDot(recoilBatch, recoilPositions[i], recoilPositions[i + 1], 2);
+            context.globalAlpha = 0.8;
+            context.fillStyle = 'gold';
+            context.fill(recoilBatch);
+        }
+
+        // Arrow length grows with the logarithm of the force, so distant particles still show theirs.
+        if (forces && forces.length === positions.length && headOnDistance > 0) {
+            const referenceForce = (turningEnergy * JOULES_PER_MEV) / headOnDistance;
+            const every = Math.ceil(particles.length / MAX_FORCE_ARROWS);
+            const arrows = new Path2D();
+            for (let i = 0; i < particles.length; i += every) {
+                const fx = forces[2 * i];
+                const fy = forces[2 * i + 1];
+                const magnitude = Math.hypot(fx, fy);
+                const length = FORCE_ARROW_LENGTH * Math.min(1.5, 1 + Math.log10(magnitude / referenceForce) / FORCE_ARROW_DECADES);
+                if (!(length > 0)) continue;
+                const start = toScreen({ x: positions[2 * i], y: positions[2 * i + 1] }, view);
+                const ux = fx / magnitude;
+                const uy = fy / magnitude;
+                const tip = { x: start.x + ux * length, y: start.y + uy * length };
+                arrows.moveTo(start.x, start.y);
+                arrows.lineTo(tip.x, tip.y);
+                arrows.moveTo(tip.x - 5 * ux + 3 * uy, tip.y - 5 * uy - 3 * ux);
+                arrows.lineTo(tip.x, tip.y);
+                arrows.lineTo(tip.x - 5 * ux - 3 * uy, tip.y - 5 * uy + 3 * ux);
+            }
+            context.globalAlpha = 0.9;
+            context.strokeStyle = '#f9fafb';
+            context.lineWidth = 1.2;
+            context.stroke(arrows);
+        }
+    }, [particles, positions, recoilPositions, view, strokeColors, forces, headOnDistance, turningEnergy]);
+
+    const toCanvasPoint = useCallback((clientX: number, clientY: number) => {
+        const matrix = svgRef.current?.getScreenCTM();
+        if (!matrix) return null;
+        const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+        return { x: point.x, y: point.y };
+    }, []);
+
+    // React attaches wheel listeners as passive, and the page must not scroll while zooming.
+    useEffect(() => {
+        const svg = svgRef.current;
+        if (!svg) return;
+        const handleWheel = (e: WheelEvent) => {
+            const anchor = toCanvasPoint(e.clientX, e.clientY);
+            if (!anchor) return;
+            e.preventDefault();
+            setView(prev => zoomView(prev, Math.exp(-e.deltaY * WHEEL_ZOOM_RATE), anchor));
+        };
+        svg.addEventListener('wheel', handleWheel, { passive: false });
+        return () => svg.removeEventListener('wheel', handleWheel);
+    }, [toCanvasPoint]);
+
+    // The trajectory or particle nearest a click, if any lies within PICK_RADIUS of it.
+    const pickParticle = (point: Vector2D): number | null => {
+        const world = toWorld(point, view);
+        let bestId: number | null = null;
+        let bestDistance = PICK_RADIUS * view.scale;
+        const consider = (id: number, distance: number) => {
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                bestId = id;
+            }
+        };
+        particles.forEach((p, i) => consider(p.id, Math.hypot(positions[2 * i] - world.x, positions[2 * i + 1] - world.y)));
+        const lastPoints = new Map<number, Vector2D>();
+        trailChunksRef.current.forEach(({ buffer, isRecoil }) => {
+            if (isRecoil) return;
+            for (let i = 0; i + PATH_POINT_SIZE <= buffer.length; i += PATH_POINT_SIZE) {
+                const id = buffer[i];
+                const next = { x: buffer[i + 1], y: buffer[i + 2] };
+                const last = lastPoints.get(id);
+                if (last) consider(id, segmentDistance(world, last, next));
+                lastPoints.set(id, next);
+            }
+        });
+        return bestId;
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        const pointer = toCanvasPoint(e.clientX, e.clientY);
+        if (!pointer) return;
+        panStartRef.current = { pointer, centre: view.centre };
+        setIsPanning(true);
+        e.currentTarget.setPointerCapture(e.pointerId);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        const point = toCanvasPoint(e.clientX, e.clientY);
+        if (!point) return;
+
+        if (draggingDetectorId !== null) {
+            const angle = Math.atan2(origin.y - point.y, point.x - origin.x) * (180 / Math.PI);
+            onDetectorMove(draggingDetectorId, Math.round(angle));
+            return;
+        }
+        const panStart = panStartRef.current;
+        if (panStart) {
+            setView(prev => ({
+                ...prev,
+                centre: {
+                    x: panStart.centre.x - (point.x - panStart.pointer.x) * prev.scale,
+                    y: panStart.centre.y - (point.y - panStart.pointer.y) * prev.scale,
+                },
+            }));
+        }
+    };
+
+    const endDrag = () => {
+        setDraggingDetectorId(null);
+        panStartRef.current = null;
+        setIsPanning(false);
+    };
+
+    // A press that barely moved is a click, which picks the trajectory under it.
+    const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+        const panStart = panStartRef.current;
+        const point = toCanvasPoint(e.clientX, e.clientY);
+        endDrag();
+        if (!panStart || !point || !onSelectParticle) return;
+        if (Math.hypot(point.x - panStart.pointer.x, point.y - panStart.pointer.y) > CLICK_TOLERANCE) return;
+        onSelectParticle(pickParticle(point));
+    };
+
+    const zoomAboutCentre = (factor: number) => {
+        setView(prev => zoomView(prev, factor, { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2 }));
+    };
+    const fitToTarget = () => {
+        if (!(fitRadius > 0)) return;
+        const scale = Math.min(MAX_VIEW_SCALE, Math.max(MIN_VIEW_SCALE, fitRadius / (Math.min(CANVAS_WIDTH, CANVAS_HEIGHT) / 2)));
+        setView({ centre: { x: 0, y: 0 }, scale });
+    };
+
+    const scaleBarLength = roundScaleLength((SCALE_BAR_TARGET * view.scale) / PATH_UNIT); // fm
+    const scaleBarWidth = (scaleBarLength * PATH_UNIT) / view.scale;
+    const pathTransform = `translate(${origin.x} ${origin.y}) scale(${PATH_UNIT / view.scale})`;
+    const viewButtonClass = 'px-2 py-1 text-sm font-semibold text-gray-100 bg-gray-800/80 border border-gray-600 rounded hover:bg-gray-700';
+    const closestApproachRadius = headOnDistance / view.scale;
+    const formatFm = (meters: number) => format.number(Math.round((meters / 1e-15) * 10) / 10);
+
+    // Everything but the potential and force overlays, which are there to explore rather than to print.
+    const buildFigure = (options: FigureOptions) => trajectoryFigure({
+        width: CANVAS_WIDTH,
+        height: CANVAS_HEIGHT,
+        centre: view.centre,
+        scale: view.scale,
+        trails: trailChunksRef.current,
+        colorOf: id => {
+            const index = strokeColors.indexOf.get(id);
+            return index === undefined ? undefined : strokeColors.colors[index];
+        },
+        ghostPaths,
+        particles,
+        positions,
+        recoilPositions,
+        particleRadius: particles.length > DENSE_BEAM_PARTICLES ? 1.5 : 3,
+        nuclei,
+        nucleusRadius: nucleusRadiusOnCanvas,
+        electrons,
+        isThomsonAtom,
+        detectors,
+        detectorCounts,
+        detectorRadius,
+        closestApproach: overlays?.isClosestApproachShown && headOnDistance > 0
+            ? { radius: headOnDistance, label: `d = ${formatFm(headOnDistance)} fm` }
+            : null,
+        scaleBar: { length: scaleBarLength * PATH_UNIT, label: `${format.number(scaleBarLength)} fm` },
+    }, options);
+
+    // The incoming line runs on past the vertex as far as the outgoing one reaches, so θ sits
+    // between two drawn lines; b is drawn from the target's centre to the incoming line.
+    let asymptoteOverlay: React.ReactNode = null;
+    const asymptotes = overlays?.asymptotes ?? null;
+    if (asymptotes) {
+        const { incoming, outgoing } = asymptotes;
+        const start = toScreen(incoming.point, view);
+        const exit = toScreen(outgoing.point, view);
+        const vertexInMeters = asymptoteVertex(incoming, outgoing);
+        const angle = Math.atan2(outgoing.direction.y, outgoing.direction.x);
+        const lineProps = { fill: 'none', stroke: '#e5e7eb', strokeWidth: 1.5, strokeDasharray: '6 4' };
+        let lines = <path d={`M ${start.x} ${start.y} H ${exit.x}`} {...lineProps} />;
+        let angleMark: React.ReactNode = null;
+        if (vertexInMeters) {
+            const vertex = toScreen(vertexInMeters, view);
+            const reach = Math.hypot(exit.x - vertex.x, exit.y - vertex.y);
+            const arcEnd = { x: vertex.x + ANGLE_MARK_RADIUS * Math.cos(angle), y: vertex.y + ANGLE_MARK_RADIUS * Math.sin(angle) };
+            const labelRadius = ANGLE_MARK_RADIUS + 18;
+            lines = <path d={`M ${start.x} ${start.y} H ${vertex.x + reach} M ${vertex.x} ${vertex.y} L ${exit.x} ${exit.y}`} {...lineProps} />;
+            angleMark = (
+                <>
+                    <path
+                        d={`M ${vertex.x + ANGLE_MARK_RADIUS} ${vertex.y} A ${ANGLE_MARK_RADIUS} ${ANGLE_MARK_RADIUS} 0 0 ${angle > 0 ? 1 : 0} ${arcEnd.x} ${arcEnd.y}`}
+                        fill="none"
+                        stroke="#fbbf24"
+                        strokeWidth="2"
+                    />
+                    <text
+                        x={vertex.x + labelRadius * Math.cos(angle / 2)}
+                        y={vertex.y + labelRadius * Math.sin(angle / 2)}
+                        fill="#fbbf24"
+                        fontSize="14"
+                        fontWeight="bold"
+                        textAnchor="middle"
+                        dominantBaseline="middle"
+                    >
+                        θ = {format.fixed(Math.abs(angle) * (180 / Math.PI), 1)}°
+                    </text>
+                </>
+            );
+        }
+        asymptoteOverlay = (
+            <g pointerEvents="none">
+                {lines}
+                {angleMark}
+                <path d={`M ${origin.x} ${origin.y} V ${start.y}`} stroke="#fbbf24" strokeWidth="1.5" strokeDasharray="2 3" />
+                <text x={origin.x + 6} y={(origin.y + start.y) / 2} fill="#fbbf24" fontSize="13" dominantBaseline="middle">
+                    b = {formatFm(Math.abs(incoming.point.y))} fm
+                </text>
+            </g>
+        );
+    }
+
+    return (
+        <div className="relative bg-black rounded-lg shadow-lg overflow-hidden border-2 border-gray-700">
+            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}>
+                <defs>
+                    {/* Grid squares are as long as the scale bar and stay put on the target. */}
+                    <pattern id={gridPatternId} width={scaleBarWidth} height={scaleBarWidth} patternUnits="userSpaceOnUse" patternTransform={`translate(${origin.x} ${origin.y})`}>
+                        <path d={`M ${scaleBarWidth} 0 L 0 0 0 ${scaleBarWidth}`} fill="none" stroke="rgba(55, 65, 81, 0.5)" strokeWidth="1"/>
+                    </pattern>
+                </defs>
+                <rect width="100%" height="100%" fill={`url(#${gridPatternId})`} />
+            </svg>
+            {/* Trajectories and particles are bitmaps, which stay fast for tens of thousands of particles. */}
+            <canvas ref={fieldCanvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+            <canvas
+                ref={trailsCanvasRef}
+                className="absolute inset-0 w-full h-full pointer-events-none"
+                style={{ opacity: selectedParticleId === null ? 1 : DIMMED_TRAILS_OPACITY }}
+            />
+            <canvas ref={particlesCanvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+            <svg
+                ref={svgRef}
+                className="relative block"
+                width="100%"
+                viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={endDrag}
+                style={{ touchAction: 'none', cursor: isPanning ? 'grabbing' : 'grab' }}
+            >
+                <g transform={pathTransform}>
+                    <polyline
+                        ref={selectedPathRef}
+                        fill="none"
+                        stroke={particles.find(p => p.id === selectedParticleId)?.color || 'none'}
+                        strokeWidth="3"
+                        vectorEffect="non-scaling-stroke"
+                    />
+                </g>
+
+                {isThomsonAtom ? (
+                    <g>
+                        <rect width="100%" height="100%" fill="rgba(239, 68, 68, 0.08)" />
+                        {electrons.map((e, i) => {
+                            const canvasPos = toScreen(e, view);
+                            return <circle key={`electron-${i}`} cx={canvasPos.x} cy={canvasPos.y} r="3" fill="#60a5fa" />;
+                        })}
+                        <text x={12} y={CANVAS_HEIGHT - 12} fill="rgba(252, 165, 165, 0.8)" fontSize="13">
+                            {t.canvas.thomsonInterior(format.integer(THOMSON_ATOM_RADIUS / 1e-15))}
+                        </text>
+                    </g>
+                ) : nuclei.length > 1 ? (
+                    <g>
+                        {nuclei.map((n, i) => {
+                            const canvasPos = toScreen(n, view);
+                            return <circle key={`nucleus-${i}`} cx={canvasPos.x} cy={canvasPos.y} r="2.5" fill="gold" />;
+                        })}
+                    </g>
+                ) : (
+                    <>
+                        <circle cx={origin.x} cy={origin.y} r={nucleusRadiusOnCanvas} fill="gold" stroke="yellow" strokeWidth="2" />
+                         <circle cx={origin.x} cy={origin.y} r={nucleusRadiusOnCanvas + 5} fill="none" stroke="rgba(255, 215, 0, 0.3)" strokeWidth="1" />
+                    </>
+                )}
+
+                {overlays?.isClosestApproachShown && !isThomsonAtom && closestApproachRadius > 0 && (
+                    <g pointerEvents="none">
+                        {(nuclei.length > 1 ? nuclei : [{ x: 0, y: 0 }]).map((n, i) => {
+                            const centre = toScreen(n, view);
+                            return <circle key={`closest-approach-${i}`} cx={centre.x} cy={centre.y} r={closestApproachRadius} fill="none" stroke="#22d3ee" strokeWidth="1.5" strokeDasharray="5 4" />;
+                        })}
+                        <text x={origin.x + closestApproachRadius * Math.SQRT1_2 + 4} y={origin.y - closestApproachRadius * Math.SQRT1_2 - 4} fill="#22d3ee" fontSize="13">
+                            d = {formatFm(headOnDistance)} fm
+                        </text>
+                    </g>
+                )}
+                {asymptoteOverlay}
+
+                {detectors.length > 0 && (
+                    <circle cx={origin.x} cy={origin.y} r={detectorRadius} fill="none" stroke="rgba(156, 163, 175, 0.25)" strokeWidth="1" strokeDasharray="4 6" />
+                )}
+                {detectors.map(detector => {
+                    const labelPosition = pointOnDetectorCircle(detector.angle, detectorRadius + 22, origin);
+                    return (
+                        <g key={`detector-${detector.id}`}>
+                            <path d={detectorArcPath(detector, detectorRadius, origin)} fill="none" stroke={detector.color} strokeWidth="8" strokeOpacity="0.8" strokeLinecap="round" />
+                            <path
+                                d={detectorArcPath(detector, detectorRadius, origin)}
+                                fill="none"
+                                stroke="transparent"
+                                strokeWidth="24"
+                                style={{ cursor: draggingDetectorId === detector.id ? 'grabbing' : 'grab' }}
+                                onPointerDown={(e) => {
+                                    e.preventDefault();
+                                    e.stopPropagation();
+                                    setDraggingDetectorId(detector.id);
+                                }}
+                            />
+                            <text x={labelPosition.x} y={labelPosition.y} fill={detector.color} fontSize="14" fontWeight="bold" textAnchor="middle" dominantBaseline="middle" pointerEvents="none">
+                                {detectorCounts[detector.id] || 0}
+                            </text>
+                        </g>
+                    );
+                })}
+
+                <g transform={`translate(${CANVAS_WIDTH - 16 - scaleBarWidth} ${CANVAS_HEIGHT - 16})`} pointerEvents="none">
+                    <path d={`M 0 -5 V 0 H ${scaleBarWidth} V -5`} fill="none" stroke="rgba(229, 231, 235, 0.9)" strokeWidth="2" />
+                    <text x={scaleBarWidth / 2} y={-9} fill="rgba(229, 231, 235, 0.9)" fontSize="13" textAnchor="middle">
+                        {format.number(scaleBarLength)} fm
+                    </text>
+                </g>
+            </svg>
+            <div className="absolute top-2 right-2 flex gap-1">
+                <button type="button" className={viewButtonClass} onClick={() => zoomAboutCentre(ZOOM_BUTTON_FACTOR)} title={t.canvas.zoomIn} aria-label={t.canvas.zoomIn}>+</button>
+                <button type="button" className={viewButtonClass} onClick={() => zoomAboutCentre(1 / ZOOM_BUTTON_FACTOR)} title={t.canvas.zoomOut} aria-label={t.canvas.zoomOut}>−</button>
+                <button type="button" className={viewButtonClass} onClick={fitToTarget} title={isThomsonAtom ? t.canvas.fitAtom : t.canvas.fitClosestApproach}>{t.canvas.fit}</button>
+                <button type="button" className={viewButtonClass} onClick={() => setView(DEFAULT_VIEW)} title={t.canvas.resetViewHint}>{t.canvas.resetView}</button>
+                <FigureExportMenu fileName={figureFileName} caption={figureCaption} hasScaleBar buildFigure={buildFigure} />
+                <Tooltip title={t.explanations.canvasView.title} content={t.explanations.canvasView.content} position="bottom" />
+            </div>
+        </div>
+    );
+};
+
+// --- From components/BeamView3D.tsx ---
+interface BeamView3DProps {
+    particles: Pick<ParticleSnapshot, 'id' | 'color'>[];
+    newPaths3D: Float32Array; // id, x, y, z per point, as in simulation/pathBuffer.ts
+    simulationId: number;
+    beamRadius: number; // m, of the disk the beam starts from
+    detectors: Detector[];
+    detectorCounts: Record<number, number>;
+}
+
+interface View3D {
+    rotation: ViewRotation;
+    scale: number; // meters per canvas unit
+}
+
+const DEFAULT_VIEW_3D: View3D = { rotation: VIEW_3D_PRESETS.oblique, scale: SCALE * 1.25 };
+const LAUNCH_X = -(CANVAS_WIDTH / 2) * SCALE; // Where the engine starts every particle
+const DRAG_DEGREES_PER_UNIT = 0.4; // Turn per canvas unit dragged
+const RIM_SEGMENTS = 64;
+const AXIS_TRIAD_LENGTH = 28; // Canvas units
+
+const project3D = (point: Vector3D, view: View3D): Vector2D => {
+    const projected = projectPoint(point, view.rotation);
+    return { x: projected.x / view.scale + CANVAS_WIDTH / 2, y: projected.y / view.scale + CANVAS_HEIGHT / 2 };
+};
+
+// A closed loop through the points f(ψ) for ψ round a full turn, projected onto the view.
+const loopPath = (pointAt: (psi: number) => Vector3D, view: View3D) => {
+    const points: string[] = [];
+    for (let i = 0; i < RIM_SEGMENTS; i++) {
+        const p = project3D(pointAt((2 * Math.PI * i) / RIM_SEGMENTS), view);
+        points.push(`${p.x} ${p.y}`);
+    }
+    return `M ${points.join(' L ')} Z`;
+};
+
+// The circle where a detector's cone meets the detector sphere: its direction d tipped by half
+// the width towards u, which stays in the plane of the canvas, and v = z.
+const detectorRimPoint = (detector: Detector, radius: number) => {
+    const d = detectorDirection(detector.angle);
+    const half = (detector.width / 2) * (Math.PI / 180);
+    return (psi: number): Vector3D => ({
+        x: radius * (Math.cos(half) * d.x + Math.sin(half) * Math.cos(psi) * -d.y),
+        y: radius * (Math.cos(half) * d.y + Math.sin(half) * Math.cos(psi) * d.x),
+        z: radius * Math.sin(half) * Math.sin(psi),
+    });
+};
+
+// Like strokePathBuffer, for paths with depth.
+const strokePath3DBuffer = (
+    context: CanvasRenderingContext2D,
+    buffer: Float32Array,
+    lastPoints: Map<number, Vector2D>,
+    view: View3D,
+    { colors, indexOf }: StrokeColors
+) => {
+    const batches: (Path2D | undefined)[] = [];
+    for (let i = 0; i + PATH_POINT_SIZE_3D <= buffer.length; i += PATH_POINT_SIZE_3D) {
+        const id = buffer[i];
+        const point = project3D({ x: buffer[i + 1], y: buffer[i + 2], z: buffer[i + 3] }, view);
+        const last = lastPoints.get(id);
+        lastPoints.set(id, point);
+        const colorIndex = indexOf.get(id);
+        if (!last || colorIndex === undefined) continue;
+        const batch = batches[colorIndex] ?? (batches[colorIndex] = new Path2D());
+        batch.moveTo(last.x, last.y);
+        batch.lineTo(point.x, point.y);
+    }
+    batches.forEach((batch, colorIndex) => {
+        if (!batch) return;
+        context.strokeStyle = colors[colorIndex];
+        context.stroke(batch);
+    });
+};
+
+const BeamView3D: React.FC<BeamView3DProps> = ({ particles, newPaths3D, simulationId, beamRadius, detectors, detectorCounts }) => {
+    const { t, format } = useI18n();
+    const [view, setView] = useState<View3D>(DEFAULT_VIEW_3D);
+    const trailsCanvasRef = useRef<HTMLCanvasElement>(null);
+    const chunksRef = useRef<Float32Array[]>([]);
+    const lastPointsRef = useRef(new Map<number, Vector2D>());
+    const lastSimulationIdRef = useRef<number | null>(null);
+    const dragStartRef = useRef<{ clientX: number; clientY: number; rotation: ViewRotation; unitsPerPixel: number } | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const viewRef = useRef(view);
+    viewRef.current = view;
+
+    const strokeColors = useMemo(() => strokeColorsFor(particles), [particles]);
+    const strokeColorsRef = useRef(strokeColors);
+    strokeColorsRef.current = strokeColors;
+
+    const drawChunk = useCallback((context: CanvasRenderingContext2D, buffer: Float32Array) => {
+        context.lineWidth = 1.5;
+        context.lineCap = 'round';
+        context.globalAlpha = TRAJECTORY_OPACITY;
+        strokePath3DBuffer(context, buffer, lastPointsRef.current, viewRef.current, strokeColorsRef.current);
+    }, []);
+
+    const redraw = useCallback(() => {
+        const context = prepareBitmap(trailsCanvasRef.current);
+        if (!context) return;
+        context.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        lastPointsRef.current.clear();
+        chunksRef.current.forEach(buffer => drawChunk(context, buffer));
+    }, [drawChunk]);
+
+    // Declared first so that a new run is cleared before its first paths are appended.
+    useLayoutEffect(() => {
+        if (simulationId === lastSimulationIdRef.current) return;
+        lastSimulationIdRef.current = simulationId;
+        chunksRef.current = [];
+        redraw();
+    }, [simulationId, redraw]);
+
+    useLayoutEffect(() => {
+        if (newPaths3D.length === 0) return;
+        chunksRef.current.push(newPaths3D);
+        const context = prepareBitmap(trailsCanvasRef.current);
+        if (context) drawChunk(context, newPaths3D);
+    }, [newPaths3D, drawChunk]);
+
+    useLayoutEffect(() => {
+        redraw();
+    }, [view, strokeColors, redraw]);
+
+    // Sideways drags turn the view about the canvas's vertical axis, up and down ones tip it over the top.
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        const { width } = e.currentTarget.getBoundingClientRect();
+        dragStartRef.current = { clientX: e.clientX, clientY: e.clientY, rotation: view.rotation, unitsPerPixel: width > 0 ? CANVAS_WIDTH / width : 1 };
+        setIsDragging(true);
+        e.currentTarget.setPointerCapture(e.pointerId);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        const start = dragStartRef.current;
+        if (!start) return;
+        const turn = DRAG_DEGREES_PER_UNIT * start.unitsPerPixel;
+        setView(prev => ({
+            ...prev,
+            rotation: {
+                yaw: start.rotation.yaw - (e.clientX - start.clientX) * turn,
+                pitch: Math.min(90, Math.max(-90, start.rotation.pitch + (e.clientY - start.clientY) * turn)),
+            },
+        }));
+    };
+
+    const endDrag = () => {
+        dragStartRef.current = null;
+        setIsDragging(false);
+    };
+
+    const zoom = (factor: number) => {
+        setView(prev => ({ ...prev, scale: Math.min(MAX_VIEW_SCALE, Math.max(MIN_VIEW_SCALE, prev.scale / factor)) }));
+    };
+
+    const origin = project3D({ x: 0, y: 0, z: 0 }, view);
+    const detectorRadius = DETECTOR_RADIUS_PIXELS * SCALE;
+    const axisEnd = project3D({ x: -LAUNCH_X, y: 0, z: 0 }, view);
+    const axisStart = project3D({ x: LAUNCH_X, y: 0, z: 0 }, view);
+    const launchDisk = loopPath(psi => ({ x: LAUNCH_X, y: beamRadius * Math.cos(psi), z: beamRadius * Math.sin(psi) }), view);
+    const triadOrigin = { x: 40, y: CANVAS_HEIGHT - 40 };
+    const triad = (['x', 'y', 'z'] as const).map(axis => {
+        const unit = projectPoint({ x: axis === 'x' ? 1 : 0, y: axis === 'y' ? 1 : 0, z: axis === 'z' ? 1 : 0 }, view.rotation);
+        return { axis, x: triadOrigin.x + unit.x * AXIS_TRIAD_LENGTH, y: triadOrigin.y + unit.y * AXIS_TRIAD_LENGTH };
+    });
+    const viewButtonClass = 'px-2 py-1 text-sm font-semibold text-gray-100 bg-gray-800/80 border border-gray-600 rounded hover:bg-gray-700';
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-center gap-2">
+                <h2 className="text-xl font-semibold text-cyan-400">{t.view3D.title}</h2>
+                <Tooltip title={t.explanations.view3D.title} content={t.explanations.view3D.content} />
+            </div>
+            <div className="relative bg-black rounded-lg shadow-lg overflow-hidden border-2 border-gray-700">
+                <canvas ref={trailsCanvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+                <svg
+                    className="relative block"
+                    width="100%"
+                    viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={endDrag}
+                    onPointerLeave={endDrag}
+                    style={{ touchAction: 'none', cursor: isDragging ? 'grabbing' : 'grab' }}
+                >
+                    <g pointerEvents="none">
+                        <path d={`M ${axisStart.x} ${axisStart.y} L ${axisEnd.x} ${axisEnd.y}`} stroke="rgba(156, 163, 175, 0.5)" strokeWidth="1" strokeDasharray="6 6" />
+                        <path d={launchDisk} fill="rgba(34, 211, 238, 0.06)" stroke="rgba(34, 211, 238, 0.6)" strokeWidth="1.5" strokeDasharray="5 4" />
+                        {detectors.map(detector => {
+                            const direction = detectorDirection(detector.angle);
+                            const label = project3D({ x: 1.12 * detectorRadius * direction.x, y: 1.12 * detectorRadius * direction.y, z: 0 }, view);
+                            return (
+                                <g key={`detector-${detector.id}`}>
+                                    <path d={loopPath(detectorRimPoint(detector, detectorRadius), view)} fill="none" stroke={detector.color} strokeWidth="3" strokeOpacity="0.8" />
+                                    <text x={label.x} y={label.y} fill={detector.color} fontSize="14" fontWeight="bold" textAnchor="middle" dominantBaseline="middle">
+                                        {format.integer(detectorCounts[detector.id] || 0)}
+                                    </text>
+                                </g>
+                            );
+                        })}
+                        <circle cx={origin.x} cy={origin.y} r="5" fill="gold" stroke="yellow" strokeWidth="2" />
+                        {triad.map(({ axis, x, y }) => (
+                            <g key={axis}>
+                                <path d={`M ${triadOrigin.x} ${triadOrigin.y} L ${x} ${y}`} stroke="rgba(229, 231, 235, 0.8)" strokeWidth="1.5" />
+                                <text x={x + (x - triadOrigin.x) * 0.3} y={y + (y - triadOrigin.y) * 0.3} fill="rgba(229, 231, 235, 0.9)" fontSize="12" textAnchor="middle" dominantBaseline="middle">{axis}</text>
+                            </g>
+                        ))}
+                        <text x={CANVAS_WIDTH - 12} y={CANVAS_HEIGHT - 12} fill="rgba(156, 163, 175, 0.8)" fontSize="13" textAnchor="end">{t.view3D.dragHint}</text>
+                    </g>
+                </svg>
+                <div className="absolute top-2 right-2 flex gap-1">
+                    {(Object.keys(VIEW_3D_PRESETS) as View3DPreset[]).map(preset => (
+                        <button key={preset} type="button" className={viewButtonClass} onClick={() => setView(prev => ({ ...prev, rotation: VIEW_3D_PRESETS[preset] }))}>
+                            {t.view3D.views[preset]}
+                        </button>
+                    ))}
+                    <button type="button" className={viewButtonClass} onClick={() => zoom(ZOOM_BUTTON_FACTOR)} title={t.view3D.zoomIn} aria-label={t.view3D.zoomIn}>+</button>
+                    <button type="button" className={viewButtonClass} onClick={() => zoom(1 / ZOOM_BUTTON_FACTOR)} title={t.view3D.zoomOut} aria-label={t.view3D.zoomOut}>−</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- From components/DetectorPanel.tsx ---
+interface DetectorPanelProps {
+    detectors: Detector[];
+    detectorHits: Record<number, number[]>;
+    simulationTime: number; // s
+    onAdd: () => void;
+    onRemove: (id: number) => void;
+    onChange: (id: number, changes: Partial<Pick<Detector, 'angle' | 'width'>>) => void;
+    isThreeDimensional?: boolean; // Detectors are then cones, and their solid angle is shown
+}
+
+const DETECTOR_COLORS = ['#f472b6', '#a3e635', '#fb923c', '#c084fc', '#38bdf8', '#facc15'];
+const MAX_DETECTORS = DETECTOR_COLORS.length;
+const RATE_HISTORY_BINS = 24;
+
+const RateSparkline: React.FC<{ hits: number[]; simulationTime: number; color: string }> = ({ hits, simulationTime, color }) => {
+    const counts = new Array<number>(RATE_HISTORY_BINS).fill(0);
+    if (simulationTime > 0) {
+        hits.forEach(time => {
+            const index = Math.min(RATE_HISTORY_BINS - 1, Math.floor((time / simulationTime) * RATE_HISTORY_BINS));
+            counts[index]++;
+        });
+    }
+    const maxCount = Math.max(1, ...counts);
+    const barWidth = 120 / RATE_HISTORY_BINS;
+
+    return (
+        <svg width="120" height="28" viewBox="0 0 120 28" className="bg-gray-900 rounded">
+            {counts.map((count, i) => {
+                const height = (count / maxCount) * 26;
+                return <rect key={i} x={i * barWidth + 0.5} y={27 - height} width={barWidth - 1} height={height} fill={color} />;
+            })}
+        </svg>
+    );
+};
+
+const DetectorPanel: React.FC<DetectorPanelProps> = ({ detectors, detectorHits, simulationTime, onAdd, onRemove, onChange, isThreeDimensional = false }) => {
+    const { t, format } = useI18n();
+    const elapsedFs = simulationTime / 1e-15;
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-center gap-2">
+                <h2 className="text-xl font-semibold text-cyan-400">{t.detectors.title}</h2>
+                <Tooltip title={t.explanations.detector.title} content={t.explanations.detector.content} />
+            </div>
+            <div className="space-y-2">
+                {detectors.map(detector => {
+                    const hits = detectorHits[detector.id] || [];
+                    const rate = elapsedFs > 0 ? hits.length / elapsedFs : 0;
+                    return (
+                        <div key={detector.id} className="flex flex-wrap items-center gap-3 bg-gray-900 rounded-md p-2 text-sm">
+                            <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: detector.color }} />
+                            <label className="flex items-center gap-1 text-gray-400">
+                                {t.detectors.angle}
+                                <input
+                                    type="number"
+                                    min={-180}
+                                    max={180}
+                                    value={detector.angle}
+                                    onChange={(e) => onChange(detector.id, { angle: Number(e.target.value) })}
+                                    className="w-16 px-1 py-0.5 font-mono text-gray-100 bg-gray-700 border border-gray-600 rounded"
+                                />°
+                            </label>
+                            <label className="flex items-center gap-1 text-gray-400">
+                                {t.detectors.width}
+                                <input
+                                    type="range"
+                                    min={2}
+                                    max={60}
+                                    step={1}
+                                    value={detector.width}
+                                    onChange={(e) => onChange(detector.id, { width: Number(e.target.value) })}
+                                    className="w-20 accent-cyan-500"
+                                />
+                                <span className="w-8 font-mono text-gray-100">{detector.width}°</span>
+                            </label>
+                            {isThreeDimensional && (
+                                <span className="text-gray-400">
+                                    {t.detectors.solidAngle} <span className="font-mono text-gray-100">{format.fixed(detectorSolidAngle(detector.width) * 1000, 2)}</span> msr
+                                </span>
+                            )}
+                            <span className="text-gray-400">
+                                {t.detectors.count} <span className="font-mono font-bold" style={{ color: detector.color }}>{format.integer(hits.length)}</span>
+                            </span>
+                            <span className="text-gray-400">
+                                {t.detectors.rate} <span className="font-mono text-gray-100">{format.fixed(rate, 1)}</span> /fs
+                            </span>
+                            <RateSparkline hits={hits} simulationTime={simulationTime} color={detector.color} />
+                            <button
+                                type="button"
+                                onClick={() => onRemove(detector.id)}
+                                className="ml-auto px-2 py-0.5 text-gray-400 hover:text-red-400 transition-colors"
+                                title={t.detectors.remove}
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+            <div className="flex items-center justify-between text-sm text-gray-400">
+                <span>{t.detectors.elapsed}: <span className="font-mono text-gray-100">{format.fixed(elapsedFs, 3)}</span> fs</span>
+                <button
+                    type="button"
+                    onClick={onAdd}
+                    disabled={detectors.length >= MAX_DETECTORS}
+                    className="px-3 py-1 font-semibold text-white bg-cyan-600 rounded-md hover:bg-cyan-700 disabled:bg-gray-500 transition-colors"
+                >
+                    {t.detectors.add}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// --- From components/DiagnosticsPanel.tsx ---
+interface DiagnosticsPanelProps {
+    diagnostics: ConservationDiagnostic[];
+    particles: Pick<ParticleSnapshot, 'id' | 'color'>[];
+    isCentralForce: boolean; // Angular momentum is only conserved about a single nucleus.
+}
+
+// Large random beams would otherwise render thousands of rows on every update.
+const MAX_DIAGNOSTIC_ROWS = 200;
+
+const formatDrift = (value: number, format: NumberFormat) => (value >= 0 ? '+' : '') + format.exponential(value, 2);
+
+const driftColorClass = (value: number) => {
+    const magnitude = Math.abs(value);
+    if (magnitude < 1e-4) return 'text-emerald-400';
+    if (magnitude < 1e-2) return 'text-yellow-400';
+    return 'text-red-400';
+};
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics, particles, isCentralForce }) => {
+    const { t, format } = useI18n();
+    const colorMap = useMemo(() => new Map(particles.map(p => [p.id, p.color])), [particles]);
+
+    const sortedDiagnostics = useMemo(
+        () => [...diagnostics].sort((a, b) => Math.abs(b.energyDrift) - Math.abs(a.energyDrift)).slice(0, MAX_DIAGNOSTIC_ROWS),
+        [diagnostics]
+    );
+
+    const maxEnergyDrift = diagnostics.reduce((max, d) => Math.max(max, Math.abs(d.energyDrift)), 0);
+    const maxAngularMomentumDrift = diagnostics.reduce((max, d) => Math.max(max, Math.abs(d.angularMomentumDrift)), 0);
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-center gap-2">
+                <h2 className="text-xl font-semibold text-cyan-400">{t.diagnostics.title}</h2>
+                <Tooltip title={t.explanations.diagnostics.title} content={t.explanations.diagnostics.content} />
+            </div>
+            <div className="grid grid-cols-2 gap-3 text-sm">
+                <div className="bg-gray-900 rounded-md p-2 text-center">
+                    <div className="text-gray-400">{t.diagnostics.maxEnergyDrift}</div>
+                    <div className={`font-mono font-bold ${driftColorClass(maxEnergyDrift)}`}>{format.exponential(maxEnergyDrift, 2)}</div>
+                </div>
+                <div className="bg-gray-900 rounded-md p-2 text-center">
+                    <div className="text-gray-400">{t.diagnostics.maxAngularMomentumDrift}</div>
+                    <div className={`font-mono font-bold ${driftColorClass(maxAngularMomentumDrift)}`}>{format.exponential(maxAngularMomentumDrift, 2)}</div>
+                </div>
+            </div>
+            {!isCentralForce && (
+                <p className="text-center text-xs text-gray-500">{t.diagnostics.notCentral}</p>
+            )}
+            <div className="max-h-64 overflow-y-auto rounded-md border border-gray-700">
+                <table className="w-full text-sm">
+                    <thead className="sticky top-0 bg-gray-700 text-gray-300">
+                        <tr>
+                            <th className="px-2 py-1 text-left">{t.diagnostics.particle}</th>
+                            <th className="px-2 py-1 text-right">b (fm)</th>
+                            <th className="px-2 py-1 text-right">ΔE/E₀</th>
+                            <th className="px-2 py-1 text-right">ΔL/L₀</th>
+                        </tr>
+                    </thead>
+                    <tbody className="font-mono">
+                        {sortedDiagnostics.map(d => (
+                            <tr key={d.id} className="border-t border-gray-700">
+                                <td className="px-2 py-1">
+                                    <span className="inline-block w-2 h-2 mr-2 rounded-full" style={{ backgroundColor: colorMap.get(d.id) }} />
+                                    {d.id}
+                                </td>
+                                <td className="px-2 py-1 text-right text-gray-300">{format.fixed(d.impactParameter / 1e-15, 1)}</td>
+                                <td className={`px-2 py-1 text-right ${driftColorClass(d.energyDrift)}`}>{formatDrift(d.energyDrift, format)}</td>
+                                <td className={`px-2 py-1 text-right ${driftColorClass(d.angularMomentumDrift)}`}>{formatDrift(d.angularMomentumDrift, format)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {diagnostics.length === 0 && (
+                    <p className="py-4 text-center text-sm text-gray-500">{t.diagnostics.empty}</p>
+                )}
+                {diagnostics.length > MAX_DIAGNOSTIC_ROWS && (
+                    <p className="py-2 text-center text-xs text-gray-500">{t.diagnostics.truncated(format.integer(MAX_DIAGNOSTIC_ROWS), format.integer(diagnostics.length))}</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// --- From components/CrossSectionChart.tsx ---
+ChartJS.register(LogarithmicScale);
+
+interface CrossSectionChartProps {
+    data: ScatterPoint[];
+    settings: SimulationSettings;
+    frame: ReferenceFrame;
+    isTheoryHidden?: boolean;
+    fittedHeadOnDistance?: number | null; // fm
+    figureCaption: string;
+}
+
+// Where each bin's ±1σ bar runs, in the chart's pixels, clipped at the bottom of the axis.
+const errorBarPixels = (chart: ChartJS<'scatter'>, bins: CrossSectionBin[]) => {
+    const { x, y } = chart.scales;
+    return bins.map(bin => ({
+        x: x.getPixelForValue(bin.thetaCenter),
+        low: y.getPixelForValue(Math.max(bin.crossSection - bin.error, y.min)),
+        high: y.getPixelForValue(bin.crossSection + bin.error),
+    }));
+};
+
+const CrossSectionChart: React.FC<CrossSectionChartProps> = ({ data, settings, frame, isTheoryHidden = false, fittedHeadOnDistance = null, figureCaption }) => {
+    const { locale, t, format } = useI18n();
+    const chartRef = useRef<ChartJS<'scatter'>>(null);
+    const [binCount, setBinCount] = useState(18);
+    const projectileExplanations = useProjectileExplanations(settings);
+    const kinematics = useMemo(
+        () => chartKinematics(settings, frame, isTheoryHidden, fittedHeadOnDistance),
+        [settings, frame, isTheoryHidden, fittedHeadOnDistance]
+    );
+
+    const beamArea = settings.beamMode === 'random' ? Math.PI * (beamRadius(settings) / 1e-15) ** 2 : undefined;
+    const bins = useMemo(() => computeCrossSection(data, binCount, beamArea), [data, binCount, beamArea]);
+    const plottedBins = bins.filter(bin => bin.count > 0 && bin.isComplete);
+    const incompleteBins = bins.filter(bin => bin.count > 0 && !bin.isComplete);
+
+    // The error-bar plugin is registered once per chart instance, so it reads the
+    // current bins through a ref instead of closing over a stale array.
+    const binsRef = useRef<CrossSectionBin[]>(plottedBins);
+    binsRef.current = plottedBins;
+
+    const errorBarPlugin = useMemo<Plugin<'scatter'>>(() => ({
+        id: 'poissonErrorBars',
+        afterDatasetsDraw(chart) {
+            const { ctx } = chart;
+            ctx.save();
+            ctx.strokeStyle = '#06b6d4';
+            ctx.lineWidth = 1.5;
+            errorBarPixels(chart, binsRef.current).forEach(({ x, low, high }) => {
+                ctx.beginPath();
+                ctx.moveTo(x, low);
+                ctx.lineTo(x, high);
+                ctx.moveTo(x - 4, low);
+                ctx.lineTo(x + 4, low);
+                ctx.moveTo(x - 4, high);
+                ctx.lineTo(x + 4, high);
+                ctx.stroke();
+            });
+            ctx.restore();
+        },
+    }), []);
+
+    const theoryCurve = useMemo(() => {
+        const curve: ScatterPoint[] = [];
+        if (!kinematics) return curve;
+        for (let theta = 2; theta <= 180; theta += 1) {
+            const crossSection = predictedCrossSection(theta, kinematics);
+            if (crossSection > 0) curve.push({ x: theta, y: crossSection });
+        }
+        return curve;
+    }, [kinematics]);
+
+    const chartData = {
+        datasets: [
+            {
+                label: t.crossSection.simulation,
+                data: plottedBins.map(bin => ({ x: bin.thetaCenter, y: bin.crossSection })),
+                backgroundColor: '#06b6d4',
+                pointRadius: 4,
+                pointHoverRadius: 6,
+            },
+            {
+                label: t.crossSection.incomplete,
+                data: incompleteBins.map(bin => ({ x: bin.thetaCenter, y: bin.crossSection })),
+                backgroundColor: 'rgba(160, 174, 192, 0.5)',
+                pointRadius: 3,
+                pointHoverRadius: 5,
+            },
+            {
+                label: t.crossSection.rutherford,
+                data: theoryCurve,
+                borderColor: '#f59e0b',
+                backgroundColor: '#f59e0b',
+                borderWidth: 2,
+                showLine: true,
+                pointRadius: 0,
+                pointHoverRadius: 0,
+            },
+        ],
+    };
+
+    const options: ChartOptions<'scatter'> = {
+        responsive: true,
+        maintainAspectRatio: false,
+        locale,
+        scales: {
+            x: {
+                type: 'linear',
+                position: 'bottom',
+                min: 0,
+                max: 180,
+                title: { display: false },
+                ticks: { color: '#a0aec0', stepSize: 30 },
+                grid: { color: '#4a5568' },
+            },
+            y: {
+                type: 'logarithmic',
+                title: { display: false },
+                ticks: { color: '#a0aec0' },
+                grid: { color: '#4a5568' },
+            },
+        },
+        plugins: {
+            legend: { display: true, labels: { color: '#a0aec0', boxWidth: 12 } },
+            tooltip: {
+                ...tooltipStyle,
+                filter: (item: TooltipItem<'scatter'>) => item.datasetIndex !== 2,
+                callbacks: {
+                    label: function (context: TooltipItem<'scatter'>) {
+                        const source = context.datasetIndex === 0 ? plottedBins : incompleteBins;
+                        const bin = source[context.dataIndex];
+                        return [
+                            `${t.chart.scatteringAngle}: ${format.fixed(bin.thetaLow, 0)}°–${format.fixed(bin.thetaHigh, 0)}°`,
+                            `dσ/dΩ: ${format.exponential(bin.crossSection, 2)} ± ${format.exponential(bin.error, 1)} fm²/sr`,
+                            ...(kinematics ? [`${isTheoryHidden ? t.chart.fittedCurve : t.chart.theory}: ${format.exponential(predictedCrossSection(bin.thetaCenter, kinematics), 2)} fm²/sr`] : []),
+                            `${t.crossSection.particleCount}: ${format.integer(bin.count)}`,
+                        ];
+                    },
+                },
+            },
+        },
+    };
+
+    // The error bars are drawn by a plugin, so the figure adds them itself.
+    const buildFigure = (options: FigureOptions) => {
+        const chart = chartRef.current;
+        if (!chart) return null;
+        return chartFigure(chart, { x: t.chart.scatteringAngleAxis, y: 'dσ/dΩ (fm²/sr)' }, options, color => {
+            const bars = errorBarPixels(chart, plottedBins)
+                .map(({ x, low, high }) => `M${x} ${low}V${high}M${x - 4} ${low}h8M${x - 4} ${high}h8`)
+                .join('');
+            return `<path d="${bars}" fill="none" stroke="${color('#06b6d4')}" stroke-width="1.5"/>`;
+        });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-center gap-2">
+                <h2 className="text-xl font-semibold text-cyan-400">{t.crossSection.title}</h2>
+                <Tooltip title={t.explanations.crossSection.title} content={t.explanations.crossSection.content} />
+            </div>
+            <div className="flex justify-end">
+                <FigureExportMenu fileName="cross-section" caption={figureCaption} buildFigure={buildFigure} />
+            </div>
+            <div className="w-full flex" style={{ height: 300 }}>
+                <div className="flex items-center justify-center pr-4" style={{ writingMode: 'vertical-rl' }}>
+                    <span className="text-sm text-gray-400">dσ/dΩ (fm²/sr)</span>
+                </div>
+                <div className="flex-grow flex flex-col min-w-0">
+                    <div className="flex-grow w-full h-full">
+                        <Scatter ref={chartRef} options={options} data={chartData} plugins={[errorBarPlugin]} />
+                    </div>
+                    <div className="flex items-center justify-center pt-3 gap-2 text-sm text-gray-400">
+                        <span>{t.chart.scatteringAngleAxis}</span>
+                        <Tooltip title={projectileExplanations.scatteringAngle.title} content={projectileExplanations.scatteringAngle.content} />
+                    </div>
+                </div>
+            </div>
+            <div className="max-w-sm mx-auto">
+                <Slider label={t.crossSection.binCount} tooltip={t.explanations.binCount} value={binCount} min={6} max={60} step={6} unit="" onChange={(e) => setBinCount(Number(e.target.value))} />
+            </div>
+            {data.length === 0 && (
+                <p className="text-center text-sm text-gray-500">{t.crossSection.empty}</p>
+            )}
+        </div>
+    );
+};
+
+// --- From components/AzimuthChart.tsx ---
+const AZIMUTH_BIN_WIDTH = 30; // degrees
+
+const AzimuthChart: React.FC<{ azimuths: number[]; figureCaption: string }> = ({ azimuths, figureCaption }) => {
+    const { locale, t, format } = useI18n();
+    const chartRef = useRef<ChartJS<'scatter'>>(null);
+    const binCount = 360 / AZIMUTH_BIN_WIDTH;
+    const counts = useMemo(() => {
+        const bins = new Array<number>(binCount).fill(0);
+        azimuths.forEach(phi => {
+            bins[Math.min(binCount - 1, Math.floor((phi + 180) / AZIMUTH_BIN_WIDTH))]++;
+        });
+        return bins;
+    }, [azimuths, binCount]);
+    const expected = azimuths.length / binCount;
+    const binLow = (i: number) => -180 + i * AZIMUTH_BIN_WIDTH;
+
+    // The histogram's outline is its own series, so the exported figure draws it like any line.
+    const chartData = {
+        datasets: [
+            {
+                label: t.view3D.counts,
+                data: counts.map((count, i) => ({ x: binLow(i) + AZIMUTH_BIN_WIDTH / 2, y: count })),
+                backgroundColor: '#06b6d4',
+                pointRadius: 3,
+                pointHoverRadius: 5,
+            },
+            {
+                label: '',
+                data: counts.flatMap((count, i) => [{ x: binLow(i), y: count }, { x: binLow(i + 1), y: count }]),
+                borderColor: '#06b6d4',
+                backgroundColor: '#06b6d4',
+                borderWidth: 1.5,
+                showLine: true,
+                pointRadius: 0,
+                pointHoverRadius: 0,
+            },
+            {
+                label: t.view3D.uniform,
+                data: [{ x: -180, y: expected }, { x: 180, y: expected }],
+                borderColor: '#f59e0b',
+                backgroundColor: '#f59e0b',
+                borderWidth: 2,
+                borderDash: [6, 4],
+                showLine: true,
+                pointRadius: 0,
+                pointHoverRadius: 0,
+            },
+        ],
+    };
+
+    const options: ChartOptions<'scatter'> = {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: false,
+        locale,
+        scales: {
+            x: {
+                type: 'linear',
+                position: 'bottom',
+                min: -180,
+                max: 180,
+                title: { display: true, text: t.view3D.azimuthAxis, color: '#a0aec0' },
+                ticks: { color: '#a0aec0', stepSize: 60 },
+                grid: { color: '#4a5568' },
+            },
+            y: {
+                beginAtZero: true,
+                title: { display: true, text: t.view3D.countAxis, color: '#a0aec0' },
+                ticks: { color: '#a0aec0' },
+                grid: { color: '#4a5568' },
+            },
+        },
+        plugins: {
+            legend: { display: true, labels: { color: '#a0aec0', boxWidth: 12, filter: item => item.datasetIndex !== 1 } },
+            tooltip: {
+                ...tooltipStyle,
+                filter: (item: TooltipItem<'scatter'>) => item.datasetIndex === 0,
+                callbacks: {
+                    label: (context: TooltipItem<'scatter'>) => [
+                        `φ: ${format.integer(binLow(context.dataIndex))}°–${format.integer(binLow(context.dataIndex + 1))}°`,
+                        `${t.view3D.counts}: ${format.integer(counts[context.dataIndex])}`,
+                        `${t.view3D.uniform}: ${format.fixed(expected, 1)}`,
+                    ],
+                },
+            },
+        },
+    };
+
+    const buildFigure = (options: FigureOptions) => chartRef.current
+        ? chartFigure(chartRef.current, { x: t.view3D.azimuthAxis, y: t.view3D.countAxis }, options)
+        : null;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-center gap-2">
+                <h2 className="text-xl font-semibold text-cyan-400">{t.view3D.azimuthTitle}</h2>
+                <Tooltip title={t.explanations.azimuthChart.title} content={t.explanations.azimuthChart.content} />
+                <FigureExportMenu fileName="azimuths" caption={figureCaption} buildFigure={buildFigure} />
+            </div>
+            {azimuths.length > 0 ? (
+                <div style={{ height: 260 }}>
+                    <Scatter ref={chartRef} options={options} data={chartData} />
+                </div>
+            ) : (
+                <p className="text-center text-sm text-gray-500">{t.view3D.azimuthEmpty}</p>
+            )}
+        </div>
+    );
+};
+
+// --- From components/SweepPanel.tsx ---
+interface SweepPlan {
+    definition: SweepDefinition;
+    runs: SweepRun[];
+}
+
+interface SweepPanelProps {
+    settings: SimulationSettings;
+    plan: SweepPlan | null;
+    summaries: RunSummary[];
+    isSweeping: boolean;
+    onRun: (definition: SweepDefinition) => void;
+    onCancel: () => void;
+}
+
+interface SweepMetric {
+    key: Exclude<keyof RunSummary, 'particleCount'>;
+    unit: string;
+    scale: number;
+    tooltip?: keyof Messages['explanations'];
+}
+
+const SWEEP_METRICS: SweepMetric[] = [
+    { key: 'meanAngle', unit: '°', scale: 1 },
+    { key: 'backscatterFraction', unit: '%', scale: 100 },
+    { key: 'minClosestApproach', unit: 'fm', scale: 1, tooltip: 'closestApproach' },
+];
+
+const SERIES_COLORS = ['#06b6d4', '#f59e0b', '#a3e635', '#f472b6', '#c084fc', '#fb923c', '#38bdf8', '#facc15'];
+
+const SweepChart: React.FC<{ plan: SweepPlan; summaries: RunSummary[]; metric: SweepMetric }> = ({ plan, summaries, metric }) => {
+    const { locale, t, format } = useI18n();
+    const chartRef = useRef<ChartJS<'scatter'>>(null);
+    const { definition, runs } = plan;
+    const isProjectileAxis = definition.parameter === 'projectile';
+    const speciesOf = (type: ProjectileType) => resolveProjectile({ ...runs[0].payload.settings, projectile: type });
+    const chartData = {
+        datasets: definition.projectiles.map((type, seriesIndex) => {
+            const color = SERIES_COLORS[seriesIndex % SERIES_COLORS.length];
+            return {
+                label: t.projectiles[type],
+                data: runs
+                    .map((run, i) => ({ run, summary: summaries[i] }))
+                    .filter(({ run, summary }) => run.projectile === type && summary)
+                    .map(({ run, summary }) => ({ x: run.value, y: summary[metric.key] * metric.scale })),
+                borderColor: color,
+                backgroundColor: color,
+                showLine: !isProjectileAxis,
+                pointRadius: 4,
+                pointHoverRadius: 6,
+            };
+        }),
+    };
+
+    const options: ChartOptions<'scatter'> = {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: false,
+        locale,
+        scales: {
+            x: {
+                type: 'linear',
+                position: 'bottom',
+                title: { display: true, text: t.sweep.axes[definition.parameter], color: '#a0aec0' },
+                ticks: {
+                    color: '#a0aec0',
+                    ...(isProjectileAxis && {
+                        stepSize: 1,
+                        callback: (value: string | number) => {
+                            const type = definition.projectiles[Number(value)];
+                            return type ? speciesOf(type).symbol : '';
+                        },
+                    }),
+                },
+                grid: { color: '#4a5568' },
+                ...(isProjectileAxis && { min: -0.5, max: definition.projectiles.length - 0.5 }),
+            },
+            y: {
+                beginAtZero: true,
+                title: { display: true, text: metric.unit, color: '#a0aec0' },
+                ticks: { color: '#a0aec0' },
+                grid: { color: '#4a5568' },
+            },
+        },
+        plugins: {
+            legend: { display: !isProjectileAxis && definition.projectiles.length > 1, labels: { color: '#a0aec0', boxWidth: 12 } },
+            tooltip: {
+                ...tooltipStyle,
+                callbacks: {
+                    label: (context: TooltipItem<'scatter'>) => `${context.dataset.label}: ${format.fixed(context.parsed.y ?? 0, metric.key === 'meanAngle' ? 2 : 1)} ${metric.unit}`,
+                },
+            },
+        },
+    };
+
+    const baseSettings = runs[0].payload.settings;
+    const caption = [
+        t.sweep.metrics[metric.key],
+        t.sweep.plan(format.integer(runs.length), format.integer(baseSettings.numParticles)),
+        t.controls.integrators[baseSettings.integrator],
+    ].join(' · ');
+    const buildFigure = (options: FigureOptions) => chartRef.current
+        ? chartFigure(chartRef.current, { x: t.sweep.axes[definition.parameter], y: metric.unit }, options)
+        : null;
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-center gap-2">
+                <h3 className="text-sm font-semibold text-gray-300">{t.sweep.metrics[metric.key]}</h3>
+                {metric.tooltip && <Tooltip title={t.explanations[metric.tooltip].title} content={t.explanations[metric.tooltip].content} />}
+                <FigureExportMenu fileName={`sweep-${metric.key}`} caption={caption} buildFigure={buildFigure} />
+            </div>
+            <div style={{ height: 220 }}>
+                <Scatter ref={chartRef} options={options} data={chartData} />
+            </div>
+        </div>
+    );
+};
+
+const SweepPanel: React.FC<SweepPanelProps> = ({ settings, plan, summaries, isSweeping, onRun, onCancel }) => {
+    const { t, format } = useI18n();
+    const [definition, setDefinition] = useState<SweepDefinition>({
+        parameter: 'targetZ',
+        start: 10,
+        end: 90,
+        steps: 9,
+        projectiles: [settings.projectile],
+    });
+    const energyMax = ENERGY_RANGES[settings.energyRange].max;
+    const isProjectileSweep = definition.parameter === 'projectile';
+    const runCount = sweepValues(definition).length * (isProjectileSweep ? 1 : definition.projectiles.length);
+    const completedCount = summaries.filter(Boolean).length;
+
+    const handleParameterChange = (parameter: SweepParameter) => {
+        setDefinition(prev => ({
+            ...prev,
+            parameter,
+            ...(parameter === 'energy' && { start: 1, end: energyMax }),
+            ...(parameter === 'targetZ' && { start: 10, end: 90 }),
+        }));
+    };
+    const toggleProjectile = (type: ProjectileType) => {
+        setDefinition(prev => ({
+            ...prev,
+            projectiles: prev.projectiles.includes(type)
+                ? prev.projectiles.filter(p => p !== type)
+                : projectileOptions(t).map(o => o.value).filter(p => p === type || prev.projectiles.includes(p)),
+        }));
+    };
+    const rangeLimits = definition.parameter === 'energy' ? { min: 0.1, max: energyMax } : { min: 1, max: 118 };
+    const clampToRange = (value: number) => Math.min(rangeLimits.max, Math.max(rangeLimits.min, value));
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-center gap-2">
+                <h2 className="text-xl font-semibold text-cyan-400">{t.sweep.title}</h2>
+                <Tooltip title={t.explanations.sweep.title} content={t.explanations.sweep.content} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                <SelectInput
+                    label={t.sweep.parameter}
+                    tooltip={t.explanations.sweepParameter}
+                    value={definition.parameter}
+                    options={labelledOptions(t.sweep.parameters)}
+                    onChange={handleParameterChange}
+                />
+                {!isProjectileSweep && (
+                    <>
+                        <NumberInput label={t.sweep.start} tooltip={t.explanations.sweepRange} value={definition.start} min={rangeLimits.min} max={rangeLimits.max} onChange={(value) => setDefinition(prev => ({ ...prev, start: clampToRange(value) }))} />
+                        <NumberInput label={t.sweep.end} tooltip={t.explanations.sweepRange} value={definition.end} min={rangeLimits.min} max={rangeLimits.max} onChange={(value) => setDefinition(prev => ({ ...prev, end: clampToRange(value) }))} />
+                        <NumberInput label={t.sweep.steps} tooltip={t.explanations.sweepRange} value={definition.steps} min={1} max={MAX_SWEEP_STEPS} onChange={(value) => setDefinition(prev => ({ ...prev, steps: Math.min(MAX_SWEEP_STEPS, Math.max(1, Math.round(value))) }))} />
+                    </>
+                )}
+            </div>
+            <div className="space-y-2">
+                <span className="text-sm font-medium text-gray-300">{t.controls.projectile}</span>
+                <div className="flex flex-wrap gap-2">
+                    {projectileOptions(t).map(option => {
+                        const isSelected = definition.projectiles.includes(option.value);
+                        return (
+                            <button
+                                key={option.value}
+                                type="button"
+                                onClick={() => toggleProjectile(option.value)}
+                                aria-pressed={isSelected}
+                                className={`px-3 py-1 text-sm rounded-full border transition-colors ${isSelected ? 'bg-cyan-600 border-cyan-500 text-white' : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'}`}
+                            >
+                                {option.label}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+            <div className="flex flex-wrap items-center justify-center gap-3">
+                <button
+                    type="button"
+                    onClick={() => (isSweeping ? onCancel() : onRun(definition))}
+                    disabled={!isSweeping && runCount === 0}
+                    className="px-4 py-2 font-semibold text-white bg-cyan-600 rounded-md hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+                >
+                    {isSweeping ? t.sweep.cancel : t.sweep.run}
+                </button>
+                <span className="text-sm text-gray-400">
+                    {isSweeping && plan
+                        ? t.sweep.progress(format.integer(completedCount), format.integer(plan.runs.length))
+                        : t.sweep.plan(format.integer(runCount), format.integer(settings.numParticles))}
+                </span>
+            </div>
+            {isSweeping && plan && (
+                <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+                    <div className="h-full bg-cyan-500 transition-all" style={{ width: `${(100 * completedCount) / plan.runs.length}%` }} />
+                </div>
+            )}
+            {plan && completedCount > 0 ? (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {SWEEP_METRICS.map(metric => (
+                        <SweepChart key={metric.key} plan={plan} summaries={summaries} metric={metric} />
+                    ))}
+                </div>
+            ) : (
+                <p className="text-center text-sm text-gray-500">{t.sweep.empty}</p>
+            )}
+        </div>
+    );
+};
+
+// --- From components/PresetPanel.tsx ---
+const CUSTOM_PRESET_ID = 'custom';
+const LINK_COPIED_MESSAGE_MS = 2000;
+
+interface PresetPanelProps {
+    settings: SimulationSettings;
+    presets: ExperimentPreset[];
+    onApply: (preset: ExperimentPreset) => void;
+    onSave: (name: string) => void;
+    onDelete: (id: string) => void;
+}
+
+const PresetPanel: React.FC<PresetPanelProps> = ({ settings, presets, onApply, onSave, onDelete }) => {
+    const { t, format } = useI18n();
+    const [presetName, setPresetName] = useState('');
+    const [linkStatus, setLinkStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+    useEffect(() => {
+        if (linkStatus === 'idle') return;
+        const timer = setTimeout(() => setLinkStatus('idle'), LINK_COPIED_MESSAGE_MS);
+        return () => clearTimeout(timer);
+    }, [linkStatus]);
+
+    // A preset stays selected only while the settings still match it exactly.
+    const activePreset = presets.find(preset => settingsEqual(preset.settings, settings));
+    const options = [
+        { value: CUSTOM_PRESET_ID, label: t.presetPanel.custom },
+        ...presets.map(preset => ({ value: preset.id, label: preset.isUserPreset ? t.presetPanel.userPreset(preset.name) : preset.name })),
+    ];
+    const describe = ({ settings: presetSettings }: ExperimentPreset) => t.presetPanel.userDescription(
+        t.projectiles[presetSettings.projectile],
+        format.number(presetSettings.energy),
+        presetSettings.targetZ,
+        format.integer(presetSettings.numParticles)
+    );
+
+    const handleSelect = (id: string) => {
+        const preset = presets.find(p => p.id === id);
+        if (preset) onApply(preset);
+    };
+    const handleSave = () => {
+        const name = presetName.trim();
+        if (!name) return;
+        onSave(name);
+        setPresetName('');
+    };
+    const handleCopyLink = () => {
+        navigator.clipboard.writeText(window.location.href)
+            .then(() => setLinkStatus('copied'))
+            .catch(() => setLinkStatus('failed'));
+    };
+
+    const buttonClass = 'px-3 py-2 text-sm font-semibold text-white bg-gray-600 rounded-md hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors';
+
+    return (
+        <div className="space-y-4">
+            <SelectInput
+                label={t.presetPanel.title}
+                tooltip={t.explanations.presets}
+                value={activePreset ? activePreset.id : CUSTOM_PRESET_ID}
+                options={options}
+                onChange={handleSelect}
+            />
+            {activePreset && <p className="text-sm text-gray-400 leading-relaxed">{activePreset.description ?? describe(activePreset)}</p>}
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={presetName}
+                    placeholder={t.presetPanel.name}
+                    maxLength={40}
+                    onChange={(e) => setPresetName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                    className="flex-1 min-w-0 px-3 py-2 text-sm text-gray-100 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
+                <button type="button" className={buttonClass} disabled={!presetName.trim()} onClick={handleSave}>{t.presetPanel.save}</button>
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="flex items-center gap-2">
+                    <button type="button" className={buttonClass} onClick={handleCopyLink}>
+                        {linkStatus === 'copied' ? t.presetPanel.copied : t.presetPanel.copyLink}
+                    </button>
+                    <Tooltip title={t.explanations.permalink.title} content={t.explanations.permalink.content} position="top" />
+                </span>
+                {activePreset?.isUserPreset && (
+                    <button type="button" className="text-sm text-red-400 hover:text-red-300" onClick={() => onDelete(activePreset.id)}>{t.presetPanel.delete}</button>
+                )}
+            </div>
+            {linkStatus === 'failed' && <p className="text-sm text-red-400">{t.presetPanel.copyFailed}</p>}
+        </div>
+    );
+};
+
+// --- From components/ReplayPanel.tsx ---
+const REPLAY_SPEEDS = [0.1, 0.25, 0.5, 1, 2, 4, 8];
+const REPLAY_FRAMES_PER_SECOND = 60; // Simulation frames shown per second at 1×
+
+interface ReplayParticle {
+    id: number;
+    impactParameter: number; // m
+}
+
+interface ReplayPanelProps {
+    frameCount: number;
+    frame: number | null; // Null while showing the live run
+    frameTime: number; // s
+    frameInterval: number; // Simulation frames per recorded frame
+    particles: ReplayParticle[]; // In recording order
+    onSeek: (frame: number) => void;
+    onLive: () => void;
+    onJumpToClosestApproach: (particleIndex: number) => void;
+}
+
+const ReplayPanel: React.FC<ReplayPanelProps> = ({ frameCount, frame, frameTime, frameInterval, particles, onSeek, onLive, onJumpToClosestApproach }) => {
+    const { t, format } = useI18n();
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [speed, setSpeed] = useState(1);
+    const [selectedParticle, setSelectedParticle] = useState(0);
+    const lastFrame = Math.max(0, frameCount - 1);
+    const currentFrame = frame ?? lastFrame;
+    const playbackRef = useRef({ position: currentFrame, lastFrame });
+    playbackRef.current.lastFrame = lastFrame;
+
+    useEffect(() => {
+        if (!isPlaying) return;
+        let handle = 0;
+        let previous = performance.now();
+        const tick = (now: number) => {
+            const playback = playbackRef.current;
+            playback.position += ((now - previous) / 1000) * REPLAY_FRAMES_PER_SECOND * speed / frameInterval;
+            previous = now;
+            if (playback.position >= playback.lastFrame) {
+                onSeek(playback.lastFrame);
+                setIsPlaying(false);
+                return;
+            }
+            onSeek(Math.floor(playback.position));
+            handle = requestAnimationFrame(tick);
+        };
+        handle = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(handle);
+    }, [isPlaying, speed, frameInterval, onSeek]);
+
+    // Built once per run: a large beam has tens of thousands of options, and the panel
+    // re-renders with every update.
+    const particleOptions = useMemo(
+        () => particles.map(({ id, impactParameter }, i) => (
+            <option key={i} value={i}>{t.replay.particle(format.integer(id), format.fixed(impactParameter / 1e-15, 1))}</option>
+        )),
+        [particles, t, format],
+    );
+
+    // A finished or restarted run leaves nothing to play.
+    useEffect(() => {
+        if (frameCount < 2) setIsPlaying(false);
+        setSelectedParticle(prev => (prev < particles.length ? prev : 0));
+    }, [frameCount, particles.length]);
+
+    const seek = (target: number) => {
+        setIsPlaying(false);
+        onSeek(Math.min(lastFrame, Math.max(0, target)));
+    };
+    const togglePlay = () => {
+        if (isPlaying) {
+            setIsPlaying(false);
+            return;
+        }
+        // Playing from the end starts over.
+        const start = currentFrame >= lastFrame ? 0 : currentFrame;
+        playbackRef.current.position = start;
+        onSeek(start);
+        setIsPlaying(true);
+    };
+
+    const isEmpty = frameCount < 2;
+    const buttonClass = 'px-3 py-1.5 text-sm font-semibold text-white bg-gray-600 rounded-md hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors';
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-center gap-2">
+                <h2 className="text-xl font-semibold text-cyan-400">{t.replay.title}</h2>
+                <Tooltip title={t.explanations.replay.title} content={t.explanations.replay.content} />
+            </div>
+            <input
+                type="range"
+                min={0}
+                max={lastFrame}
+                step={1}
+                value={currentFrame}
+                disabled={isEmpty}
+                onChange={(e) => seek(Number(e.target.value))}
+                className="w-full accent-cyan-500"
+                aria-label={t.replay.timeline}
+            />
+            <div className="flex flex-wrap items-center justify-center gap-2">
+                <button type="button" className={buttonClass} disabled={isEmpty} onClick={() => seek(0)} aria-label={t.replay.first}>⏮</button>
+                <button type="button" className={buttonClass} disabled={isEmpty || currentFrame <= 0} onClick={() => seek(currentFrame - 1)} aria-label={t.replay.previous}>◀︎ 1</button>
+                <button type="button" className={`${buttonClass} w-20`} disabled={isEmpty} onClick={togglePlay}>{isPlaying ? t.replay.pause : t.replay.play}</button>
+                <button type="button" className={buttonClass} disabled={isEmpty || currentFrame >= lastFrame} onClick={() => seek(currentFrame + 1)} aria-label={t.replay.next}>1 ▶︎</button>
+                <button type="button" className={buttonClass} disabled={frame === null} onClick={() => { setIsPlaying(false); onLive(); }}>{t.replay.live}</button>
+                <div className="w-24">
+                    <select
+                        value={String(speed)}
+                        onChange={(e) => setSpeed(Number(e.target.value))}
+                        className="w-full px-2 py-1.5 text-sm text-gray-100 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                        aria-label={t.replay.speed}
+                    >
+                        {REPLAY_SPEEDS.map(option => (
+                            <option key={option} value={String(option)}>{format.number(option)}×</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+            <p className="text-center text-sm text-gray-400">
+                {isEmpty ? (
+                    t.replay.empty
+                ) : (
+                    <>
+                        {t.replay.frame} <span className="font-mono text-gray-100">{format.integer(currentFrame + 1)} / {format.integer(frameCount)}</span>
+                        {' · '}t = <span className="font-mono text-gray-100">{format.fixed(frameTime / 1e-15, 3)}</span> fs
+                        {frameInterval > 1 && ` · ${t.replay.frameInterval(format.integer(frameInterval))}`}
+                    </>
+                )}
+            </p>
+            {particles.length > 0 && (
+                <div className="flex flex-wrap items-center justify-center gap-2">
+                    <select
+                        value={selectedParticle}
+                        onChange={(e) => setSelectedParticle(Number(e.target.value))}
+                        className="px-2 py-1.5 text-sm text-gray-100 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                        aria-label={t.replay.selectParticle}
+                    >
+                        {particleOptions}
+                    </select>
+                    <button type="button" className={buttonClass} disabled={isEmpty} onClick={() => { setIsPlaying(false); onJumpToClosestApproach(selectedParticle); }}>
+                        {t.replay.jumpToClosestApproach}
+                    </button>
+                    <Tooltip title={t.explanations.closestApproach.title} content={t.explanations.closestApproach.content} position="top" />
+                </div>
+            )}
+        </div>
+    );
+};
 
-                    const numStandardParticles = settings.numParticles;
-                    const halfNum = Math.floor(numStandardParticles / 2);
-                    const impactStep = halfNum > 0 ? (CANVAS_HEIGHT / 2 * 0.8) / halfNum : 0;
-                    for (let i = 0; i < numStandardParticles; i++) {
-                        const stepIndex = Math.floor(i / 2) + 1;
-                        const sign = (i % 2 === 0 ? 1 : -1);
-                        const impactB_pixels = impactStep > 0 ? stepIndex * impactStep * sign : 0;
-                        addParticle(impactB_pixels);
-                    }
+// --- From components/RunFilePanel.tsx ---
+type RunFileFormat = 'csv' | 'json';
 
-                    const a_finalParticles = Array.from(particleMap.values());
-                    const finalNumParticles = a_finalParticles.length;
+interface ImportedRun {
+    fileName: string;
+    exportedAt: string; // Empty for CSV files, which do not record it
+}
 
-                    a_finalParticles.forEach((p, index) => {
-                        p.id = index;
-                        p.color = \`hsl(\${(index * 360) / finalNumParticles}, 90%, 70%)\`;
-                        
-                        const initialCanvasPos = { x: 0, y: CANVAS_HEIGHT / 2 + p.impactParameterInPixels };
-                        initialPaths[p.id] = [initialCanvasPos];
-                        delete p.impactParameterInPixels;
-                    });
+interface RunFilePanelProps {
+    canExport: boolean;
+    importedRun: ImportedRun | null;
+    importError: RunFileError | null;
+    onExport: (format: RunFileFormat, includePaths: boolean) => void;
+    onImport: (file: File) => void;
+}
 
-                    finalParticles = a_finalParticles;
-                }
-                
-                particles = finalParticles;
-                newPathData = {};
+const RunFilePanel: React.FC<RunFilePanelProps> = ({ canExport, importedRun, importError, onExport, onImport }) => {
+    const { locale, t } = useI18n();
+    const [includePaths, setIncludePaths] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
 
-                self.postMessage({ type: 'resetComplete', payload: { particles: finalParticles, initialPaths: initialPaths } });
-                break;
-        }
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Cleared so that choosing the same file again still fires a change.
+        e.target.value = '';
+        if (file) onImport(file);
     };
-`;
 
-const App: React.FC = () => {
-    const [settings, setSettings] = useState<SimulationSettings>({
-        energy: 5,
-        numParticles: 50,
-        targetZ: 79,
-        isFocusModeEnabled: false,
+    const buttonClass = 'px-3 py-1.5 text-sm font-semibold text-white bg-gray-600 rounded-md hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors';
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-center gap-2">
+                <h2 className="text-xl font-semibold text-cyan-400">{t.runFile.title}</h2>
+                <Tooltip title={t.explanations.runFile.title} content={t.explanations.runFile.content} />
+            </div>
+            <div className="flex flex-wrap items-center justify-center gap-3">
+                <button type="button" className={buttonClass} disabled={!canExport} onClick={() => onExport('csv', false)}>{t.runFile.exportCsv}</button>
+                <button type="button" className={buttonClass} disabled={!canExport} onClick={() => onExport('json', includePaths)}>{t.runFile.exportJson}</button>
+                <div className="w-44">
+                    <ToggleSwitch label={t.runFile.includePaths} tooltip={t.explanations.runFile} enabled={includePaths} onChange={setIncludePaths} />
+                </div>
+                <button type="button" className={buttonClass} onClick={() => fileInputRef.current?.click()}>{t.runFile.import}</button>
+                <input ref={fileInputRef} type="file" accept=".json,.csv,application/json,text/csv" className="hidden" onChange={handleFileChange} />
+            </div>
+            {!canExport && !importedRun && (
+                <p className="text-center text-sm text-gray-500">{t.runFile.empty}</p>
+            )}
+            {importedRun && (
+                <p className="text-center text-sm text-amber-300">
+                    {t.runFile.imported} · <span className="font-mono">{importedRun.fileName}</span>
+                    {importedRun.exportedAt && ` · ${t.runFile.savedAt(new Date(importedRun.exportedAt).toLocaleString(locale))}`}
+                </p>
+            )}
+            {importError && <p className="text-center text-sm text-red-400">{t.runFile.errors[importError.reason](importError.detail)}</p>}
+        </div>
+    );
+};
+
+const downloadFile = (fileName: string, content: BlobPart, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// --- From components/PinnedRunsPanel.tsx ---
+const PINNED_RUN_COLORS = ['#f472b6', '#a3e635', '#fb923c', '#c084fc', '#facc15', '#38bdf8'];
+const MAX_PINNED_RUNS = PINNED_RUN_COLORS.length;
+
+interface PinnedRun {
+    id: number;
+    color: string;
+    isVisible: boolean;
+    results: FinishedPayload;
+    paths: Float32Array[]; // Packed trajectories, for ghosting on the canvas
+}
+
+// What sets a run apart, in the order people usually vary it.
+const describeRun = (settings: SimulationSettings, t: Messages, format: NumberFormat) => {
+    const projectile = resolveProjectile(settings);
+    const parts = [`${projectile.symbol} ${format.number(settings.energy)} MeV`, `Z = ${settings.targetZ}`];
+    if (settings.targetMode === 'foil') parts.push(t.pinnedRuns.foilLayers(format.integer(settings.foilLayers)));
+    if (settings.targetMode === 'thomson') parts.push(t.pinnedRuns.thomson);
+    else if (settings.potential !== 'coulomb') parts.push(t.controls.potentials[settings.potential]);
+    if (settings.isRelativistic) parts.push(t.pinnedRuns.relativistic);
+    if (isThreeDimensionalRun(settings)) parts.push(t.pinnedRuns.threeDimensional);
+    if (settings.beamMode === 'random') parts.push(t.pinnedRuns.seed(settings.seed));
+    return parts.join(' · ');
+};
+
+// Labels are made in the current language when shown; runs that read alike are numbered.
+const pinnedRunLabels = (runs: PinnedRun[], t: Messages, format: NumberFormat) => {
+    const seen = new Map<string, number>();
+    return runs.map(run => {
+        const label = describeRun(run.results.settings, t, format);
+        const count = (seen.get(label) ?? 0) + 1;
+        seen.set(label, count);
+        return count > 1 ? `${label} (${count})` : label;
     });
-    const [particles, setParticles] = useState<Omit<Particle, 'path'>[]>([]);
+};
+
+interface PinnedRunsPanelProps {
+    pinnedRuns: PinnedRun[];
+    canPin: boolean;
+    isGhosting: boolean;
+    onPin: () => void;
+    onToggle: (id: number) => void;
+    onRemove: (id: number) => void;
+    onClear: () => void;
+    onGhostingChange: (enabled: boolean) => void;
+}
+
+const PinnedRunsPanel: React.FC<PinnedRunsPanelProps> = ({ pinnedRuns, canPin, isGhosting, onPin, onToggle, onRemove, onClear, onGhostingChange }) => {
+    const { t, format } = useI18n();
+    const labels = pinnedRunLabels(pinnedRuns, t, format);
+    const isFull = pinnedRuns.length >= MAX_PINNED_RUNS;
+    const buttonClass = 'px-3 py-1.5 text-sm font-semibold text-white bg-gray-600 rounded-md hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors';
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-center gap-2">
+                <h2 className="text-xl font-semibold text-cyan-400">{t.pinnedRuns.title}</h2>
+                <Tooltip title={t.explanations.pinnedRuns.title} content={t.explanations.pinnedRuns.content} />
+            </div>
+            <div className="flex flex-wrap items-center justify-center gap-3">
+                <button type="button" className={buttonClass} disabled={!canPin || isFull} onClick={onPin}>{t.pinnedRuns.pin}</button>
+                <button type="button" className={buttonClass} disabled={pinnedRuns.length === 0} onClick={onClear}>{t.pinnedRuns.clear}</button>
+                <div className="w-48">
+                    <ToggleSwitch label={t.pinnedRuns.ghosting} tooltip={t.explanations.pinnedRuns} enabled={isGhosting} onChange={onGhostingChange} />
+                </div>
+            </div>
+            {pinnedRuns.length > 0 ? (
+                <ul className="space-y-1">
+                    {pinnedRuns.map((run, i) => (
+                        <li key={run.id} className="flex items-center gap-2 bg-gray-900 rounded-md px-3 py-1.5 text-sm">
+                            <span className="inline-block w-3 h-3 flex-shrink-0" style={{ backgroundColor: run.color, clipPath: 'polygon(50% 0, 100% 100%, 0 100%)' }} />
+                            <span className={`flex-grow truncate ${run.isVisible ? 'text-gray-200' : 'text-gray-500 line-through'}`} title={labels[i]}>{labels[i]}</span>
+                            <span className="text-xs text-gray-500">{t.pinnedRuns.particleCount(format.integer(run.results.scatterData.length))}</span>
+                            <button
+                                type="button"
+                                onClick={() => onToggle(run.id)}
+                                aria-pressed={run.isVisible}
+                                className="px-2 py-0.5 text-xs text-gray-300 bg-gray-700 rounded hover:bg-gray-600"
+                            >
+                                {run.isVisible ? t.pinnedRuns.hide : t.pinnedRuns.show}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => onRemove(run.id)}
+                                aria-label={t.pinnedRuns.remove(labels[i])}
+                                className="px-2 py-0.5 text-xs text-gray-300 bg-gray-700 rounded hover:bg-gray-600"
+                            >
+                                ✕
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p className="text-center text-sm text-gray-500">{t.pinnedRuns.empty}</p>
+            )}
+            {isFull && <p className="text-center text-xs text-gray-500">{t.pinnedRuns.full(format.integer(MAX_PINNED_RUNS))}</p>}
+        </div>
+    );
+};
+
+// --- From components/OverlayControls.tsx ---
+interface OverlayToggles {
+    potential: boolean;
+    forces: boolean;
+    closestApproach: boolean;
+    asymptotes: boolean;
+}
+
+const NO_OVERLAYS: OverlayToggles = { potential: false, forces: false, closestApproach: false, asymptotes: false };
+
+const OVERLAY_SWITCHES: { key: keyof OverlayToggles; tooltip: keyof Messages['explanations'] }[] = [
+    { key: 'potential', tooltip: 'potentialOverlay' },
+    { key: 'forces', tooltip: 'forceOverlay' },
+    { key: 'closestApproach', tooltip: 'closestApproachOverlay' },
+    { key: 'asymptotes', tooltip: 'asymptoteOverlay' },
+];
+
+// Drawn from the target's charge and the beam energy, so not offered while they are hidden.
+const TARGET_REVEALING_OVERLAYS: (keyof OverlayToggles)[] = ['potential', 'forces', 'closestApproach'];
+
+interface OverlayControlsProps {
+    toggles: OverlayToggles;
+    onChange: (toggles: OverlayToggles) => void;
+    isTargetHidden?: boolean;
+}
+
+const OverlayControls: React.FC<OverlayControlsProps> = ({ toggles, onChange, isTargetHidden = false }) => {
+    const { t } = useI18n();
+    return (
+        <div>
+            <h2 className="text-xl font-semibold mb-2 text-cyan-400 text-center">{t.overlays.title}</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6">
+                {OVERLAY_SWITCHES.filter(({ key }) => !isTargetHidden || !TARGET_REVEALING_OVERLAYS.includes(key)).map(({ key, tooltip }) => (
+                    <ToggleSwitch
+                        key={key}
+                        label={t.overlays[key]}
+                        tooltip={t.explanations[tooltip]}
+                        enabled={toggles[key]}
+                        onChange={(enabled) => onChange({ ...toggles, [key]: enabled })}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// --- From components/ParticleInspector.tsx ---
+const ZEPTOSECOND = 1e-21; // s
+
+interface ParticleInspectorProps {
+    trace: ParticleTrace | null; // Null while the worker is still tracing
+    particleId: number;
+    color: string;
+    canJumpToClosestApproach: boolean;
+    onJumpToClosestApproach: () => void;
+    onClose: () => void;
+    isTargetHidden?: boolean; // Energies and forces would give the hidden target away; speed and distance are fair to measure.
+    figureCaption: string;
+}
+
+type TracePlotKey = keyof Messages['inspector']['plots'];
+type TraceSeriesKey = keyof Messages['inspector']['series'];
+
+interface TraceSeries {
+    key: TraceSeriesKey;
+    values: number[];
+    color: string;
+}
+
+interface TracePlotSpec {
+    key: TracePlotKey;
+    unit: string;
+    revealsTarget?: boolean;
+    series: (samples: TraceSamples) => TraceSeries[];
+    format: (value: number, format: NumberFormat) => string;
+}
+
+const TRACE_PLOTS: TracePlotSpec[] = [
+    {
+        key: 'distance',
+        unit: 'fm',
+        series: samples => [{ key: 'distance', values: samples.distance, color: '#06b6d4' }],
+        format: (value, format) => format.fixed(value, 1),
+    },
+    {
+        key: 'speed',
+        unit: 'v/c',
+        series: samples => [{ key: 'speed', values: samples.speed, color: '#a3e635' }],
+        format: (value, format) => format.fixed(value, 4),
+    },
+    {
+        key: 'energy',
+        unit: 'MeV',
+        revealsTarget: true,
+        series: samples => [
+            { key: 'kineticEnergy', values: samples.kineticEnergy, color: '#f59e0b' },
+            { key: 'potentialEnergy', values: samples.potentialEnergy, color: '#f472b6' },
+            { key: 'totalEnergy', values: samples.kineticEnergy.map((k, i) => k + samples.potentialEnergy[i]), color: '#e2e8f0' },
+        ],
+        format: (value, format) => format.fixed(value, 3),
+    },
+    {
+        key: 'force',
+        unit: 'N',
+        revealsTarget: true,
+        series: samples => [{ key: 'force', values: samples.force, color: '#c084fc' }],
+        format: (value, format) => format.exponential(value, 2),
+    },
+];
+
+const TracePlot: React.FC<{ samples: TraceSamples; plot: TracePlotSpec; figureCaption: string }> = ({ samples, plot, figureCaption }) => {
+    const { locale, t, format } = useI18n();
+    const chartRef = useRef<ChartJS<'scatter'>>(null);
+    const series = plot.series(samples);
+    const chartData = {
+        datasets: series.map(({ key, values, color }) => ({
+            label: t.inspector.series[key],
+            data: values.map((y, i) => ({ x: samples.time[i] / ZEPTOSECOND, y })),
+            borderColor: color,
+            backgroundColor: color,
+            showLine: true,
+            pointRadius: 0,
+            borderWidth: 1.5,
+        })),
+    };
+
+    const options: ChartOptions<'scatter'> = {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: false,
+        locale,
+        scales: {
+            x: {
+                type: 'linear',
+                position: 'bottom',
+                title: { display: true, text: t.inspector.timeAxis, color: '#a0aec0' },
+                ticks: { color: '#a0aec0' },
+                grid: { color: '#4a5568' },
+            },
+            y: {
+                title: { display: true, text: plot.unit, color: '#a0aec0' },
+                ticks: { color: '#a0aec0' },
+                grid: { color: '#4a5568' },
+            },
+        },
+        plugins: {
+            legend: { display: series.length > 1, labels: { color: '#a0aec0', boxWidth: 12 } },
+            tooltip: {
+                ...tooltipStyle,
+                callbacks: {
+                    label: (context: TooltipItem<'scatter'>) => `${context.dataset.label}: ${plot.format(context.parsed.y ?? 0, format)} ${plot.unit}`,
+                },
+            },
+        },
+    };
+
+    const buildFigure = (options: FigureOptions) => chartRef.current
+        ? chartFigure(chartRef.current, { x: t.inspector.timeAxis, y: plot.unit }, options)
+        : null;
+
+    return (
+        <div className="space-y-1">
+            <div className="flex items-center justify-center gap-2">
+                <h3 className="text-sm font-semibold text-gray-300">{t.inspector.plots[plot.key]}</h3>
+                <FigureExportMenu fileName={`particle-${plot.key}`} caption={figureCaption} buildFigure={buildFigure} />
+            </div>
+            <div style={{ height: 180 }}>
+                <Scatter ref={chartRef} options={options} data={chartData} />
+            </div>
+        </div>
+    );
+};
+
+const ParticleInspector: React.FC<ParticleInspectorProps> = ({ trace, particleId, color, canJumpToClosestApproach, onJumpToClosestApproach, onClose, isTargetHidden = false, figureCaption }) => {
+    const { t, format } = useI18n();
+    const stats = trace && [
+        { label: t.inspector.impactParameter, value: `${format.fixed(trace.impactParameter, 1)} fm` },
+        { label: t.inspector.labAngle, value: `${format.fixed(trace.labAngle, 2)}°` },
+        { label: t.inspector.cmAngle, value: `${format.fixed(trace.cmAngle, 2)}°` },
+        { label: t.inspector.closestApproach, value: `${format.fixed(trace.closestApproach, 1)} fm` },
+        { label: t.inspector.timeOfFlight, value: `${format.fixed(trace.timeOfFlight / ZEPTOSECOND, 1)} zs` },
+        ...(trace.azimuth !== null ? [{ label: t.inspector.azimuth, value: `${format.fixed(trace.azimuth, 1)}°` }] : []),
+    ];
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                    <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: color }} />
+                    <h2 className="text-xl font-semibold text-cyan-400">{t.inspector.title(format.integer(particleId))}</h2>
+                    <Tooltip title={t.explanations.inspector.title} content={t.explanations.inspector.content} />
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        type="button"
+                        onClick={onJumpToClosestApproach}
+                        disabled={!canJumpToClosestApproach}
+                        className="px-3 py-1 text-sm text-white bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {t.inspector.jumpToClosestApproach}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        aria-label={t.inspector.close}
+                        className="px-2 py-1 text-sm text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors"
+                    >
+                        ✕
+                    </button>
+                </div>
+            </div>
+            {trace && stats ? (
+                <>
+                    <div className={`grid grid-cols-2 ${stats.length > 5 ? 'md:grid-cols-6' : 'md:grid-cols-5'} gap-3 text-sm`}>
+                        {stats.map(stat => (
+                            <div key={stat.label} className="bg-gray-900 rounded-md p-2 text-center">
+                                <div className="text-gray-400">{stat.label}</div>
+                                <div className="font-mono font-bold text-cyan-300">{stat.value}</div>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {TRACE_PLOTS.filter(plot => !isTargetHidden || !plot.revealsTarget).map(plot => (
+                            <TracePlot key={plot.key} samples={trace.samples} plot={plot} figureCaption={`${t.inspector.title(format.integer(particleId))} · ${figureCaption}`} />
+                        ))}
+                    </div>
+                </>
+            ) : (
+                <p className="text-center text-sm text-gray-500">{t.inspector.tracing}</p>
+            )}
+        </div>
+    );
+};
+
+// --- From components/ChallengePanel.tsx ---
+const randomChallengeNumber = () => 1 + Math.floor(Math.random() * MAX_CHALLENGE_NUMBER);
+
+const scoreMessage = (score: number, t: Messages) => {
+    if (score >= 90) return t.challenge.scoreExcellent;
+    if (score >= 60) return t.challenge.scoreGood;
+    return t.challenge.scoreLow;
+};
+
+interface ChallengePanelProps {
+    challenge: Challenge | null;
+    fit: HeadOnFit | null;
+    settings: SimulationSettings;
+    canFit: boolean;
+    onStart: (number: number, isEnergyHidden: boolean) => void;
+    onFit: () => void;
+    onSubmit: (targetZ: number, energy: number | null) => void;
+    onEnd: () => void;
+}
+
+const ChallengePanel: React.FC<ChallengePanelProps> = ({ challenge, fit, settings, canFit, onStart, onFit, onSubmit, onEnd }) => {
+    const { t, format } = useI18n();
+    const [challengeNumber, setChallengeNumber] = useState(randomChallengeNumber);
+    const [isEnergyHidden, setIsEnergyHidden] = useState(false);
+    const [zEstimate, setZEstimate] = useState(MYSTERY_Z_RANGE.min);
+    const [energyEstimate, setEnergyEstimate] = useState(MYSTERY_ENERGY_RANGE.min);
+    const buttonClass = 'px-3 py-1.5 text-sm font-semibold text-white bg-gray-600 rounded-md hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors';
+
+    // The charge follows from d only through the energy, which is either known or the student's own estimate.
+    const energyForZ = challenge?.isEnergyHidden ? energyEstimate : settings.energy;
+    const fittedZ = useMemo(
+        () => (fit && energyForZ > 0 ? targetZFromHeadOnDistance(fit.headOnDistance, { ...settings, energy: energyForZ }) : null),
+        [fit, energyForZ, settings],
+    );
+
+    const handleStart = () => {
+        setZEstimate(MYSTERY_Z_RANGE.min);
+        setEnergyEstimate(MYSTERY_ENERGY_RANGE.min);
+        onStart(challengeNumber, isEnergyHidden);
+    };
+
+    const header = (
+        <div className="flex items-center justify-center gap-2">
+            <h2 className="text-xl font-semibold text-cyan-400">{t.challenge.title}</h2>
+            <Tooltip title={t.explanations.challenge.title} content={t.explanations.challenge.content} />
+        </div>
+    );
+
+    if (!challenge) {
+        return (
+            <div className="space-y-3">
+                {header}
+                <NumberInput
+                    label={t.challenge.number}
+                    tooltip={t.explanations.challenge}
+                    value={challengeNumber}
+                    min={1}
+                    max={MAX_CHALLENGE_NUMBER}
+                    onChange={(value) => setChallengeNumber(Math.min(MAX_CHALLENGE_NUMBER, Math.max(1, Math.floor(value))))}
+                >
+                    <button
+                        type="button"
+                        onClick={() => setChallengeNumber(randomChallengeNumber())}
+                        className="p-2 text-white bg-gray-600 rounded-md hover:bg-gray-700 transition-colors"
+                        title={t.challenge.newNumber}
+                    >
+                        <Icon name="dice" className="w-5 h-5" />
+                    </button>
+                </NumberInput>
+                <ToggleSwitch label={t.challenge.hideEnergy} tooltip={t.explanations.challenge} enabled={isEnergyHidden} onChange={setIsEnergyHidden} />
+                <button type="button" className={`w-full ${buttonClass}`} onClick={handleStart}>{t.challenge.start}</button>
+            </div>
+        );
+    }
+
+    const { answer, result } = challenge;
+    if (result) {
+        const rows = [
+            { label: t.challenge.targetZ, answer: `${answer.targetZ} (A = ${massNumberFromZ(answer.targetZ)})`, estimate: `${result.targetZ}` },
+            ...(result.energy !== null ? [{ label: t.challenge.energy, answer: `${format.number(answer.energy)} MeV`, estimate: `${format.number(result.energy)} MeV` }] : []),
+        ];
+        return (
+            <div className="space-y-3">
+                {header}
+                <div className="text-center">
+                    <div className="text-sm text-gray-400">{t.challenge.score(challenge.number)}</div>
+                    <div className="text-4xl font-bold font-mono text-amber-400">{result.score}</div>
+                    <p className="mt-1 text-sm text-gray-300">{scoreMessage(result.score, t)}</p>
+                </div>
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-gray-400">
+                            <th className="px-2 py-1 text-left font-normal"></th>
+                            <th className="px-2 py-1 text-right font-normal">{t.challenge.answer}</th>
+                            <th className="px-2 py-1 text-right font-normal">{t.challenge.estimate}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(row => (
+                            <tr key={row.label} className="border-t border-gray-700">
+                                <td className="px-2 py-1 text-gray-300">{row.label}</td>
+                                <td className="px-2 py-1 text-right font-mono text-cyan-300">{row.answer}</td>
+                                <td className="px-2 py-1 text-right font-mono text-gray-200">{row.estimate}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <button type="button" className={`w-full ${buttonClass}`} onClick={onEnd}>{t.challenge.finish}</button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            {header}
+            <p className="text-center text-sm text-gray-400">
+                {t.challenge.hidden(challenge.number, challenge.isEnergyHidden)}
+            </p>
+            <button type="button" className={`w-full ${buttonClass}`} disabled={!canFit} onClick={onFit}>{t.challenge.fit}</button>
+            {fit ? (
+                <div className="bg-gray-900 rounded-md p-2 text-center text-sm">
+                    <div className="text-gray-400">{t.challenge.fittedDistance(format.integer(fit.pointCount))}</div>
+                    <div className="font-mono font-bold text-amber-400">d = {format.fixed(fit.headOnDistance, 2)} ± {format.fixed(fit.uncertainty, 2)} fm</div>
+                    {fittedZ !== null && (
+                        <div className="mt-1 flex items-center justify-center gap-2">
+                            <span className="text-gray-300">
+                                {t.challenge.fittedZ(format.number(energyForZ))} <span className="font-mono text-cyan-300">{fittedZ}</span>
+                            </span>
+                            <button type="button" className="px-2 py-0.5 text-xs text-gray-300 bg-gray-700 rounded hover:bg-gray-600" onClick={() => setZEstimate(fittedZ)}>
+                                {t.challenge.useEstimate}
+                            </button>
+                        </div>
+                    )}
+                </div>
+            ) : (
+                <p className="text-center text-sm text-gray-500">{t.challenge.fitHint}</p>
+            )}
+            {challenge.isEnergyHidden && (
+                <NumberInput label={t.challenge.energyEstimate} tooltip={t.explanations.challenge} value={energyEstimate} min={0} onChange={(value) => setEnergyEstimate(Math.max(0, value))} />
+            )}
+            <NumberInput label={t.challenge.zEstimate} tooltip={t.explanations.challenge} value={zEstimate} min={1} max={118} onChange={(value) => setZEstimate(Math.min(118, Math.max(1, Math.round(value))))} />
+            <div className="flex gap-2">
+                <button
+                    type="button"
+                    className={`flex-1 ${buttonClass}`}
+                    onClick={() => onSubmit(zEstimate, challenge.isEnergyHidden ? energyEstimate : null)}
+                >
+                    {t.challenge.submit}
+                </button>
+                <button type="button" className={buttonClass} onClick={onEnd}>{t.challenge.giveUp}</button>
+            </div>
+        </div>
+    );
+};
+
+// --- From App.tsx ---
+// Stable empty props for the comparison canvas, which has no detectors or recoil tracks.
+const NO_POINTS: Vector2D[] = [];
+const NO_DETECTORS: Detector[] = [];
+const NO_DETECTOR_COUNTS: Record<number, number> = {};
+const ignoreDetectorMove = () => {};
+const NO_AZIMUTHS: number[] = []; // Until a 3D run has finished
+
+const URL_UPDATE_DELAY_MS = 300;
+const CLOSEST_APPROACH_FIT_FACTOR = 4; // The fit button frames this many closest-approach distances
+const THOMSON_FIT_FACTOR = 1.1;
+const HIDDEN_TARGET_DRAWN_Z = 50; // A hidden nucleus is drawn at one size, which would otherwise hint at its charge.
+
+// Streamed updates carry only new points; exports need the whole path. The packed buffers are
+// kept as they arrive and only unpacked for an export.
+interface PathHistory {
+    trajectories: Float32Array[];
+    recoil: Float32Array[];
+    comparison: Float32Array[];
+}
+
+const emptyPathHistory = (): PathHistory => ({ trajectories: [], recoil: [], comparison: [] });
+
+
+const App: React.FC = () => {
+    const { t, format } = useI18n();
+    // Links carry the whole setup in the query string; without one this is just the defaults.
+    const [settings, setSettings] = useState<SimulationSettings>(() => settingsFromSearch(window.location.search));
+    const [layout, setLayout] = useState<ReplayLayout>(EMPTY_LAYOUT);
+    const [positions, setPositions] = useState<FramePositions>(EMPTY_POSITIONS);
     const [status, setStatus] = useState<SimulationStatus>('idle');
     const [scatterData, setScatterData] = useState<ScatterPoint[]>([]);
-    const [newPaths, setNewPaths] = useState<PathUpdate>({});
+    const [newPaths, setNewPaths] = useState<Float32Array>(EMPTY_PATH_BUFFER);
+    const [newRecoilPaths, setNewRecoilPaths] = useState<Float32Array>(EMPTY_PATH_BUFFER);
+    const [newPaths3D, setNewPaths3D] = useState<Float32Array>(EMPTY_PATH_BUFFER);
+    const [cmScatterData, setCmScatterData] = useState<ScatterPoint[]>([]);
+    const [classicalScatterData, setClassicalScatterData] = useState<ScatterPoint[] | null>(null);
+    const [classicalCmScatterData, setClassicalCmScatterData] = useState<ScatterPoint[] | null>(null);
+    const [frame, setFrame] = useState<ReferenceFrame>('lab');
     const [simulationId, setSimulationId] = useState(0);
+    const [diagnostics, setDiagnostics] = useState<ConservationDiagnostic[]>([]);
+    const [runSettings, setRunSettings] = useState<SimulationSettings | null>(null);
+    const [detectors, setDetectors] = useState<Detector[]>([
+        { id: 0, angle: 30, width: 10, color: DETECTOR_COLORS[0] },
+    ]);
+    const [detectorHits, setDetectorHits] = useState<Record<number, number[]>>({});
+    const [simulationTime, setSimulationTime] = useState(0);
+    const [nuclei, setNuclei] = useState<Vector2D[]>([]);
+    const [electrons, setElectrons] = useState<Vector2D[]>([]);
+    const [comparisonNewPaths, setComparisonNewPaths] = useState<Float32Array>(EMPTY_PATH_BUFFER);
+    const [comparisonElectrons, setComparisonElectrons] = useState<Vector2D[]>([]);
+    const [comparisonScatterData, setComparisonScatterData] = useState<ScatterPoint[] | null>(null);
+    const [comparisonCmScatterData, setComparisonCmScatterData] = useState<ScatterPoint[] | null>(null);
+    const [referenceScatterData, setReferenceScatterData] = useState<ScatterPoint[] | null>(null);
+    const [sweepPlan, setSweepPlan] = useState<SweepPlan | null>(null);
+    const [sweepSummaries, setSweepSummaries] = useState<RunSummary[]>([]);
+    const [isSweeping, setIsSweeping] = useState(false);
+    const [finishedRun, setFinishedRun] = useState<FinishedPayload | null>(null);
+    const [importedRun, setImportedRun] = useState<ImportedRun | null>(null);
+    const [importError, setImportError] = useState<RunFileError | null>(null);
+    const [userPresets, setUserPresets] = useState<ExperimentPreset[]>(loadUserPresets);
+    const [recordedFrameCount, setRecordedFrameCount] = useState(0);
+    const [replayFrameIndex, setReplayFrameIndex] = useState<number | null>(null);
+    const [replayParticles, setReplayParticles] = useState<ReplayParticle[]>([]); // In recording order
+    const [inspectedParticleId, setInspectedParticleId] = useState<number | null>(null);
+    const [particleTrace, setParticleTrace] = useState<ParticleTrace | null>(null);
+    const [pinnedRuns, setPinnedRuns] = useState<PinnedRun[]>([]);
+    const [isGhostingPinnedRuns, setIsGhostingPinnedRuns] = useState(false);
+    const [overlayToggles, setOverlayToggles] = useState<OverlayToggles>(NO_OVERLAYS);
+    const [potentialField, setPotentialField] = useState<PotentialField | null>(null);
+    const [forces, setForces] = useState<Float32Array | null>(null);
+    const [challenge, setChallenge] = useState<Challenge | null>(null);
+    const [challengeFit, setChallengeFit] = useState<HeadOnFit | null>(null);
 
     const workerRef = useRef<Worker | null>(null);
+    const pathHistoryRef = useRef<PathHistory>(emptyPathHistory());
+    const layoutRef = useRef<ReplayLayout>(EMPTY_LAYOUT); // For reading positions inside the worker handler
+    const recordingRef = useRef<ReplayRecording | null>(null);
+    // An imported run waits for the worker to rebuild its target, then replaces the fresh run.
+    const pendingImportRef = useRef<{ run: RunFile; fileName: string } | null>(null);
+    const startAfterResetRef = useRef(false);
+    const nextPinnedRunIdRef = useRef(0);
+    // One potential sample at a time; while it is computed only the latest view waits its turn.
+    const fieldRequestRef = useRef<{ isPending: boolean; next: FieldRegion | null }>({ isPending: false, next: null });
+
+    const postToWorker = useCallback((request: WorkerRequest) => {
+        workerRef.current?.postMessage(request);
+    }, []);
 
     useEffect(() => {
-        const blob = new Blob([workerCode], { type: 'application/javascript' });
-        const workerUrl = URL.createObjectURL(blob);
-        const worker = new Worker(workerUrl);
+        const worker = new Worker(new URL('./simulation/worker.ts', import.meta.url), { type: 'module' });
         workerRef.current = worker;
 
-        worker.onmessage = (e: MessageEvent<{ type: string, payload?: any }>) => {
-            const { type, payload } = e.data;
-            switch (type) {
-                case 'update':
-                    if (payload) {
-                        setParticles(payload.particles);
-                        if (Object.keys(payload.newPaths).length > 0) {
-                            setNewPaths(payload.newPaths);
-                        }
+        const applyResults = (payload: FinishedPayload) => {
+            setFinishedRun(payload);
+            setScatterData(payload.scatterData);
+            setCmScatterData(payload.cmScatterData);
+            setDiagnostics(payload.diagnostics);
+            setRunSettings(payload.settings);
+            setReferenceScatterData(payload.referenceScatterData);
+            setClassicalScatterData(payload.classicalScatterData);
+            setClassicalCmScatterData(payload.classicalCmScatterData);
+            setComparisonScatterData(payload.comparisonScatterData);
+            setComparisonCmScatterData(payload.comparisonCmScatterData);
+        };
+
+        worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+            const message = e.data;
+            switch (message.type) {
+                case 'update': {
+                    const { payload } = message;
+                    setPositions(framePositions(layoutRef.current, payload.positions));
+                    const history = pathHistoryRef.current;
+                    if (recordingRef.current && payload.frames.length > 0) {
+                        appendReplayFrames(recordingRef.current, payload.frames);
+                        setRecordedFrameCount(recordingRef.current.frameCount);
+                    }
+                    if (payload.newPaths.length > 0) {
+                        history.trajectories.push(payload.newPaths);
+                        setNewPaths(payload.newPaths);
+                    }
+                    if (payload.newRecoilPaths.length > 0) {
+                        history.recoil.push(payload.newRecoilPaths);
+                        setNewRecoilPaths(payload.newRecoilPaths);
+                    }
+                    if (payload.newPaths3D.length > 0) setNewPaths3D(payload.newPaths3D);
+                    if (payload.comparisonNewPaths.length > 0) {
+                        history.comparison.push(payload.comparisonNewPaths);
+                        setComparisonNewPaths(payload.comparisonNewPaths);
+                    }
+                    if (payload.diagnostics) setDiagnostics(payload.diagnostics);
+                    setForces(payload.forces);
+                    setSimulationTime(payload.simulationTime);
+                    const hitUpdate: DetectorHitUpdate = payload.detectorHits;
+                    if (Object.keys(hitUpdate).length > 0) {
+                        setDetectorHits(prev => {
+                            const next = { ...prev };
+                            for (const idStr in hitUpdate) {
+                                const id = Number(idStr);
+                                next[id] = [...(next[id] || []), ...hitUpdate[id]];
+                            }
+                            return next;
+                        });
                     }
                     break;
-                case 'finished':
+                }
+                case 'finished': {
+                    const { payload } = message;
                     setStatus('paused');
-                    if (payload && payload.scatterData) {
-                       setScatterData(payload.scatterData);
-                    }
+                    applyResults(payload);
                     break;
-                case 'resetComplete':
-                    if (payload) {
+                }
+                case 'resetComplete': {
+                    const { payload } = message;
+                    if (startAfterResetRef.current) {
+                        startAfterResetRef.current = false;
+                        postToWorker({ type: 'start' });
+                        setStatus('running');
+                    } else {
                         setStatus('idle');
-                        setSimulationId(id => id + 1);
-                        setParticles(payload.particles);
-                        setNewPaths(payload.initialPaths);
-                        setScatterData([]);
                     }
+                    setSimulationId(id => id + 1);
+                    layoutRef.current = payload.replayLayout;
+                    setLayout(payload.replayLayout);
+                    setPositions(framePositions(payload.replayLayout, payload.positions));
+                    setReplayParticles(payload.particles.map(({ id, impactParameter }) => ({ id, impactParameter })));
+                    setNewPaths(payload.initialPaths);
+                    setNewRecoilPaths(EMPTY_PATH_BUFFER);
+                    setNewPaths3D(payload.initialPaths3D);
+                    setScatterData([]);
+                    setCmScatterData([]);
+                    setDiagnostics([]);
+                    setRunSettings(payload.settings);
+                    setDetectorHits({});
+                    setSimulationTime(0);
+                    setNuclei(payload.nuclei);
+                    setElectrons(payload.electrons);
+                    setComparisonNewPaths(EMPTY_PATH_BUFFER);
+                    setComparisonElectrons(payload.comparison ? payload.comparison.electrons : []);
+                    setComparisonScatterData(null);
+                    setComparisonCmScatterData(null);
+                    setReferenceScatterData(null);
+                    setClassicalScatterData(null);
+                    setClassicalCmScatterData(null);
+                    setFinishedRun(null);
+                    setPotentialField(null);
+                    setForces(null);
+                    setChallengeFit(null);
+                    pathHistoryRef.current = { ...emptyPathHistory(), trajectories: [payload.initialPaths] };
+                    recordingRef.current = createReplayRecording(payload.replayLayout);
+                    setRecordedFrameCount(0);
+                    setReplayFrameIndex(null);
+                    setInspectedParticleId(null);
+                    setParticleTrace(null);
+
+                    const pending = pendingImportRef.current;
+                    pendingImportRef.current = null;
+                    setImportedRun(pending ? { fileName: pending.fileName, exportedAt: pending.run.exportedAt } : null);
+                    if (pending) {
+                        const { run } = pending;
+                        applyResults({ ...run.results, settings: run.settings });
+                        const restored = snapshotPositions(run);
+                        layoutRef.current = restored.layout;
+                        setLayout(restored.layout);
+                        setPositions(restored.positions);
+                        setReplayParticles([]);
+                        const paths = {
+                            trajectories: packPaths(run.paths?.trajectories || {}),
+                            recoil: packPaths(run.paths?.recoil || {}),
+                            comparison: packPaths(run.paths?.comparison || {}),
+                        };
+                        pathHistoryRef.current = { trajectories: [paths.trajectories], recoil: [paths.recoil], comparison: [paths.comparison] };
+                        recordingRef.current = null; // Run files hold no frames, so there is nothing to replay.
+                        setNewPaths(paths.trajectories);
+                        setNewRecoilPaths(paths.recoil);
+                        setComparisonNewPaths(paths.comparison);
+                    }
+                    break;
+                }
+                case 'sweepProgress': {
+                    const { index, summary } = message.payload;
+                    setSweepSummaries(prev => {
+                        const next = [...prev];
+                        next[index] = summary;
+                        return next;
+                    });
+                    break;
+                }
+                case 'sweepComplete':
+                    setIsSweeping(false);
+                    break;
+                case 'trace':
+                    setParticleTrace(message.payload);
+                    break;
+                case 'field': {
+                    setPotentialField(message.payload);
+                    const fieldRequest = fieldRequestRef.current;
+                    fieldRequest.isPending = fieldRequest.next !== null;
+                    if (fieldRequest.next) postToWorker({ type: 'field', payload: fieldRequest.next });
+                    fieldRequest.next = null;
+                    break;
+                }
+                case 'forces':
+                    setForces(message.payload);
                     break;
             }
         };
 
         return () => {
             worker.terminate();
-            URL.revokeObjectURL(workerUrl);
         };
+    }, [postToWorker]);
+
+    useEffect(() => {
+        postToWorker({ type: 'detectors', payload: { detectors } });
+    }, [detectors, postToWorker]);
+
+    useEffect(() => {
+        postToWorker({ type: 'forces', payload: { enabled: overlayToggles.forces } });
+    }, [overlayToggles.forces, postToWorker]);
+
+    const clearDetectorHits = (id: number) => {
+        setDetectorHits(prev => {
+            const next = { ...prev };
+            delete next[id];
+            return next;
+        });
+    };
+    const handleDetectorChange = useCallback((id: number, changes: Partial<Pick<Detector, 'angle' | 'width'>>) => {
+        setDetectors(prev => prev.map(d => (d.id === id ? { ...d, ...changes } : d)));
+        clearDetectorHits(id);
     }, []);
+    const handleDetectorMove = useCallback((id: number, angle: number) => {
+        handleDetectorChange(id, { angle });
+    }, [handleDetectorChange]);
+    const handleAddDetector = () => {
+        setDetectors(prev => {
+            const id = prev.reduce((max, d) => Math.max(max, d.id), -1) + 1;
+            const color = DETECTOR_COLORS.find(c => !prev.some(d => d.color === c)) || DETECTOR_COLORS[0];
+            return [...prev, { id, angle: 90, width: 10, color }];
+        });
+    };
+    const handleRemoveDetector = (id: number) => {
+        setDetectors(prev => prev.filter(d => d.id !== id));
+        clearDetectorHits(id);
+    };
+    const detectorCounts = useMemo(() => {
+        const counts: Record<number, number> = {};
+        for (const idStr in detectorHits) {
+            counts[Number(idStr)] = detectorHits[Number(idStr)].length;
+        }
+        return counts;
+    }, [detectorHits]);
 
     const resetSimulation = useCallback(() => {
-        if (workerRef.current) {
-            workerRef.current.postMessage({ type: 'reset', payload: { settings } });
-        }
-    }, [settings]);
+        postToWorker({
+            type: 'reset',
+            payload: {
+                settings,
+                projectile: resolveProjectile(settings),
+                target: { massNumber: resolveTargetMassNumber(settings), mass: resolveTargetMass(settings) },
+            },
+        });
+    }, [settings, postToWorker]);
 
     useEffect(() => {
         resetSimulation();
     }, [resetSimulation]);
+
+    // A hidden target is in the settings, so the address bar must not show them until it is revealed.
+    const isTargetHidden = challenge !== null && challenge.result === null;
+
+    // Debounced, as browsers limit how often the URL may be replaced while a slider is dragged.
+    useEffect(() => {
+        if (isTargetHidden) return;
+        const timer = setTimeout(() => window.history.replaceState(null, '', settingsToSearch(settings)), URL_UPDATE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [settings, isTargetHidden]);
+
+    useEffect(() => {
+        saveUserPresets(userPresets);
+    }, [userPresets]);
+    const presets = useMemo<ExperimentPreset[]>(
+        () => [...BUILT_IN_PRESETS.map(preset => ({ ...preset, ...t.presets[preset.id] })), ...userPresets],
+        [t, userPresets]
+    );
+
+    // Scrubbing the timeline holds the live run where it is.
+    useEffect(() => {
+        if (replayFrameIndex !== null && status === 'running') {
+            postToWorker({ type: 'pause' });
+            setStatus('paused');
+        }
+    }, [replayFrameIndex, status, postToWorker]);
+    // recordedFrameCount stands in for the recording held in the ref.
+    const replayView = useMemo(
+        () => (replayFrameIndex !== null && recordingRef.current && recordedFrameCount > 0 ? replayFrame(recordingRef.current, replayFrameIndex) : null),
+        [replayFrameIndex, recordedFrameCount],
+    );
+    const replayTime = recordingRef.current && recordedFrameCount > 0
+        ? replayFrameTime(recordingRef.current, replayFrameIndex ?? recordedFrameCount - 1)
+        : 0;
+    const displayedPositions = replayView || positions;
+    const closestApproachFitRadius = useMemo(() => {
+        const measured = finishedRun ? finishedRun.closestApproaches.reduce((min, d) => Math.min(min, d), Infinity) : Infinity;
+        const closest = measured > 0 && Number.isFinite(measured) ? measured : scatteringKinematics(settings, 'cm').headOnDistance;
+        return CLOSEST_APPROACH_FIT_FACTOR * closest * 1e-15;
+    }, [finishedRun, settings]);
+    const handleSeekReplay = useCallback((frame: number) => setReplayFrameIndex(frame), []);
+    const handleLiveView = useCallback(() => setReplayFrameIndex(null), []);
+    const handleJumpToClosestApproach = (particleIndex: number) => {
+        if (!recordingRef.current) return;
+        setReplayFrameIndex(closestApproachFrame(recordingRef.current, particleIndex, nuclei));
+    };
+    const handleSelectParticle = useCallback((particleId: number | null) => {
+        setInspectedParticleId(particleId);
+        setParticleTrace(null);
+        if (particleId !== null) postToWorker({ type: 'trace', payload: { particleId } });
+    }, [postToWorker]);
+    const inspectedRecordingIndex = inspectedParticleId === null || !recordingRef.current
+        ? -1
+        : recordingRef.current.layout.particles.findIndex(p => p.id === inspectedParticleId);
     
+    // Foil nuclei never recoil, so there the two frames coincide.
+    const displayedFrame: ReferenceFrame = settings.targetMode !== 'foil' ? frame : 'lab';
+    const displayedScatterData = displayedFrame === 'cm' ? cmScatterData : scatterData;
+    const displayedClassicalData = displayedFrame === 'cm' ? classicalCmScatterData : classicalScatterData;
+    const displayedComparisonData = displayedFrame === 'cm' ? comparisonCmScatterData : comparisonScatterData;
+    const isSplitView = settings.isSplitView && settings.targetMode !== 'thomson' && !isThreeDimensionalRun(settings);
+    const isThreeDimensional = runSettings !== null && isThreeDimensionalRun(runSettings);
+    const pinnedSeries = useMemo(() => {
+        const labels = pinnedRunLabels(pinnedRuns, t, format);
+        return pinnedRuns
+            .map((run, i) => ({ run, label: labels[i] }))
+            .filter(({ run }) => run.isVisible)
+            .map(({ run, label }) => ({ label, color: run.color, data: displayedFrame === 'cm' ? run.results.cmScatterData : run.results.scatterData }));
+    }, [pinnedRuns, displayedFrame, t, format]);
+    const ghostPaths = useMemo(
+        () => isGhostingPinnedRuns ? pinnedRuns.filter(run => run.isVisible).map(run => ({ buffers: run.paths, color: run.color })) : undefined,
+        [pinnedRuns, isGhostingPinnedRuns],
+    );
+    const handleRequestField = useCallback((region: FieldRegion) => {
+        const fieldRequest = fieldRequestRef.current;
+        if (fieldRequest.isPending) {
+            fieldRequest.next = region;
+            return;
+        }
+        fieldRequest.isPending = true;
+        postToWorker({ type: 'field', payload: region });
+    }, [postToWorker]);
+    // U(d) = k·q₁·q₂ / d, which is E·d₀ / d for the bare head-on distance d₀ = k·q₁·q₂ / E.
+    const headOnGeometry = useMemo(() => {
+        const { headOnDistance } = scatteringKinematics(settings, 'cm');
+        const bareDistance = headOnDistanceFm(settings.energy, settings.targetZ, resolveProjectile(settings).charge);
+        return { headOnDistance: headOnDistance * 1e-15, turningEnergy: (settings.energy * bareDistance) / headOnDistance };
+    }, [settings]);
+    // Forces belong to the live run, not to a replayed frame or a run read from a file.
+    const inspectedTrace = particleTrace?.id === inspectedParticleId ? particleTrace : null;
+    // The potential, the forces and the head-on circle all scale with the charge, so they would give a hidden target away.
+    const canvasOverlays = useMemo((): CanvasOverlays => {
+        const isPotentialShown = overlayToggles.potential && !isTargetHidden;
+        return {
+            potentialField: isPotentialShown ? potentialField : null,
+            onRequestField: isPotentialShown ? handleRequestField : null,
+            forces: overlayToggles.forces && !isTargetHidden && !replayView && !importedRun ? forces : null,
+            isClosestApproachShown: overlayToggles.closestApproach && !isTargetHidden,
+            // Out of the plane of the canvas the projected asymptotes would not show the true θ.
+            asymptotes: overlayToggles.asymptotes && inspectedTrace && inspectedTrace.azimuth === null ? { incoming: inspectedTrace.incoming, outgoing: inspectedTrace.outgoing } : null,
+            ...headOnGeometry,
+        };
+    }, [overlayToggles, isTargetHidden, potentialField, handleRequestField, forces, replayView, importedRun, inspectedTrace, headOnGeometry]);
+    const fittedHeadOnDistance = displayedFrame === 'cm' && challengeFit ? challengeFit.headOnDistance : null;
+
+    const figureMystery = isTargetHidden && challenge ? { isEnergyHidden: challenge.isEnergyHidden } : null;
+    const trajectoryCaption = figureCaption(runSettings ?? settings, null, figureMystery, t, format);
+    const chartCaption = figureCaption(runSettings ?? settings, displayedFrame, figureMystery, t, format);
+
     const handleStart = () => {
-        workerRef.current?.postMessage({ type: 'start' });
+        setReplayFrameIndex(null);
+        // An imported run has no live state in the worker, so it starts over from the same settings.
+        if (importedRun) {
+            startAfterResetRef.current = true;
+            resetSimulation();
+            return;
+        }
+        postToWorker({ type: 'start' });
         setStatus('running');
     };
     const handleStop = () => {
-        workerRef.current?.postMessage({ type: 'pause' });
+        postToWorker({ type: 'pause' });
         setStatus('paused');
     };
     const handleReset = () => {
         resetSimulation();
     };
+    const handleRunSweep = (definition: SweepDefinition) => {
+        const runs = buildSweepRuns(settings, definition);
+        setSweepPlan({ definition, runs });
+        setSweepSummaries([]);
+        setIsSweeping(true);
+        postToWorker({ type: 'sweep', payload: { runs: runs.map(run => run.payload) } });
+    };
+    const handleCancelSweep = () => {
+        postToWorker({ type: 'cancelSweep' });
+        setIsSweeping(false);
+    };
+    const handleApplyPreset = (preset: ExperimentPreset) => {
+        setSettings(preset.settings);
+    };
+    const handleSavePreset = (name: string) => {
+        setUserPresets(prev => [...prev, {
+            id: `user-${Date.now()}`,
+            name,
+            settings,
+            isUserPreset: true,
+        }]);
+    };
+    const handleDeletePreset = (id: string) => {
+        setUserPresets(prev => prev.filter(preset => preset.id !== id));
+    };
+    const handleExport = (fileFormat: RunFileFormat, includePaths: boolean) => {
+        if (!finishedRun) return;
+        const fileName = `rutherford-run-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}`;
+        if (fileFormat === 'csv') {
+            downloadFile(`${fileName}.csv`, runToCsv(finishedRun), 'text/csv');
+        } else {
+            const { particles, comparisonParticles } = frameSnapshots(layout, positions);
+            const history = pathHistoryRef.current;
+            const paths = includePaths
+                ? { trajectories: unpackPaths(history.trajectories), recoil: unpackPaths(history.recoil), comparison: unpackPaths(history.comparison) }
+                : null;
+            const runFile = createRunFile(finishedRun, particles, comparisonParticles, paths);
+            downloadFile(`${fileName}.json`, JSON.stringify(runFile), 'application/json');
+        }
+    };
+    const handlePinRun = () => {
+        if (!finishedRun) return;
+        setPinnedRuns(prev => {
+            const color = PINNED_RUN_COLORS.find(c => !prev.some(run => run.color === c));
+            if (!color || prev.some(run => run.results === finishedRun)) return prev;
+            return [...prev, {
+                id: nextPinnedRunIdRef.current++,
+                color,
+                isVisible: true,
+                results: finishedRun,
+                paths: [...pathHistoryRef.current.trajectories],
+            }];
+        });
+    };
+    const handleTogglePinnedRun = (id: number) => {
+        setPinnedRuns(prev => prev.map(run => run.id === id ? { ...run, isVisible: !run.isVisible } : run));
+    };
+    const handleRemovePinnedRun = (id: number) => {
+        setPinnedRuns(prev => prev.filter(run => run.id !== id));
+    };
+    const handleStartChallenge = (number: number, isEnergyHidden: boolean) => {
+        const next = createChallenge(number, isEnergyHidden, Math.min(settings.energy, ENERGY_RANGES.standard.max));
+        setChallenge(next);
+        setChallengeFit(null);
+        setSettings(prev => challengeSettings(prev, next));
+    };
+    const handleFitChallenge = () => {
+        if (!finishedRun) return;
+        setChallengeFit(fitHeadOnDistance(finishedRun.cmScatterData));
+        setFrame('cm'); // The fit is made in the centre-of-mass frame and only drawn there.
+    };
+    const handleSubmitChallenge = (targetZ: number, energy: number | null) => {
+        setChallenge(prev => prev && gradeChallenge(prev, targetZ, energy));
+    };
+    const handleEndChallenge = () => {
+        setChallenge(null);
+        setChallengeFit(null);
+    };
+    const handleImport = (file: File) => {
+        file.text()
+            .then(text => {
+                const run = parseRunFile(text);
+                setImportError(null);
+                pendingImportRef.current = { run, fileName: file.name };
+                postToWorker({ type: 'pause' });
+                // The new settings reset the worker; the import is applied once that completes.
+                setSettings(run.settings);
+            })
+            .catch((error: unknown) => {
+                setImportError(error instanceof RunFileError ? error : new RunFileError('unreadable', String(error)));
+            });
+    };
 
     return (
         <div className="min-h-screen bg-gray-900 text-gray-100 flex flex-col items-center p-4 font-sans">
             <header className="w-full max-w-7xl text-center mb-4">
                 <div className="flex items-center justify-center gap-3">
-                    <h1 className="text-4xl font-bold text-cyan-400">러더퍼드 산란 시뮬레이터</h1>
+                    <h1 className="text-4xl font-bold text-cyan-400">{t.app.title}</h1>
                     <Tooltip 
-                        title={explanations.simulationTitle.title} 
-                        content={explanations.simulationTitle.content} 
+                        title={t.explanations.simulationTitle.title} 
+                        content={t.explanations.simulationTitle.content} 
                         position="bottom"
                     />
+                    <LanguageSwitcher />
                 </div>
-                <p className="text-gray-400 mt-1">원자핵에 쏘아진 알파입자의 운동</p>
+                <p className="text-gray-400 mt-1">{t.app.subtitle(t.projectiles[settings.projectile])}</p>
             </header>
             
             <main className="w-full max-w-7xl flex flex-col lg:flex-row gap-6">
                 <div className="flex-1 flex flex-col gap-6">
-                    <SimulationCanvas 
-                        particles={particles} 
-                        targetZ={settings.targetZ}
-                        newPaths={newPaths}
-                        simulationId={simulationId}
-                    />
+                    <div className={isSplitView ? 'grid grid-cols-1 md:grid-cols-2 gap-4' : ''}>
+                        <div>
+                            {isSplitView && <h2 className="text-lg font-semibold mb-2 text-cyan-400 text-center">{t.app.nuclearModel}</h2>}
+                            <SimulationCanvas 
+                                particles={layout.particles}
+                                positions={displayedPositions.particles}
+                                recoilPositions={displayedPositions.recoil}
+                                targetZ={isTargetHidden ? HIDDEN_TARGET_DRAWN_Z : settings.targetZ}
+                                newPaths={newPaths}
+                                newRecoilPaths={newRecoilPaths}
+                                simulationId={simulationId}
+                                nuclei={nuclei}
+                                electrons={electrons}
+                                isThomsonAtom={settings.targetMode === 'thomson'}
+                                detectors={detectors}
+                                detectorCounts={detectorCounts}
+                                onDetectorMove={handleDetectorMove}
+                                fitRadius={settings.targetMode === 'thomson' ? THOMSON_FIT_FACTOR * THOMSON_ATOM_RADIUS : closestApproachFitRadius}
+                                selectedParticleId={inspectedParticleId}
+                                onSelectParticle={handleSelectParticle}
+                                ghostPaths={ghostPaths}
+                                overlays={canvasOverlays}
+                                figureCaption={trajectoryCaption}
+                                figureFileName="trajectories"
+                            />
+                        </div>
+                        {isSplitView && (
+                            <div>
+                                <h2 className="text-lg font-semibold mb-2 text-red-300 text-center">{t.app.thomsonModel}</h2>
+                                <SimulationCanvas
+                                    particles={layout.comparisonParticles}
+                                    positions={displayedPositions.comparison}
+                                    recoilPositions={null}
+                                    targetZ={settings.targetZ}
+                                    newPaths={comparisonNewPaths}
+                                    newRecoilPaths={EMPTY_PATH_BUFFER}
+                                    simulationId={simulationId}
+                                    nuclei={NO_POINTS}
+                                    electrons={comparisonElectrons}
+                                    isThomsonAtom={true}
+                                    detectors={NO_DETECTORS}
+                                    detectorCounts={NO_DETECTOR_COUNTS}
+                                    onDetectorMove={ignoreDetectorMove}
+                                    fitRadius={THOMSON_FIT_FACTOR * THOMSON_ATOM_RADIUS}
+                                    figureCaption={`${t.app.thomsonModel} · ${trajectoryCaption}`}
+                                    figureFileName="thomson-trajectories"
+                                />
+                            </div>
+                        )}
+                    </div>
+                    <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+                        <OverlayControls toggles={overlayToggles} onChange={setOverlayToggles} isTargetHidden={isTargetHidden} />
+                    </div>
+                    {runSettings && isThreeDimensional && (
+                        <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+                            <BeamView3D
+                                particles={layout.particles}
+                                newPaths3D={newPaths3D}
+                                simulationId={simulationId}
+                                beamRadius={runSettings.beamMode === 'random' ? beamRadius(runSettings) : BEAM_RADIUS}
+                                detectors={detectors}
+                                detectorCounts={detectorCounts}
+                            />
+                        </div>
+                    )}
+                    {inspectedParticleId !== null && (
+                        <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+                            <ParticleInspector
+                                trace={inspectedTrace}
+                                particleId={inspectedParticleId}
+                                isTargetHidden={isTargetHidden}
+                                color={layout.particles.find(p => p.id === inspectedParticleId)?.color || '#e2e8f0'}
+                                canJumpToClosestApproach={inspectedRecordingIndex >= 0 && recordedFrameCount > 0}
+                                onJumpToClosestApproach={() => handleJumpToClosestApproach(inspectedRecordingIndex)}
+                                onClose={() => handleSelectParticle(null)}
+                                figureCaption={trajectoryCaption}
+                            />
+                        </div>
+                    )}
                     <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
-                        <h2 className="text-xl font-semibold mb-4 text-cyan-400 text-center">산란각 vs 충돌 계수</h2>
-                         <AngleDistributionChart data={scatterData} />
+                        <ReplayPanel
+                            frameCount={recordedFrameCount}
+                            frame={replayFrameIndex}
+                            frameTime={replayTime}
+                            frameInterval={recordingRef.current?.frameInterval ?? 1}
+                            particles={replayParticles}
+                            onSeek={handleSeekReplay}
+                            onLive={handleLiveView}
+                            onJumpToClosestApproach={handleJumpToClosestApproach}
+                        />
+                    </div>
+                    {!isTargetHidden && (
+                        <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+                            <RunFilePanel
+                                canExport={finishedRun !== null && status !== 'running'}
+                                importedRun={importedRun}
+                                importError={importError}
+                                onExport={handleExport}
+                                onImport={handleImport}
+                            />
+                        </div>
+                    )}
+                    <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+                        <DetectorPanel
+                            detectors={detectors}
+                            detectorHits={detectorHits}
+                            simulationTime={simulationTime}
+                            onAdd={handleAddDetector}
+                            onRemove={handleRemoveDetector}
+                            onChange={handleDetectorChange}
+                            isThreeDimensional={isThreeDimensional}
+                        />
+                    </div>
+                    <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+                        <h2 className="text-xl font-semibold mb-4 text-cyan-400 text-center">{t.app.angleChart}</h2>
+                        {runSettings && runSettings.beamMode === 'random' && (
+                            <p className="-mt-2 mb-4 text-center text-sm text-gray-400">
+                                {t.app.randomBeam} · {t.app.seed} <span className="font-mono text-cyan-400">{runSettings.seed}</span> · {t.app.particleCount(format.integer(runSettings.numParticles))}
+                            </p>
+                        )}
+                        {settings.targetMode !== 'foil' && (
+                            <div className="-mt-2 mb-2 flex justify-center">
+                                <div className="w-64">
+                                    <ToggleSwitch
+                                        label={t.app.centreOfMassFrame}
+                                        tooltip={t.explanations.referenceFrame}
+                                        enabled={frame === 'cm'}
+                                        onChange={(enabled) => setFrame(enabled ? 'cm' : 'lab')}
+                                    />
+                                </div>
+                            </div>
+                        )}
+                         <AngleDistributionChart data={displayedScatterData} referenceData={referenceScatterData} classicalData={displayedClassicalData} comparisonData={displayedComparisonData} settings={settings} frame={displayedFrame} pinnedSeries={pinnedSeries} isTheoryHidden={isTargetHidden} fittedHeadOnDistance={fittedHeadOnDistance} figureCaption={chartCaption} />
+                    </div>
+                    {isThreeDimensional && (
+                        <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+                            <AzimuthChart azimuths={finishedRun?.azimuths ?? NO_AZIMUTHS} figureCaption={trajectoryCaption} />
+                        </div>
+                    )}
+                    <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+                        <PinnedRunsPanel
+                            pinnedRuns={pinnedRuns}
+                            canPin={finishedRun !== null && status !== 'running' && !isTargetHidden && !pinnedRuns.some(run => run.results === finishedRun)}
+                            isGhosting={isGhostingPinnedRuns}
+                            onPin={handlePinRun}
+                            onToggle={handleTogglePinnedRun}
+                            onRemove={handleRemovePinnedRun}
+                            onClear={() => setPinnedRuns([])}
+                            onGhostingChange={setIsGhostingPinnedRuns}
+                        />
+                    </div>
+                    <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+                        <CrossSectionChart data={displayedScatterData} settings={settings} frame={displayedFrame} isTheoryHidden={isTargetHidden} fittedHeadOnDistance={fittedHeadOnDistance} figureCaption={chartCaption} />
+                    </div>
+                    {!isTargetHidden && (
+                        <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+                            <SweepPanel
+                                settings={settings}
+                                plan={sweepPlan}
+                                summaries={sweepSummaries}
+                                isSweeping={isSweeping}
+                                onRun={handleRunSweep}
+                                onCancel={handleCancelSweep}
+                            />
+                        </div>
+                    )}
+                    <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+                        <DiagnosticsPanel diagnostics={diagnostics} particles={layout.particles} isCentralForce={settings.targetMode === 'single'} />
                     </div>
                 </div>
 
-                <aside className="w-full lg:w-80 flex-shrink-0">
+                <aside className="w-full lg:w-80 flex-shrink-0 space-y-6">
+                    <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+                        <ChallengePanel
+                            challenge={challenge}
+                            fit={challengeFit}
+                            settings={settings}
+                            canFit={finishedRun !== null && status !== 'running'}
+                            onStart={handleStartChallenge}
+                            onFit={handleFitChallenge}
+                            onSubmit={handleSubmitChallenge}
+                            onEnd={handleEndChallenge}
+                        />
+                    </div>
+                    {!isTargetHidden && (
+                        <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+                            <PresetPanel
+                                settings={settings}
+                                presets={presets}
+                                onApply={handleApplyPreset}
+                                onSave={handleSavePreset}
+                                onDelete={handleDeletePreset}
+                            />
+                        </div>
+                    )}
                     <div className="bg-gray-800 p-4 rounded-lg shadow-lg sticky top-4">
                         <Controls 
                             settings={settings} 
@@ -806,6 +4340,7 @@ const App: React.FC = () => {
                             onStart={handleStart}
                             onStop={handleStop}
                             onReset={handleReset}
+                            mystery={isTargetHidden && challenge ? { isEnergyHidden: challenge.isEnergyHidden } : null}
                         />
                     </div>
                 </aside>
@@ -824,6 +4359,8 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <I18nProvider>
+      <App />
+    </I18nProvider>
   </React.StrictMode>
 );
@@ -0,0 +1,811 @@
+import { Bold, Highlight } from './richText';
+import type { Messages } from './ko';
+
+// Particle names start a title but sit mid-sentence everywhere else.
+const lower = (name: string) => name.charAt(0).toLowerCase() + name.slice(1);
+
+export const en: Messages = {
+    languageName: 'English',
+    explanations: {
+        simulationTitle: {
+            title: "What is Rutherford scattering?",
+            content: (
+                <>
+                    <p>This simulation recreates the Rutherford scattering experiment, which changed physics at the start of the 20th century.</p>
+                    <p>Before it, the atom was pictured as a 'plum pudding' with its positive charge spread throughout. When Rutherford's team fired alpha particles at gold foil, however, a tiny fraction bounced back at large angles.</p>
+                    <p>This was the first proof that <Highlight>"nearly all of an atom's mass and positive charge sit in a tiny centre, the nucleus"</Highlight>. With this simulator you can watch that great discovery happen for yourself.</p>
+                </>
+            )
+        },
+        focusMode: {
+            title: "Nucleus close-up",
+            content: (
+                <>
+                    <p>A mode for studying the region right around the nucleus, where the secret of scattering is hidden.</p>
+                    <p>Turn it on to aim hundreds of particles precisely at very small <Highlight>impact parameters (1–150 fm)</Highlight> and watch the scattering angle change dramatically.</p>
+                </>
+            )
+        },
+        analyticPrediction: {
+            title: "Rutherford prediction",
+            content: (
+                <>
+                    <p>Coulomb scattering off a point-charge nucleus can be solved exactly. The scattering angle is <Highlight>θ = 2·arctan(d / 2b)</Highlight>.</p>
+                    <p>Here <Bold>d</Bold> is how close a particle flying head-on gets to the nucleus; it grows as the energy falls and as Z rises. When the nucleus recoils, the centre-of-mass energy is used.</p>
+                    <p>The orange curve is this prediction. When the simulated points lie on it, the calculation agrees with the theory.</p>
+                </>
+            )
+        },
+        targetMassNumber: {
+            title: "Target mass number (A)",
+            content: (
+                <>
+                    <p>The number of nucleons, which sets the target nucleus's mass. Leave it empty to estimate the value of the most common isotope from Z.</p>
+                    <p>With a single nucleus, the nucleus is not infinitely heavy: the particle pushes it and it <Highlight>recoils</Highlight>. A heavy nucleus such as gold barely moves, but a light one with a small Z is visibly pushed away, and its path is drawn as a gold dashed line.</p>
+                    <p>In a foil the nuclei are taken to be bound in the lattice and are held fixed.</p>
+                </>
+            )
+        },
+        referenceFrame: {
+            title: "Lab frame and centre-of-mass frame",
+            content: (
+                <>
+                    <p>The <Bold>lab frame</Bold> is the one in which the target starts at rest and the real detectors stand.</p>
+                    <p>The <Bold>centre-of-mass frame</Bold> moves with the centre of mass of the particle and the nucleus. In it the two approach and separate with equal and opposite momenta, so Rutherford's formula holds exactly.</p>
+                    <p>With the mass ratio ρ = m/M the angles convert as <Highlight>tan θ_lab = sin θ_cm / (cos θ_cm + ρ)</Highlight>. When the particle is heavier than the target, the lab angle has a maximum.</p>
+                </>
+            )
+        },
+        residual: {
+            title: "Residual (simulation − theory)",
+            content: (
+                <>
+                    <p>Each particle's simulated scattering angle minus the predicted one.</p>
+                    <p>The <Highlight>closer to 0</Highlight>, the more accurate the numerical calculation. Particles that left the screen may keep a small residual because their paths had not fully straightened out yet.</p>
+                </>
+            )
+        },
+        crossSection: {
+            title: "Differential cross section (dσ/dΩ)",
+            content: (
+                <>
+                    <p>What Rutherford actually measured was <Bold>how many particles came out at each angle</Bold>. Expressed as an area per target nucleus, this is the differential cross section.</p>
+                    <p>Each particle stands for the ring of area <Highlight>2πb·db</Highlight> around its impact parameter b. The area landing in an angle bin is divided by that bin's solid angle.</p>
+                    <p>The orange curve is Rutherford's formula <Highlight>dσ/dΩ = (d/4)² / sin⁴(θ/2)</Highlight>. The error bars are the Poisson error (1/√N) for the N particles in each bin.</p>
+                </>
+            )
+        },
+        binCount: {
+            title: "Number of angle bins",
+            content: (
+                <>
+                    <p>How many bins 0°–180° is divided into for counting.</p>
+                    <p><Bold>More bins</Bold> give finer angular resolution, but fewer particles per bin and so larger error bars. Small-angle bins the range of impact parameters cannot reach are shown in grey.</p>
+                </>
+            )
+        },
+        beamMode: {
+            title: "Beam type",
+            content: (
+                <>
+                    <p><Bold>Evenly spaced impact parameters</Bold> lines the particles up at regular intervals. It shows the relation between impact parameter and scattering angle clearly.</p>
+                    <p>A <Bold>random beam</Bold> scatters particles over the beam's circular cross-section <Highlight>uniformly by area</Highlight>, like a real radioactive source. Fire thousands of particles to get the same statistics as a real experiment.</p>
+                    <p>With a random beam, the close-up mode narrows the beam radius to 150 fm.</p>
+                </>
+            )
+        },
+        seed: {
+            title: "Random seed",
+            content: (
+                <>
+                    <p>The starting value of the random numbers that make a random beam. Enter the <Highlight>same seed</Highlight> and you get exactly the same particles anywhere, any time.</p>
+                    <p>If a whole class uses one seed, everyone reproduces the same experiment. The seed is recorded with the results.</p>
+                </>
+            )
+        },
+        detector: {
+            title: "Scintillation detectors",
+            content: (
+                <>
+                    <p>Geiger and Marsden counted, one by one through a microscope, the <Bold>tiny flashes of light (scintillations)</Bold> an alpha particle makes when it strikes a zinc sulphide (ZnS) screen.</p>
+                    <p><Highlight>Drag</Highlight> a coloured arc on the screen to place a detector at any angle. Each particle that passes out through the arc is counted once.</p>
+                    <p>Moving a detector or changing its width restarts its count from 0.</p>
+                    <p>With a 3D beam a detector is a <Bold>cone</Bold> seen from the origin, half as wide as its width, and counts the particles leaving through its <Highlight>solid angle ΔΩ</Highlight>. The count is proportional to dσ/dΩ·ΔΩ.</p>
+                </>
+            )
+        },
+        targetMode: {
+            title: "Target type",
+            content: (
+                <>
+                    <p>A <Bold>single nucleus</Bold> fires the particles at one nucleus fixed at the origin.</p>
+                    <p>A <Bold>thin foil</Bold> lays out several layers of nuclei, like real gold foil. Particles pass many nuclei and are bent by small angles many times over; this is <Highlight>multiple scattering</Highlight>.</p>
+                    <p>In foil mode the same beam is also fired at a single nucleus, and the two results are compared on the chart. Beyond half the spacing between nuclei the force fades out smoothly, mimicking screening by the electrons.</p>
+                    <p>The <Bold>Thomson model</Bold> is the 'plum pudding' atom from before Rutherford. Its positive charge is spread evenly through a ball the size of the atom (about 100,000 fm), with electrons embedded in it. The whole screen lies at the heart of this atom.</p>
+                </>
+            )
+        },
+        splitView: {
+            title: "Compare the two models side by side",
+            content: (
+                <>
+                    <p>The same beam is fired at the <Bold>nuclear model</Bold> and the <Bold>Thomson (plum pudding) model</Bold> at once, and the results are compared on two screens and on the charts.</p>
+                    <p>In the Thomson model the positive charge is spread out, so the force is weak and the particles <Highlight>hardly bend</Highlight>. The light electrons cannot turn a heavy particle much either.</p>
+                    <p>The large-angle scattering Geiger and Marsden saw appears only in the nuclear model, and that is why the plum pudding model was abandoned.</p>
+                </>
+            )
+        },
+        foilLayers: {
+            title: "Foil thickness (atomic layers)",
+            content: (
+                <>
+                    <p>The number of atomic layers stacked along the beam.</p>
+                    <p><Bold>The more layers</Bold>, the more nuclei a particle passes, and the wider the spread from multiple scattering.</p>
+                </>
+            )
+        },
+        foilSpacing: {
+            title: "Nucleus spacing",
+            content: (
+                <>
+                    <p>The distance between neighbouring nuclei. Gold atoms are really about 300,000 fm apart, but they are packed far more tightly here to fit on the screen.</p>
+                </>
+            )
+        },
+        foilArrangement: {
+            title: "Nucleus arrangement",
+            content: (
+                <>
+                    <p>A <Bold>lattice</Bold> places the nuclei regularly, like a crystal; <Bold>random</Bold> places the same number irregularly within the foil. The random arrangement follows the random seed.</p>
+                </>
+            )
+        },
+        potential: {
+            title: "Interaction potential",
+            content: (
+                <>
+                    <p><Bold>Point-charge Coulomb</Bold> is the model Rutherford assumed, for which the scattering formula holds exactly.</p>
+                    <p><Bold>Screened Coulomb</Bold> adds the electrons around the nucleus, which hide its charge from far away. Small-angle scattering at large impact parameters drops off.</p>
+                    <p><Bold>Uniformly charged sphere</Bold> treats the nucleus as a ball of radius 1.25·A<sup>1/3</sup> fm. The force weakens once the particle is inside it.</p>
+                    <p><Bold>Woods–Saxon nuclear force</Bold> adds the pull of the strong force once the particle comes close enough to touch the nucleus. At high energy or small Z, look for the <Highlight>anomalous scattering</Highlight> that departs from Rutherford's formula on the residual chart.</p>
+                </>
+            )
+        },
+        projectile: {
+            title: "Projectile",
+            content: (
+                <>
+                    <p>The kind of particle fired at the target. Rutherford used <Bold>alpha particles</Bold> (helium nuclei).</p>
+                    <p>Each particle has its own <Bold>charge</Bold> and <Bold>mass</Bold>. Negatively charged particles such as electrons and muons are <Highlight>pulled in</Highlight> by the nucleus as they bend.</p>
+                    <p>Choose custom to set the charge (in e) and mass (in u) yourself.</p>
+                </>
+            )
+        },
+        relativistic: {
+            title: "Relativistic mechanics",
+            content: (
+                <>
+                    <p>Classical mechanics takes the speed to be <Highlight>v = √(2E/m)</Highlight>, which can exceed the speed of light for high energies or light particles.</p>
+                    <p>Turned on, the <Bold>momentum p = γmv</Bold> is integrated instead, so no particle ever outruns light. The classical paths for the same settings are computed as well, to show how much the scattering angles change.</p>
+                    <p>At the same kinetic energy a relativistic particle bends more; at small angles the ratio is <Highlight>2(E + mc²)/(E + 2mc²)</Highlight>. For a light particle such as the electron, the difference is large at just a few MeV.</p>
+                </>
+            )
+        },
+        energyRange: {
+            title: "Energy range",
+            content: (
+                <>
+                    <p>Sets the top of the kinetic energy slider. Rutherford's experiments were in the range of a few MeV.</p>
+                    <p>From hundreds of MeV up, even alpha particles approach the speed of light, so turn on <Bold>relativistic mechanics</Bold> as well.</p>
+                </>
+            )
+        },
+        integrator: {
+            title: "Numerical integration method",
+            content: (
+                <>
+                    <p>A computer solves the equations of motion one step at a time, in very short time intervals. The way each step is computed is called the <Bold>integrator</Bold>.</p>
+                    <p><Bold>Euler</Bold> is the simplest, but particles that come close to the nucleus gain or lose energy through its errors. <Bold>Velocity Verlet</Bold> and <Bold>RK4</Bold> are far more accurate at the same step.</p>
+                    <p><Highlight>Adaptive RK45</Highlight> measures its own error and shortens the step only near closest approach, where the force changes fastest.</p>
+                </>
+            )
+        },
+        diagnostics: {
+            title: "Conservation check",
+            content: (
+                <>
+                    <p>Under the Coulomb force alone, a particle's <Bold>total energy (E)</Bold> and its <Bold>angular momentum (L)</Bold> about the nucleus should not change.</p>
+                    <p>The table shows the change relative to the starting value. The <Highlight>closer to 0</Highlight>, the more accurate the calculation and the more that particle's scattering angle can be trusted.</p>
+                </>
+            )
+        },
+        sweep: {
+            title: "Parameter sweep",
+            content: (
+                <>
+                    <p>Runs the simulation <Bold>many times automatically</Bold>, varying the energy, the target's Z or the projectile. No paths are drawn; only the results are collected.</p>
+                    <p>For each run it finds the <Highlight>mean scattering angle</Highlight>, the <Highlight>fraction scattered beyond 90°</Highlight> and the <Highlight>closest approach</Highlight> any particle made to the nucleus, and plots them.</p>
+                    <p>All other settings (particle count, beam type, integration method and so on) follow the control panel.</p>
+                </>
+            )
+        },
+        sweepParameter: {
+            title: "Parameter to sweep",
+            content: (
+                <>
+                    <p>The variable on the chart's horizontal axis. Choosing <Bold>energy</Bold> or <Bold>Z</Bold> runs evenly spaced values from the start value to the end value.</p>
+                    <p>Pick several projectiles to draw one line each and compare them. Choosing <Bold>projectile</Bold> puts the chosen particles along the horizontal axis.</p>
+                </>
+            )
+        },
+        sweepRange: {
+            title: "Sweep range",
+            content: (
+                <>
+                    <p>The <Bold>start value</Bold> and <Bold>end value</Bold> of the swept parameter and the <Bold>number of runs</Bold> between them.</p>
+                    <p>Z is rounded to a whole number. More runs give smoother charts but take longer.</p>
+                </>
+            )
+        },
+        closestApproach: {
+            title: "Closest approach",
+            content: (
+                <>
+                    <p>The <Bold>nearest a particle came</Bold> to the nucleus. A particle flying head-on stops and turns back where all its kinetic energy has become electric potential energy.</p>
+                    <p>Once this distance falls below the size of the nucleus (a few fm), the nuclear force starts to show effects <Highlight>the Coulomb force alone cannot explain</Highlight>. Rutherford used this to put an upper limit on the size of the nucleus.</p>
+                </>
+            )
+        },
+        runFile: {
+            title: "Save and load results",
+            content: (
+                <>
+                    <p>Saves a finished run to a file. <Bold>CSV</Bold> opens straight in a spreadsheet; the <Highlight>#</Highlight> lines at the top hold the simulation settings. Below them comes one line per particle with its impact parameter, lab and centre-of-mass scattering angles and closest approach.</p>
+                    <p><Bold>JSON</Bold> is the format the simulator reads back. Turning on 'Include paths' stores every drawn path too, making the file much larger.</p>
+                    <p>A loaded file is <Highlight>not recalculated</Highlight>: its saved paths and charts are shown as they were. Loading a CSV file restores only the settings and charts.</p>
+                </>
+            )
+        },
+        presets: {
+            title: "Experiment presets",
+            content: (
+                <>
+                    <p>Sets up a historic experiment or a situation worth exploring <Bold>in one step</Bold>. After choosing a preset you can still change any value in the control panel.</p>
+                    <p>'Save current settings' keeps the present setup as <Highlight>my preset</Highlight>. Your presets are stored in this browser.</p>
+                </>
+            )
+        },
+        canvasView: {
+            title: "Zoom and pan",
+            content: (
+                <>
+                    <p>Use the mouse wheel to <Bold>zoom in and out</Bold> and drag the view to <Bold>pan</Bold>. The bar at the bottom right shows a length (fm) at the current zoom, and one grid square is the same length.</p>
+                    <p>'Fit' zooms in around the nucleus so the head-on <Highlight>closest approach</Highlight> is easy to see. After a run it uses the nearest approach actually made. For the Thomson atom it fits the whole atom.</p>
+                    <p>Paths are stored at their true length, so they stay sharp however far you zoom in.</p>
+                </>
+            )
+        },
+        potentialOverlay: {
+            title: "Potential energy",
+            content: (
+                <>
+                    <p>Colours each point by the <Bold>potential energy</Bold> U a particle would have there. Orange repels and blue attracts; the deeper the colour, the stronger.</p>
+                    <p>The white contours are where U equals 1/8, 1/4, 1/2 and <Highlight>all</Highlight> of the kinetic energy of a head-on particle. Not even a head-on particle gets inside the boldest line.</p>
+                    <p>It follows the chosen potential model, so with screening or the nuclear force the contours differ from the Coulomb ones. The Thomson atom's potential is so small next to the beam energy that it barely shows, which is why it cannot bend particles much.</p>
+                </>
+            )
+        },
+        forceOverlay: {
+            title: "Force arrows",
+            content: (
+                <>
+                    <p>Arrows show the <Bold>direction of the force</Bold> on each particle right now. The force grows as 1/r² near the nucleus, so arrow length follows the <Highlight>logarithm</Highlight> of the force: each tenfold drop in force shortens the arrow by a third.</p>
+                    <p>With many particles, only every few are drawn.</p>
+                </>
+            )
+        },
+        closestApproachOverlay: {
+            title: "Closest-approach circle",
+            content: (
+                <>
+                    <p>A circle whose radius is the distance <Highlight>d = kq₁q₂/E</Highlight> at which a head-on particle (b = 0) stops, where all its kinetic energy has become potential energy.</p>
+                    <p>This d is the length scale in the scattering formula <Bold>θ = 2·arctan(d/2b)</Bold>: a particle with impact parameter b = d/2 is turned through 90°. When the nucleus recoils, the energy of the relative motion replaces E and d grows a little.</p>
+                </>
+            )
+        },
+        threeDimensional: {
+            title: "3D beam",
+            content: (
+                <>
+                    <p>A real beam is not a single line but has a <Bold>disk-shaped cross-section</Bold>. With the 3D beam on, particles start all over this disk and move in three dimensions.</p>
+                    <p>Results are given as the <Highlight>polar angle θ</Highlight> from the beam axis and the <Highlight>azimuth φ</Highlight> around it. The cross-section and the detector counts then follow solid angle, with the geometry of a real experiment.</p>
+                    <p>Only available with a single nucleus. The 2D view looks down the z axis.</p>
+                </>
+            )
+        },
+        view3D: {
+            title: "3D view",
+            content: (
+                <>
+                    <p><Highlight>Drag</Highlight> to turn the paths of a 3D beam. The dashed circle is the disk the beam starts from; each coloured ring is the rim of a detector's cone.</p>
+                    <p>Seen along the beam axis, every particle leaves at the same azimuth it came in at.</p>
+                </>
+            )
+        },
+        azimuthChart: {
+            title: "Azimuthal distribution",
+            content: (
+                <>
+                    <p>A single nucleus pushes the same way in every direction around the beam axis, so the azimuths φ the particles leave at should be spread <Bold>evenly</Bold>.</p>
+                    <p>The dashed line is the count every bin would get if they were. A random beam strays from it by its statistical fluctuations.</p>
+                </>
+            )
+        },
+        asymptoteOverlay: {
+            title: "Asymptotes and scattering angle",
+            content: (
+                <>
+                    <p>Click a path to choose a particle and draw the two <Bold>straight lines (asymptotes)</Bold> it follows far from the nucleus. The distance between the incoming line and the nucleus is the impact parameter <Highlight>b</Highlight>, and the angle between the two lines is the scattering angle <Highlight>θ</Highlight>.</p>
+                    <p>Turn on the closest-approach circle as well to see the length and the angle in θ = 2·arctan(d/2b) on one screen.</p>
+                </>
+            )
+        },
+        replay: {
+            title: "Replay",
+            content: (
+                <>
+                    <p><Bold>Every frame</Bold> of the simulation is recorded, so you can drag the timeline back and forth during a run or after it. Moving the timeline pauses the run.</p>
+                    <p>Step one frame at a time or slow the playback down. Choose a particle and jump to its <Highlight>closest approach</Highlight> to see in detail a turn that is over in a few frames.</p>
+                    <p>To save memory, very long runs are recorded <Highlight>skipping frames at a regular interval</Highlight>.</p>
+                </>
+            )
+        },
+        permalink: {
+            title: "Share a link",
+            content: (
+                <>
+                    <p>The link in the address bar holds <Bold>all the current settings</Bold>. Anyone who opens it starts the simulation with the same setup.</p>
+                    <p>Use it to link a particular experiment from class materials, or to share results down to the random beam's <Highlight>seed</Highlight>.</p>
+                </>
+            )
+        },
+        pinnedRuns: {
+            title: "Compare runs",
+            content: (
+                <>
+                    <p><Bold>Pin</Bold> a finished run and it stays on the chart as triangles even after you change the settings and run again. Put runs that differ in one thing, such as 5 MeV and 10 MeV, side by side.</p>
+                    <p>Each run is named from its settings, and the hide button hides them one at a time. The chart's curve is the <Highlight>prediction for the current settings</Highlight>.</p>
+                    <p>Turn on 'Overlay paths' to draw the pinned runs' paths faintly on the screen.</p>
+                </>
+            )
+        },
+        inspector: {
+            title: "Inspect a particle",
+            content: (
+                <>
+                    <p>Click a path or a particle on the screen to see the flight of <Bold>that one particle</Bold> in detail. It is flown again on its own under the same conditions, and every moment is recorded.</p>
+                    <p>As it approaches the nucleus its <Highlight>kinetic energy turns into potential energy</Highlight>, then turns back as it moves away. Check that their sum (the total energy) stays flat. The force peaks at closest approach.</p>
+                    <p>Click an empty spot or the close button to clear the selection.</p>
+                </>
+            )
+        },
+        challenge: {
+            title: "Mystery target challenge",
+            content: (
+                <>
+                    <p>Experiment with the target's <Bold>charge Z</Bold> hidden (and the beam energy too, if you like). Work out the hidden values from the scattering data alone, as Rutherford did.</p>
+                    <p>After firing enough particles, press <Highlight>Fit curve</Highlight> to fit θ = 2·arctan(d/2b) to the centre-of-mass data and find the closest approach d. d is proportional to Z and inversely proportional to the energy, so knowing the energy gives Z. Because the simulated region is finite, there is also a <Highlight>systematic error</Highlight> that makes d come out about 1% small.</p>
+                    <p>If the energy is hidden too, find it first from a particle's <Highlight>speed</Highlight> in the inspector. The same challenge number always hides the same target, so a whole class can solve the same problem.</p>
+                </>
+            )
+        },
+        figureExport: {
+            title: "Save as figure",
+            content: (
+                <>
+                    <p>Saves the trajectories or a chart as it is on screen, as a figure file for slides and worksheets. <Bold>SVG</Bold> is a vector drawing that stays sharp at any size; <Bold>PNG</Bold> is an image drawn at the scale you choose.</p>
+                    <p><Highlight>Light print theme</Highlight> draws on white with darkened colours, so the figure reads well on paper. The settings caption writes the run's conditions, such as projectile, energy and target, below the figure, and trajectory figures can carry an fm scale bar.</p>
+                    <p>Figures are made inside the browser, so no internet connection is needed.</p>
+                </>
+            )
+        }
+    },
+    projectileExplanations: (name: string, isAttractive: boolean) => ({
+        kineticEnergy: {
+            title: `${name} kinetic energy`,
+            content: (
+                 <>
+                    <p>Sets the energy (speed) each {lower(name)} has when it is fired.</p>
+                    <p><Bold>At high energy (fast)</Bold> the particle feels the nucleus only briefly, and its path bends only a little.</p>
+                    <p><Bold>At low energy (slow)</Bold> it feels the nucleus for longer, and its path bends a lot.</p>
+                </>
+            )
+        },
+        particleCount: {
+            title: `${name} count`,
+            content: (
+                <>
+                    <p>The total number of {lower(name)}s used in the simulation.</p>
+                    <p>The more particles, the more clearly you see the overall scattering distribution, as in a real experiment.</p>
+                    <p>Up to <Bold>50,000</Bold> can be fired. Beyond a few thousand, the dots are drawn smaller and the calculation takes longer, so the paths grow slowly.</p>
+                </>
+            )
+        },
+        targetZ: {
+            title: "Target charge (Z)",
+            content: (
+                <>
+                    <p>The number of protons in the target nucleus, that is, the strength of its positive charge. Gold (Au) has Z = 79.</p>
+                    {isAttractive ? (
+                        <p><Bold>A larger Z</Bold> makes the nucleus's positive charge stronger, pulling the negatively charged {lower(name)} in harder. Scattering angles grow overall as a result.</p>
+                    ) : (
+                        <p><Bold>A larger Z</Bold> makes the nucleus's positive charge stronger, pushing the {lower(name)} away harder. Scattering angles grow overall as a result.</p>
+                    )}
+                </>
+            )
+        },
+        impactParameter: {
+            title: "Impact parameter (b)",
+            content: (
+                 <>
+                    <p>A distance that tells <Bold>"how far off centre the {lower(name)} was aimed"</Bold>: the perpendicular distance between the centre of the nucleus and the particle's initial path.</p>
+                    <p><Highlight>The smaller the impact parameter</Highlight> (head-on), the larger the scattering angle; <Highlight>the larger the impact parameter</Highlight> (a glancing pass), the smaller the angle.</p>
+                </>
+            )
+        },
+        scatteringAngle: {
+            title: "Scattering angle (θ)",
+            content: (
+                <>
+                    <p>The angle that shows <Bold>how far the {lower(name)} was bent</Bold> from its original path by the nucleus's electric {isAttractive ? 'attraction' : 'repulsion'}.</p>
+                    <p><Bold>0°</Bold> means straight on and <Bold>180°</Bold> means bounced straight back. Seeing that only a very few particles scattered through large angles led Rutherford to propose the nuclear model.</p>
+                    {isAttractive && (
+                        <p>A negatively charged particle bends towards the nucleus and, passing close, can even <Highlight>loop around it</Highlight> before leaving.</p>
+                    )}
+                </>
+            )
+        },
+    }),
+    app: {
+        title: 'Rutherford Scattering Simulator',
+        help: 'Show help',
+        language: 'Language',
+        subtitle: (projectile: string) => `The motion of ${lower(projectile)}s fired at a nucleus`,
+        nuclearModel: 'Nuclear model',
+        thomsonModel: 'Thomson model (plum pudding)',
+        angleChart: 'Scattering angle vs impact parameter',
+        randomBeam: 'Random beam',
+        seed: 'Seed',
+        particleCount: (count: string) => `${count} particles`,
+        centreOfMassFrame: 'Centre-of-mass frame',
+    },
+    chart: {
+        particles: 'Particles',
+        foil: 'Foil',
+        singleNucleus: 'Single nucleus',
+        singleNucleusReference: 'Single nucleus (reference)',
+        nuclearModel: 'Nuclear model',
+        thomsonModel: 'Thomson model',
+        classicalReference: 'Classical (reference)',
+        relativistic: 'Relativistic',
+        classical: 'Classical',
+        theory: 'Prediction',
+        fittedCurve: 'Fitted curve',
+        residual: 'Residual',
+        impactParameter: 'Impact parameter',
+        scatteringAngle: 'Scattering angle',
+        scatteringAngleAxis: 'Scattering angle (°)',
+        impactParameterAxis: 'Impact parameter (fm)',
+        residualAxis: 'Residual (°)',
+        headOnDistance: 'Head-on closest approach d =',
+        fittedHeadOnDistance: 'Fitted closest approach d =',
+        theoryHidden: 'The target is hidden, so no prediction is drawn.',
+        rmsResidual: 'RMS residual =',
+        meanAngle: 'Mean angle',
+        maxAngle: 'Largest angle',
+        backscattered: 'Beyond 90°',
+        angleDifference: '|Δθ| mean / max',
+        angleRatio: 'θ ratio',
+        smallAnglePrediction: (ratio: string) => `(small-angle prediction ${ratio})`,
+    },
+    projectiles: {
+        alpha: 'Alpha particle',
+        proton: 'Proton',
+        deuteron: 'Deuteron',
+        carbon: 'Carbon ion',
+        electron: 'Electron',
+        positron: 'Positron',
+        muon: 'Muon',
+        custom: 'Custom particle',
+    },
+    controls: {
+        title: 'Simulation controls',
+        projectile: 'Projectile',
+        customProjectile: 'Custom',
+        customCharge: 'Charge (e)',
+        customMass: 'Mass (u)',
+        targetZ: 'Target charge (Z)',
+        targetMassNumber: 'Target mass number (A)',
+        massNumberFromZ: 'Estimate from Z',
+        focusMode: 'Nucleus close-up',
+        targetMode: 'Target type',
+        targetModes: {
+            single: 'Single nucleus',
+            foil: 'Thin foil (multiple scattering)',
+            thomson: 'Thomson model (plum pudding)',
+        },
+        splitView: 'Compare with the Thomson model',
+        threeDimensional: '3D beam (disk cross-section)',
+        potential: 'Interaction potential',
+        potentials: {
+            coulomb: 'Point-charge Coulomb',
+            screened: 'Screened Coulomb (Thomas–Fermi)',
+            sphere: 'Uniformly charged sphere',
+            woodsSaxon: 'Coulomb + Woods–Saxon nuclear force',
+        },
+        foilLayers: 'Foil thickness',
+        layerUnit: 'layers',
+        foilSpacing: 'Nucleus spacing',
+        foilArrangement: 'Nucleus arrangement',
+        foilArrangements: {
+            lattice: 'Lattice',
+            random: 'Random',
+        },
+        beamMode: 'Beam type',
+        beamModes: {
+            ladder: 'Evenly spaced impact parameters',
+            random: 'Random beam (Monte Carlo)',
+        },
+        seed: 'Random seed',
+        newSeed: 'Draw a new seed',
+        integrator: 'Numerical integration method',
+        integrators: {
+            euler: 'Euler (fixed step)',
+            verlet: 'Velocity Verlet (fixed step)',
+            rk4: 'RK4 (fixed step)',
+            rk45: 'Adaptive RK45',
+        },
+        relativistic: 'Relativistic mechanics',
+        energyRange: 'Energy range',
+        start: 'Start',
+        pause: 'Pause',
+        resume: 'Resume',
+        reset: 'Reset simulation',
+    },
+    canvas: {
+        thomsonInterior: (radius: string) => `Inside a Thomson atom · positive charge spread evenly over a radius of ${radius} fm`,
+        zoomIn: 'Zoom in',
+        zoomOut: 'Zoom out',
+        fit: 'Fit',
+        fitAtom: 'Fit the whole atom',
+        fitClosestApproach: 'Fit the closest approach',
+        resetView: 'Reset',
+        resetViewHint: 'Back to the starting zoom',
+    },
+    detectors: {
+        title: 'Scintillation detectors',
+        angle: 'Angle',
+        width: 'Width',
+        count: 'Count',
+        rate: 'Rate',
+        remove: 'Remove detector',
+        elapsed: 'Elapsed time',
+        add: 'Add detector',
+        solidAngle: 'Solid angle',
+    },
+    diagnostics: {
+        title: 'Conservation check',
+        maxEnergyDrift: 'Max |ΔE/E₀|',
+        maxAngularMomentumDrift: 'Max |ΔL/L₀|',
+        notCentral: 'A foil has many nuclei, so angular momentum is not conserved. Check the energy only.',
+        particle: 'Particle',
+        empty: 'Start the simulation to see the check.',
+        truncated: (shown: string, total: string) => `Showing only the ${shown} particles with the largest errors (of ${total}).`,
+    },
+    crossSection: {
+        title: 'Differential cross section',
+        simulation: 'Simulation',
+        incomplete: 'Incomplete bin',
+        rutherford: 'Rutherford 1/sin⁴(θ/2)',
+        particleCount: 'Particles',
+        binCount: 'Angle bins',
+        empty: 'The cross section is calculated when the simulation finishes.',
+    },
+    sweep: {
+        title: 'Parameter sweep',
+        parameter: 'Parameter to sweep',
+        parameters: {
+            targetZ: 'Target charge (Z)',
+            energy: 'Kinetic energy',
+            projectile: 'Projectile',
+        },
+        axes: {
+            targetZ: 'Target charge (Z)',
+            energy: 'Kinetic energy (MeV)',
+            projectile: 'Projectile',
+        },
+        metrics: {
+            meanAngle: 'Mean scattering angle',
+            backscatterFraction: 'Fraction scattered beyond 90°',
+            minClosestApproach: 'Smallest closest approach',
+        },
+        start: 'Start value',
+        end: 'End value',
+        steps: 'Number of runs',
+        run: 'Run sweep',
+        cancel: 'Stop sweep',
+        progress: (done: string, total: string) => `${done} / ${total} runs done`,
+        plan: (runs: string, particles: string) => `${runs} runs · ${particles} particles each`,
+        empty: 'Run a sweep to plot one result for each setting.',
+    },
+    presetPanel: {
+        title: 'Experiment preset',
+        custom: 'Custom settings',
+        userPreset: (name: string) => `My preset · ${name}`,
+        userDescription: (projectile: string, energy: string, targetZ: number, particles: string) => `${projectile} ${energy} MeV → Z = ${targetZ} · ${particles} particles`,
+        name: 'Preset name',
+        save: 'Save current settings',
+        copyLink: 'Copy link',
+        copied: 'Copied!',
+        copyFailed: 'Could not copy. Copy the link from the address bar instead.',
+        delete: 'Delete preset',
+    },
+    presets: {
+        'geiger-marsden-1909': {
+            name: 'Geiger–Marsden 1909 gold foil',
+            description: 'Alpha particles of about 7.7 MeV from radium fired at thin gold foil. Most pass almost straight through, but about one in 8000 bounces back beyond 90°, which led to the conclusion that an atom\'s mass and positive charge sit in a tiny nucleus.',
+        },
+        'aluminium-7-7-mev': {
+            name: 'Aluminium · 7.7 MeV alpha',
+            description: 'The same alpha particles get much closer to an aluminium nucleus, whose charge is small. Near head-on, the closest approach comes down to the nuclear radius, the nuclear force joins in and large-angle scattering departs from Rutherford\'s formula. This "anomalous scattering" gave the first estimate of the size of the nucleus.',
+        },
+        'low-energy-proton-carbon': {
+            name: 'Low-energy proton · carbon',
+            description: '1 MeV protons fired at light carbon nuclei (¹²C). The target is only 12 times heavier than the projectile and recoils visibly, which makes it a good case for comparing lab and centre-of-mass scattering angles.',
+        },
+    },
+    replay: {
+        title: 'Replay',
+        timeline: 'Timeline',
+        first: 'To the start',
+        previous: 'One frame back',
+        next: 'One frame forward',
+        play: 'Play',
+        pause: 'Pause',
+        live: 'Live',
+        speed: 'Playback speed',
+        empty: 'Run the simulation to record every frame.',
+        frame: 'Frame',
+        frameInterval: (interval: string) => `recording every ${interval} frames`,
+        selectParticle: 'Choose a particle',
+        particle: (id: string, impactParameter: string) => `Particle #${id} · b = ${impactParameter} fm`,
+        jumpToClosestApproach: 'Go to closest approach',
+    },
+    runFile: {
+        title: 'Save and load results',
+        exportCsv: 'Export CSV',
+        exportJson: 'Export JSON',
+        includePaths: 'Include paths',
+        import: 'Load',
+        empty: 'Results can be exported once a run finishes.',
+        imported: 'Loaded results',
+        savedAt: (date: string) => `saved ${date}`,
+        errors: {
+            missingColumn: (column: string) => `The CSV file has no '${column}' column.`,
+            notRunFile: () => 'This file was not exported from the Rutherford scattering simulator.',
+            unsupportedVersion: (version: string) => `Unsupported file version (${version}). Try reloading the simulator.`,
+            noResults: () => 'The file has no scattering results.',
+            badJson: () => 'The JSON file could not be read.',
+            unreadable: (detail: string) => `The file could not be read. ${detail}`,
+        },
+    },
+    pinnedRuns: {
+        title: 'Compare runs',
+        pin: 'Pin current run',
+        clear: 'Clear all',
+        ghosting: 'Overlay paths',
+        particleCount: (count: string) => `${count} particles`,
+        hide: 'Hide',
+        show: 'Show',
+        remove: (label: string) => `Remove ${label} from the comparison`,
+        empty: 'Pin a finished run to keep it on the chart for the next runs.',
+        full: (max: string) => `Up to ${max} runs can be pinned.`,
+        foilLayers: (layers: string) => `${layers}-layer foil`,
+        thomson: 'Thomson atom',
+        relativistic: 'relativistic',
+        seed: (seed: number) => `seed ${seed}`,
+        threeDimensional: '3D',
+    },
+    overlays: {
+        title: 'Overlays',
+        potential: 'Potential energy',
+        forces: 'Force arrows',
+        closestApproach: 'Closest-approach circle',
+        asymptotes: 'Asymptotes and angle',
+    },
+    inspector: {
+        title: (id: string) => `Particle #${id}`,
+        impactParameter: 'Impact parameter b',
+        labAngle: 'Scattering angle (lab)',
+        cmAngle: 'Scattering angle (CM)',
+        closestApproach: 'Closest approach',
+        timeOfFlight: 'Time of flight',
+        azimuth: 'Azimuth φ',
+        jumpToClosestApproach: 'Show closest approach',
+        close: 'Close',
+        tracing: 'Recomputing the path…',
+        timeAxis: 'Time (zs)',
+        plots: {
+            distance: 'Distance',
+            speed: 'Speed',
+            energy: 'Energy',
+            force: 'Force',
+        },
+        series: {
+            distance: 'Distance',
+            speed: 'Speed',
+            kineticEnergy: 'Kinetic energy',
+            potentialEnergy: 'Potential energy',
+            totalEnergy: 'Total energy',
+            force: 'Force',
+        },
+    },
+    challenge: {
+        title: 'Mystery target',
+        number: 'Challenge number',
+        newNumber: 'Draw a new number',
+        hideEnergy: 'Hide the energy too',
+        start: 'Start challenge',
+        hidden: (number: number, isEnergyHidden: boolean) => `Challenge #${number} · ${isEnergyHidden ? 'Z and the energy are' : 'Z is'} hidden.`,
+        fit: 'Fit curve',
+        fittedDistance: (count: string) => `Fitted closest approach (${count} particles)`,
+        fittedZ: (energy: string) => `At ${energy} MeV, Z ≈`,
+        useEstimate: 'Use as estimate',
+        fitHint: 'The curve can be fitted once a run finishes.',
+        energyEstimate: 'Estimated energy (MeV)',
+        zEstimate: 'Estimated charge Z',
+        submit: 'Submit and show answer',
+        giveUp: 'Give up',
+        score: (number: number) => `Challenge #${number} score`,
+        scoreExcellent: 'Excellent! Rutherford would have been impressed.',
+        scoreGood: 'A good estimate. More large-angle data will make it sharper.',
+        scoreLow: 'Not quite. Fire more particles, or more at small impact parameters, and fit again.',
+        targetZ: 'Target charge Z',
+        energy: 'Beam energy',
+        answer: 'Answer',
+        estimate: 'Estimate',
+        finish: 'End challenge',
+    },
+    view3D: {
+        title: '3D view',
+        views: {
+            oblique: 'Oblique',
+            side: 'Side',
+            beam: 'Along the beam',
+        },
+        zoomIn: 'Zoom in',
+        zoomOut: 'Zoom out',
+        dragHint: 'Drag to turn',
+        azimuthTitle: 'Azimuthal distribution',
+        azimuthAxis: 'Azimuth φ (°)',
+        countAxis: 'Particles',
+        counts: 'Simulation',
+        uniform: 'Even spread',
+        azimuthEmpty: 'The azimuthal distribution appears once the run has finished.',
+    },
+    figure: {
+        export: 'Figure',
+        title: 'Save as figure',
+        lightTheme: 'Light print theme',
+        caption: 'Settings caption',
+        scaleBar: 'fm scale bar',
+        resolution: 'PNG scale',
+        resolutionOption: (factor: number) => `${factor}× the screen size`,
+        pngFailed: 'The PNG figure could not be made.',
+        hiddenTarget: 'Z = ? (mystery target)',
+        frames: {
+            lab: 'lab frame',
+            cm: 'centre-of-mass frame',
+        },
+    },
+};
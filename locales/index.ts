@@ -0,0 +1,40 @@
+import { en } from './en';
+import { ko } from './ko';
+import type { Messages } from './ko';
+
+export type { Messages };
+
+// Every language the app speaks. A new one needs only its catalog, typed as Messages, added here.
+export const CATALOGS = { ko, en } satisfies Record<string, Messages>;
+
+export type Locale = keyof typeof CATALOGS;
+
+export const LOCALES = Object.keys(CATALOGS) as Locale[];
+export const DEFAULT_LOCALE: Locale = 'ko';
+
+const LOCALE_KEY = 'rutherford-scattering-locale';
+
+const isLocale = (value: unknown): value is Locale =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(CATALOGS, value);
+
+// A language picked before wins; otherwise the first of the browser's languages there is a catalog for.
+export const loadLocale = (): Locale => {
+    try {
+        const stored = localStorage.getItem(LOCALE_KEY);
+        if (isLocale(stored)) return stored;
+    } catch {
+        // Storage can be disabled (private browsing); the browser's languages decide instead.
+    }
+    const preferred = (navigator.languages || [navigator.language])
+        .map(tag => tag.split('-')[0].toLowerCase())
+        .find(isLocale);
+    return preferred ?? DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale) => {
+    try {
+        localStorage.setItem(LOCALE_KEY, locale);
+    } catch {
+        // Without storage the choice lasts for the session.
+    }
+};
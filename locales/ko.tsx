@@ -0,0 +1,821 @@
+import { Bold, Highlight } from './richText';
+import type { RunSummary, SweepParameter } from '../simulation/sweep';
+import type { BuiltInPresetId } from '../utils/presets';
+import type { RunFileErrorReason } from '../utils/runFile';
+import type { View3DPreset } from '../utils/beamGeometry';
+import type { BeamMode, FoilArrangement, IntegratorType, PotentialModel, ProjectileType, ReferenceFrame, TargetMode } from '../types';
+
+// Picks the Korean particle that agrees with the word's final syllable, e.g. 이/가 or 을/를.
+const withJosa = (word: string, afterConsonant: string, afterVowel: string) => {
+    const code = word.charCodeAt(word.length - 1) - 0xac00;
+    const hasFinalConsonant = code >= 0 && code <= 11171 && code % 28 !== 0;
+    return word + (hasFinalConsonant ? afterConsonant : afterVowel);
+};
+
+export const ko = {
+    languageName: '한국어',
+    explanations: {
+        simulationTitle: {
+            title: "러더퍼드 산란 시뮬레이션이란?",
+            content: (
+                <>
+                    <p>이 시뮬레이션은 20세기 초 물리학의 역사를 바꾼 '러더퍼드 산란 실험'을 재현합니다.</p>
+                    <p>이 실험 이전, 원자는 (+)전하가 흩어져 있는 '푸딩 모델'로 여겨졌습니다. 하지만 러더퍼드가 금박에 알파 입자를 쏘았을 때, 극소수의 입자가 크게 튕겨 나오는 것을 발견했습니다.</p>
+                    <p>이를 통해 <Highlight>"원자의 질량과 양전하 대부분은 아주 작은 중심(원자핵)에 모여있다"</Highlight>는 사실을 최초로 증명했습니다. 이 시뮬레이터로 그 위대한 발견의 순간을 직접 확인할 수 있습니다.</p>
+                </>
+            )
+        },
+        focusMode: {
+            title: "원자핵 집중 탐사",
+            content: (
+                <>
+                    <p>원자핵 바로 주변, 즉 산란의 비밀이 숨겨진 핵심 영역을 집중적으로 관찰하는 모드입니다.</p>
+                    <p>이 모드를 켜면, 아주 작은 <Highlight>충돌 계수(1~150fm)</Highlight> 범위에 수백 개의 입자를 정밀하게 발사하여 산란각이 급격하게 변하는 극적인 모습을 관찰할 수 있습니다.</p>
+                </>
+            )
+        },
+        analyticPrediction: {
+            title: "러더퍼드 이론값",
+            content: (
+                <>
+                    <p>점전하 원자핵에 의한 쿨롱 산란은 정확히 풀 수 있습니다. 산란각은 <Highlight>θ = 2·arctan(d / 2b)</Highlight> 입니다.</p>
+                    <p>여기서 <Bold>d</Bold>는 입자가 정면으로 날아갈 때 원자핵에 가장 가까이 다가가는 거리로, 에너지가 낮고 Z가 클수록 커집니다. 원자핵이 반동하면 질량중심계 에너지로 계산합니다.</p>
+                    <p>주황색 곡선이 이 이론값이며, 시뮬레이션 결과가 곡선 위에 놓이면 계산이 이론과 일치하는 것입니다.</p>
+                </>
+            )
+        },
+        targetMassNumber: {
+            title: "표적핵 질량수 (A)",
+            content: (
+                <>
+                    <p>표적 원자핵의 질량을 정하는 핵자 수입니다. 비워 두면 Z로부터 가장 흔한 동위원소의 값을 추정합니다.</p>
+                    <p>단일 원자핵 모드에서 원자핵은 무한히 무겁지 않고 입자에 밀려 <Highlight>되튕깁니다(반동)</Highlight>. 금처럼 무거운 핵은 거의 움직이지 않지만, Z가 작은 가벼운 핵은 눈에 띄게 밀려나며 금색 점선으로 그 궤적이 그려집니다.</p>
+                    <p>박막 모드의 원자핵은 격자에 묶여 있다고 보고 고정합니다.</p>
+                </>
+            )
+        },
+        referenceFrame: {
+            title: "실험실계와 질량중심계",
+            content: (
+                <>
+                    <p><Bold>실험실계</Bold>는 표적이 처음에 정지해 있는, 실제 검출기가 놓인 좌표계입니다.</p>
+                    <p><Bold>질량중심계</Bold>는 입자와 원자핵의 질량중심과 함께 움직이는 좌표계입니다. 여기서는 두 물체가 같은 크기의 운동량으로 마주 보고 다가왔다가 멀어지므로, 러더퍼드 공식이 그대로 성립합니다.</p>
+                    <p>입자와 원자핵의 질량비 ρ = m/M 에 따라 <Highlight>tan θ_lab = sin θ_cm / (cos θ_cm + ρ)</Highlight> 로 변환됩니다. 입자가 표적보다 무거우면 실험실계 산란각에 최댓값이 생깁니다.</p>
+                </>
+            )
+        },
+        residual: {
+            title: "잔차 (시뮬레이션 − 이론)",
+            content: (
+                <>
+                    <p>각 입자의 시뮬레이션 산란각에서 이론값을 뺀 값입니다.</p>
+                    <p>잔차가 <Highlight>0에 가까울수록</Highlight> 수치 계산이 정확합니다. 화면 밖으로 나간 입자는 아직 경로가 완전히 펴지지 않았기 때문에 작은 잔차가 남을 수 있습니다.</p>
+                </>
+            )
+        },
+        crossSection: {
+            title: "미분 산란 단면적 (dσ/dΩ)",
+            content: (
+                <>
+                    <p>러더퍼드가 실제로 측정한 것은 <Bold>각도별로 튕겨 나온 입자의 수</Bold>였습니다. 이를 표적 하나당 면적으로 나타낸 것이 미분 산란 단면적입니다.</p>
+                    <p>각 입자는 충돌 계수 b 주변의 고리 모양 면적 <Highlight>2πb·db</Highlight>를 대표합니다. 같은 각도 구간에 들어온 면적을 그 구간의 입체각으로 나누어 계산합니다.</p>
+                    <p>주황색 곡선은 러더퍼드 공식 <Highlight>dσ/dΩ = (d/4)² / sin⁴(θ/2)</Highlight> 입니다. 오차 막대는 구간의 입자 수 N에 대한 푸아송 오차(1/√N)입니다.</p>
+                </>
+            )
+        },
+        binCount: {
+            title: "각도 구간 수",
+            content: (
+                <>
+                    <p>0°~180°를 몇 개의 구간으로 나누어 셀지 정합니다.</p>
+                    <p><Bold>구간이 많으면</Bold> 각도 분해능이 좋아지지만 구간마다 입자 수가 줄어 오차 막대가 커집니다. 충돌 계수 범위가 닿지 않는 작은 각도 구간은 회색으로 표시됩니다.</p>
+                </>
+            )
+        },
+        beamMode: {
+            title: "빔 방식",
+            content: (
+                <>
+                    <p><Bold>등간격 충돌 계수</Bold>는 입자를 일정한 간격으로 한 줄로 세워 발사합니다. 충돌 계수와 산란각의 관계를 보기 좋습니다.</p>
+                    <p><Bold>무작위 빔</Bold>은 실제 방사선원처럼, 빔의 원형 단면 위에 입자를 <Highlight>면적에 대해 고르게</Highlight> 무작위로 뿌립니다. 수천 개의 입자를 쏘아 실제 실험과 같은 통계를 얻을 수 있습니다.</p>
+                    <p>무작위 빔에서 집중 탐사를 켜면 빔의 반지름이 150 fm로 좁아집니다.</p>
+                </>
+            )
+        },
+        seed: {
+            title: "난수 시드",
+            content: (
+                <>
+                    <p>무작위 빔을 만드는 난수의 시작값입니다. <Highlight>같은 시드</Highlight>를 입력하면 언제 어디서나 똑같은 입자 배치가 만들어집니다.</p>
+                    <p>수업에서 모두가 같은 시드를 쓰면 같은 실험을 재현할 수 있습니다. 시드는 실행 결과와 함께 기록됩니다.</p>
+                </>
+            )
+        },
+        detector: {
+            title: "섬광 검출기",
+            content: (
+                <>
+                    <p>가이거와 마스덴은 황화아연(ZnS) 스크린에 알파 입자가 부딪힐 때 나오는 <Bold>작은 빛(섬광)</Bold>을 현미경으로 하나하나 세었습니다.</p>
+                    <p>화면의 색깔 호를 <Highlight>드래그</Highlight>하여 원하는 각도에 검출기를 놓으세요. 입자가 호를 지나 바깥으로 나가면 한 번 계수됩니다.</p>
+                    <p>검출기를 옮기거나 폭을 바꾸면 그 검출기의 계수는 0부터 다시 시작합니다.</p>
+                    <p>3D 빔에서는 검출기가 원점에서 본 <Bold>원뿔</Bold>이 되어, 폭의 절반을 꼭지각으로 하는 <Highlight>입체각 ΔΩ</Highlight> 안으로 나가는 입자를 셉니다. 계수는 dσ/dΩ·ΔΩ에 비례합니다.</p>
+                </>
+            )
+        },
+        targetMode: {
+            title: "표적 종류",
+            content: (
+                <>
+                    <p><Bold>단일 원자핵</Bold>은 원점에 고정된 원자핵 하나에 입자를 쏩니다.</p>
+                    <p><Bold>얇은 박막</Bold>은 실제 금박처럼 여러 층의 원자핵을 배치합니다. 입자는 여러 원자핵 곁을 지나며 작은 각도로 여러 번 휘어지는데, 이를 <Highlight>다중 산란</Highlight>이라고 합니다.</p>
+                    <p>박막 모드에서는 같은 빔을 단일 원자핵에도 쏘아 두 결과를 그래프에서 비교합니다. 원자핵 간격의 절반보다 멀어지면 전자에 의한 가림(차폐)을 흉내 내어 힘이 부드럽게 사라집니다.</p>
+                    <p><Bold>톰슨 모형</Bold>은 러더퍼드 이전의 '푸딩 모델'입니다. (+)전하가 원자 크기(약 100,000 fm)의 공 전체에 고르게 퍼져 있고, 그 안에 전자가 박혀 있습니다. 화면 전체가 이 원자의 한가운데에 해당합니다.</p>
+                </>
+            )
+        },
+        splitView: {
+            title: "두 모형 나란히 비교",
+            content: (
+                <>
+                    <p>똑같은 빔을 <Bold>원자핵 모형</Bold>과 <Bold>톰슨 모형(푸딩 모델)</Bold>에 동시에 쏘아, 두 화면과 그래프에서 결과를 비교합니다.</p>
+                    <p>톰슨 모형에서는 (+)전하가 넓게 퍼져 있어 힘이 약하므로 입자가 <Highlight>거의 휘지 않습니다</Highlight>. 가벼운 전자도 무거운 입자를 크게 꺾지 못합니다.</p>
+                    <p>가이거와 마스덴이 관찰한 큰 각도의 산란은 원자핵 모형에서만 나타나며, 이것이 푸딩 모델이 폐기된 이유입니다.</p>
+                </>
+            )
+        },
+        foilLayers: {
+            title: "박막 두께 (원자층)",
+            content: (
+                <>
+                    <p>빔이 지나가는 방향으로 쌓인 원자층의 수입니다.</p>
+                    <p><Bold>층이 많을수록</Bold> 입자가 더 많은 원자핵을 지나므로 다중 산란에 의한 퍼짐이 커집니다.</p>
+                </>
+            )
+        },
+        foilSpacing: {
+            title: "원자핵 간격",
+            content: (
+                <>
+                    <p>이웃한 원자핵 사이의 거리입니다. 실제 금 원자의 간격은 약 30만 fm이지만, 화면에 담기 위해 아주 촘촘하게 줄였습니다.</p>
+                </>
+            )
+        },
+        foilArrangement: {
+            title: "원자핵 배치",
+            content: (
+                <>
+                    <p><Bold>격자</Bold>는 결정처럼 규칙적으로, <Bold>무작위</Bold>는 같은 수의 원자핵을 박막 안에 불규칙하게 배치합니다. 무작위 배치는 난수 시드를 따릅니다.</p>
+                </>
+            )
+        },
+        potential: {
+            title: "상호작용 퍼텐셜",
+            content: (
+                <>
+                    <p><Bold>점전하 쿨롱</Bold>은 러더퍼드가 가정한 모델로, 산란 공식이 정확히 성립합니다.</p>
+                    <p><Bold>차폐된 쿨롱</Bold>은 원자핵을 둘러싼 전자가 먼 곳에서 전하를 가려 주는 효과를 넣습니다. 충돌 계수가 큰 작은 각도 산란이 줄어듭니다.</p>
+                    <p><Bold>균일하게 대전된 구</Bold>는 원자핵을 반지름 1.25·A<sup>1/3</sup> fm의 공으로 봅니다. 입자가 핵 안으로 들어가면 힘이 약해집니다.</p>
+                    <p><Bold>우즈-색슨 핵력</Bold>은 핵에 닿을 만큼 가까워지면 강한 핵력이 끌어당기는 효과를 더합니다. 에너지가 높거나 Z가 작을 때 러더퍼드 공식에서 벗어나는 <Highlight>비정상 산란</Highlight>을 잔차 그래프에서 확인해 보세요.</p>
+                </>
+            )
+        },
+        projectile: {
+            title: "입사 입자",
+            content: (
+                <>
+                    <p>표적에 쏘는 입자의 종류입니다. 러더퍼드는 <Bold>알파 입자</Bold>(헬륨 원자핵)를 사용했습니다.</p>
+                    <p>입자마다 <Bold>전하</Bold>와 <Bold>질량</Bold>이 다릅니다. 전자나 뮤온처럼 (−)전하를 띤 입자는 원자핵에 <Highlight>끌려 들어가며</Highlight> 휘어집니다.</p>
+                    <p>사용자 정의를 고르면 전하(e 단위)와 질량(u 단위)을 직접 정할 수 있습니다.</p>
+                </>
+            )
+        },
+        relativistic: {
+            title: "상대론적 역학",
+            content: (
+                <>
+                    <p>고전 역학은 속도를 <Highlight>v = √(2E/m)</Highlight>로 계산하므로, 에너지가 높거나 입자가 가벼우면 빛보다 빠른 속도가 나오기도 합니다.</p>
+                    <p>켜면 속도 대신 <Bold>운동량 p = γmv</Bold>를 적분해, 입자가 결코 빛의 속도를 넘지 않습니다. 같은 조건의 고전 역학 궤적도 함께 계산해 산란각이 얼마나 달라지는지 보여줍니다.</p>
+                    <p>같은 운동 에너지에서 상대론적 입자는 더 잘 휘어지며, 작은 각에서 그 비율은 <Highlight>2(E + mc²)/(E + 2mc²)</Highlight>입니다. 전자처럼 가벼운 입자는 몇 MeV만 되어도 차이가 커집니다.</p>
+                </>
+            )
+        },
+        energyRange: {
+            title: "에너지 범위",
+            content: (
+                <>
+                    <p>운동 에너지 슬라이더의 최댓값을 정합니다. 러더퍼드의 실험은 수 MeV 영역이었습니다.</p>
+                    <p>수백 MeV 이상에서는 알파 입자도 빛의 속도에 가까워지므로 <Bold>상대론적 역학</Bold>을 함께 켜는 것이 좋습니다.</p>
+                </>
+            )
+        },
+        integrator: {
+            title: "수치 적분 방법",
+            content: (
+                <>
+                    <p>컴퓨터는 운동 방정식을 아주 짧은 시간 간격으로 나누어 한 걸음씩 계산합니다. 이 계산 방식을 <Bold>적분기</Bold>라고 합니다.</p>
+                    <p><Bold>오일러</Bold>는 가장 단순하지만, 원자핵에 가까이 다가간 입자는 에너지를 잃거나 얻는 오차가 생깁니다. <Bold>속도 베를레</Bold>와 <Bold>RK4</Bold>는 같은 간격에서 훨씬 정확합니다.</p>
+                    <p><Highlight>적응형 RK45</Highlight>는 오차를 스스로 측정하여, 힘이 급격히 변하는 최근접 지점 근처에서만 시간 간격을 잘게 줄입니다.</p>
+                </>
+            )
+        },
+        diagnostics: {
+            title: "보존량 진단",
+            content: (
+                <>
+                    <p>쿨롱 힘만 작용하면 입자의 <Bold>전체 에너지(E)</Bold>와 원자핵에 대한 <Bold>각운동량(L)</Bold>은 변하지 않아야 합니다.</p>
+                    <p>표의 값은 처음 값에 대한 상대 변화량입니다. 값이 <Highlight>0에 가까울수록</Highlight> 계산이 정확하며, 그 입자의 산란각을 믿을 수 있습니다.</p>
+                </>
+            )
+        },
+        sweep: {
+            title: "매개변수 스윕",
+            content: (
+                <>
+                    <p>에너지, 표적핵의 Z 또는 입사 입자를 바꿔 가며 시뮬레이션을 <Bold>여러 번 자동으로</Bold> 실행합니다. 궤적은 그리지 않고 결과만 모읍니다.</p>
+                    <p>각 실행마다 <Highlight>평균 산란각</Highlight>, <Highlight>90°보다 크게 튕겨 나온 비율</Highlight>, 입자가 원자핵에 가장 가까이 다가간 <Highlight>최근접 거리</Highlight>를 구해 그래프로 보여줍니다.</p>
+                    <p>나머지 설정(입자 수, 빔 방식, 적분 방법 등)은 현재 제어판의 값을 따릅니다.</p>
+                </>
+            )
+        },
+        sweepParameter: {
+            title: "스윕할 변수",
+            content: (
+                <>
+                    <p>그래프의 가로축이 될 변수입니다. <Bold>에너지</Bold>나 <Bold>Z</Bold>를 고르면 시작값부터 끝값까지 고르게 나눈 값들로 실행합니다.</p>
+                    <p>여러 입사 입자를 고르면 입자마다 한 줄씩 그려져 서로 비교할 수 있습니다. <Bold>입사 입자</Bold>를 고르면 고른 입자들이 가로축에 놓입니다.</p>
+                </>
+            )
+        },
+        sweepRange: {
+            title: "스윕 범위",
+            content: (
+                <>
+                    <p>스윕할 변수의 <Bold>시작값</Bold>, <Bold>끝값</Bold>과 그 사이를 나눌 <Bold>실행 횟수</Bold>입니다.</p>
+                    <p>Z는 정수로 반올림됩니다. 실행 횟수가 많을수록 그래프가 매끄럽지만 시간이 오래 걸립니다.</p>
+                </>
+            )
+        },
+        closestApproach: {
+            title: "최근접 거리",
+            content: (
+                <>
+                    <p>입자가 원자핵에 <Bold>가장 가까이 다가간 거리</Bold>입니다. 정면으로 날아온 입자는 운동 에너지가 모두 전기적 위치 에너지로 바뀌는 지점에서 멈춰 되돌아갑니다.</p>
+                    <p>이 거리가 원자핵의 크기(수 fm)보다 작아지면 <Highlight>쿨롱 힘만으로는 설명할 수 없는</Highlight> 핵력의 영향이 나타나기 시작합니다. 러더퍼드는 이를 이용해 원자핵 크기의 상한을 어림했습니다.</p>
+                </>
+            )
+        },
+        runFile: {
+            title: "결과 저장 · 불러오기",
+            content: (
+                <>
+                    <p>끝난 실행을 파일로 저장합니다. <Bold>CSV</Bold>는 스프레드시트에서 바로 열 수 있고, 맨 위 <Highlight>#</Highlight> 줄에 시뮬레이션 설정이 적혀 있습니다. 그 아래로 입자마다 충돌 계수, 실험실계·질량중심계 산란각, 최근접 거리가 한 줄씩 이어집니다.</p>
+                    <p><Bold>JSON</Bold>은 시뮬레이터가 다시 읽기 위한 형식입니다. '궤적 포함'을 켜면 그려진 경로까지 모두 담겨 파일이 훨씬 커집니다.</p>
+                    <p>불러온 파일은 <Highlight>다시 계산하지 않고</Highlight> 저장된 궤적과 그래프를 그대로 보여줍니다. CSV 파일을 불러오면 설정과 그래프만 복원됩니다.</p>
+                </>
+            )
+        },
+        presets: {
+            title: "실험 프리셋",
+            content: (
+                <>
+                    <p>역사적인 실험이나 살펴볼 만한 상황을 <Bold>한 번에 설정</Bold>합니다. 프리셋을 고른 뒤에도 제어판에서 값을 자유롭게 바꿀 수 있습니다.</p>
+                    <p>'현재 설정 저장'으로 지금 설정을 <Highlight>내 프리셋</Highlight>으로 남길 수 있습니다. 내 프리셋은 이 브라우저에 저장됩니다.</p>
+                </>
+            )
+        },
+        canvasView: {
+            title: "확대 · 이동",
+            content: (
+                <>
+                    <p>마우스 휠로 <Bold>확대·축소</Bold>하고, 화면을 끌어 <Bold>이동</Bold>합니다. 오른쪽 아래 막대가 현재 배율에서의 길이(fm)를 알려 주며, 격자 한 칸도 같은 길이입니다.</p>
+                    <p>'맞춤'은 정면 충돌의 <Highlight>최근접 거리</Highlight>가 잘 보이도록 원자핵 주위를 확대합니다. 실행이 끝난 뒤에는 실제로 가장 가까이 다가간 거리를 기준으로 합니다. 톰슨 원자에서는 원자 전체가 보이게 맞춥니다.</p>
+                    <p>궤적은 실제 길이로 저장되어 있어 아무리 확대해도 선명합니다.</p>
+                </>
+            )
+        },
+        potentialOverlay: {
+            title: "퍼텐셜 에너지",
+            content: (
+                <>
+                    <p>입자가 각 지점에서 갖는 <Bold>퍼텐셜 에너지</Bold> U를 색으로 칠합니다. 주황색은 밀어내는 곳, 파란색은 끌어당기는 곳이고, 진할수록 강합니다.</p>
+                    <p>흰 등고선은 U가 정면 충돌 입자의 운동 에너지의 1/8, 1/4, 1/2, 그리고 <Highlight>전부</Highlight>인 곳입니다. 가장 진한 선 안으로는 정면으로 날아온 입자도 들어가지 못합니다.</p>
+                    <p>선택한 퍼텐셜 모형을 그대로 따르므로, 차폐·핵력 모형에서는 등고선 모양이 쿨롱 퍼텐셜과 달라집니다. 톰슨 원자는 퍼텐셜이 빔 에너지에 비해 너무 작아 거의 보이지 않는데, 그래서 입자를 크게 휘게 하지 못합니다.</p>
+                </>
+            )
+        },
+        forceOverlay: {
+            title: "힘 화살표",
+            content: (
+                <>
+                    <p>각 입자가 지금 받는 <Bold>힘의 방향</Bold>을 화살표로 보여 줍니다. 힘은 핵에 다가갈수록 1/r²로 커지므로, 화살표 길이는 힘의 <Highlight>로그</Highlight>에 비례하게 그립니다. 힘이 10배 약해질 때마다 화살표가 3분의 1씩 짧아집니다.</p>
+                    <p>입자가 많으면 몇 개 건너 하나씩만 그립니다.</p>
+                </>
+            )
+        },
+        closestApproachOverlay: {
+            title: "최근접 거리 원",
+            content: (
+                <>
+                    <p>정면 충돌(b = 0)하는 입자가 멈춰 서는 거리 <Highlight>d = kq₁q₂/E</Highlight>를 반지름으로 하는 원입니다. 운동 에너지가 모두 퍼텐셜 에너지로 바뀌는 곳입니다.</p>
+                    <p>이 d가 산란각 공식 <Bold>θ = 2·arctan(d/2b)</Bold>의 길이 척도입니다. 충돌 계수 b가 d/2이면 90°로 휘어집니다. 핵이 반동하면 E 대신 상대 운동의 에너지가 들어가 d가 조금 커집니다.</p>
+                </>
+            )
+        },
+        threeDimensional: {
+            title: "3D 빔",
+            content: (
+                <>
+                    <p>실제 빔은 한 줄이 아니라 <Bold>원판 모양의 단면</Bold>을 가집니다. 3D 빔을 켜면 입자가 이 원판 곳곳에서 출발하여 3차원에서 움직입니다.</p>
+                    <p>결과는 빔 축에서 잰 <Highlight>극각 θ</Highlight>와 빔 축을 도는 <Highlight>방위각 φ</Highlight>로 나옵니다. 단면적과 검출기 계수가 입체각을 따라 계산되므로 실제 실험과 같은 기하가 됩니다.</p>
+                    <p>단일 원자핵 표적에서만 쓸 수 있습니다. 2D 화면은 z축 방향에서 내려다본 모습입니다.</p>
+                </>
+            )
+        },
+        view3D: {
+            title: "3D 보기",
+            content: (
+                <>
+                    <p>3D 빔의 궤적을 <Highlight>드래그</Highlight>하여 돌려 볼 수 있습니다. 점선 원은 빔이 출발하는 원판, 색깔 원은 검출기가 덮는 원뿔의 가장자리입니다.</p>
+                    <p>빔 축 방향에서 보면 입자마다 들어온 방위각 그대로 바깥으로 튕겨 나가는 것을 볼 수 있습니다.</p>
+                </>
+            )
+        },
+        azimuthChart: {
+            title: "방위각 분포",
+            content: (
+                <>
+                    <p>원자핵 하나의 힘은 빔 축을 중심으로 어느 방향이든 똑같으므로, 입자가 나가는 방위각 φ는 <Bold>고르게</Bold> 퍼져야 합니다.</p>
+                    <p>점선은 모든 구간에 같은 수가 들어갈 때의 기댓값입니다. 무작위 빔에서는 통계적 요동만큼 어긋납니다.</p>
+                </>
+            )
+        },
+        asymptoteOverlay: {
+            title: "점근선과 산란각",
+            content: (
+                <>
+                    <p>궤적을 클릭해 고른 입자가 핵에서 멀리 떨어져 있을 때 따라가는 두 <Bold>직선(점근선)</Bold>을 그립니다. 들어오는 직선과 핵 사이의 거리가 충돌 계수 <Highlight>b</Highlight>이고, 두 직선 사이의 각이 산란각 <Highlight>θ</Highlight>입니다.</p>
+                    <p>최근접 거리 원과 함께 켜 두면 θ = 2·arctan(d/2b)에 들어가는 길이와 각을 한 화면에서 볼 수 있습니다.</p>
+                </>
+            )
+        },
+        replay: {
+            title: "다시 보기",
+            content: (
+                <>
+                    <p>시뮬레이션의 <Bold>모든 프레임</Bold>이 기록되어, 실행 중이든 끝난 뒤든 시간 막대를 끌어 앞뒤로 오갈 수 있습니다. 막대를 움직이면 실행은 일시정지됩니다.</p>
+                    <p>한 프레임씩 넘기거나 재생 속도를 늦춰 보세요. 입자를 고르고 <Highlight>최근접 순간</Highlight>으로 이동하면, 몇 프레임 만에 지나가 버리는 방향 전환을 자세히 볼 수 있습니다.</p>
+                    <p>아주 긴 실행은 메모리를 아끼기 위해 프레임을 <Highlight>일정 간격으로 건너뛰며</Highlight> 기록합니다.</p>
+                </>
+            )
+        },
+        permalink: {
+            title: "링크 공유",
+            content: (
+                <>
+                    <p>주소창의 링크에는 <Bold>현재 설정 전체</Bold>가 담겨 있습니다. 이 링크를 열면 누구나 같은 설정으로 시뮬레이션을 시작합니다.</p>
+                    <p>수업 자료에 특정 실험을 연결해 두거나, 무작위 빔의 <Highlight>시드</Highlight>까지 같은 결과를 다른 사람과 나눌 때 쓰세요.</p>
+                </>
+            )
+        },
+        pinnedRuns: {
+            title: "실행 비교",
+            content: (
+                <>
+                    <p>끝난 실행을 <Bold>고정</Bold>해 두면, 설정을 바꿔 새로 실행해도 그래프에 세모 점으로 함께 남습니다. 5 MeV와 10 MeV처럼 한 가지만 바꾼 실행을 나란히 놓고 보세요.</p>
+                    <p>이름은 실행 당시 설정에서 자동으로 붙고, 숨기기 버튼으로 하나씩 감출 수 있습니다. 그래프의 곡선은 <Highlight>지금 설정의 이론값</Highlight>입니다.</p>
+                    <p>'궤적 겹쳐 보기'를 켜면 고정한 실행의 궤적이 화면에 흐리게 겹쳐 그려집니다.</p>
+                </>
+            )
+        },
+        inspector: {
+            title: "입자 살펴보기",
+            content: (
+                <>
+                    <p>화면에서 궤적이나 입자를 클릭하면 <Bold>그 입자 하나</Bold>의 비행을 자세히 보여줍니다. 클릭한 입자를 같은 조건으로 혼자 다시 날려 매 순간을 기록합니다.</p>
+                    <p>원자핵에 다가가면 <Highlight>운동 에너지가 위치 에너지로</Highlight> 바뀌었다가 멀어지며 되돌아옵니다. 두 에너지의 합(총 에너지)이 평평하게 유지되는지 확인해 보세요. 힘은 최근접 순간에 가장 커집니다.</p>
+                    <p>빈 곳을 클릭하거나 닫기 버튼을 누르면 선택이 풀립니다.</p>
+                </>
+            )
+        },
+        challenge: {
+            title: "수수께끼 표적 도전",
+            content: (
+                <>
+                    <p>표적핵의 <Bold>전하량 Z</Bold>(원하면 빔 에너지까지)를 숨긴 채 실험합니다. 러더퍼드처럼 산란 데이터만으로 숨은 값을 알아내 보세요.</p>
+                    <p>입자를 충분히 쏜 뒤 <Highlight>곡선 맞추기</Highlight>를 누르면 질량중심계 데이터에 θ = 2·arctan(d/2b)를 맞춰 최근접 거리 d를 구합니다. d는 Z에 비례하고 에너지에 반비례하므로, 에너지를 알면 Z를 계산할 수 있습니다. 시뮬레이션 영역이 유한해 d가 1% 정도 작게 나오는 <Highlight>계통 오차</Highlight>도 있습니다.</p>
+                    <p>에너지도 숨겼다면 입자 살펴보기의 <Highlight>속력</Highlight>으로 먼저 에너지를 구하세요. 같은 도전 번호는 언제나 같은 표적을 숨기므로, 반 전체가 같은 문제를 풀 수 있습니다.</p>
+                </>
+            )
+        },
+        figureExport: {
+            title: "그림으로 저장",
+            content: (
+                <>
+                    <p>지금 화면의 궤적이나 그래프를 발표 자료와 학습지에 쓸 수 있는 그림 파일로 저장합니다. <Bold>SVG</Bold>는 아무리 키워도 선명한 벡터 그림이고, <Bold>PNG</Bold>는 고른 배율로 크게 그린 이미지입니다.</p>
+                    <p><Highlight>인쇄용 밝은 배경</Highlight>을 켜면 흰 바탕에 색을 진하게 바꿔 그려 종이에서도 잘 보입니다. 설정 설명을 넣으면 입자, 에너지, 표적 같은 실행 조건이 그림 아래에 적히고, 궤적 그림에는 fm 눈금 막대를 넣을 수 있습니다.</p>
+                    <p>그림은 브라우저 안에서 만들어지므로 인터넷 연결이 없어도 됩니다.</p>
+                </>
+            )
+        }
+    },
+    projectileExplanations: (name: string, isAttractive: boolean) => ({
+        kineticEnergy: {
+            title: `${name} 운동 에너지`,
+            content: (
+                 <>
+                    <p>{withJosa(name, '이', '가')} 처음 발사될 때 가진 에너지(속도)를 결정합니다.</p>
+                    <p><Bold>에너지가 높으면 (빠르면)</Bold> 입자는 원자핵의 영향을 적게 받아 경로가 조금만 휘어집니다.</p>
+                    <p><Bold>에너지가 낮으면 (느리면)</Bold> 원자핵의 영향을 더 오래 받아 경로가 크게 휘어집니다.</p>
+                </>
+            )
+        },
+        particleCount: {
+            title: `${name} 수`,
+            content: (
+                <>
+                    <p>시뮬레이션에 사용할 총 {name}의 개수입니다.</p>
+                    <p>입자 수가 많을수록 실제 실험과 같이 전체적인 산란 분포를 더 명확하게 관찰할 수 있습니다.</p>
+                    <p>최대 <Bold>50,000개</Bold>까지 쏠 수 있습니다. 입자가 수천 개를 넘으면 점이 작게 그려지고, 계산이 오래 걸려 궤적이 천천히 자랍니다.</p>
+                </>
+            )
+        },
+        targetZ: {
+            title: "표적핵 전하량 (Z)",
+            content: (
+                <>
+                    <p>표적 원자핵이 가진 양성자의 수, 즉 (+)전하의 세기를 의미합니다. 금(Au)은 Z=79 입니다.</p>
+                    {isAttractive ? (
+                        <p><Bold>Z값이 크면</Bold> 원자핵의 (+)전하가 강해져, (−)전하를 띤 {withJosa(name, '을', '를')} 더욱 세게 끌어당깁니다. 이 때문에 산란각이 전반적으로 커집니다.</p>
+                    ) : (
+                        <p><Bold>Z값이 크면</Bold> 원자핵의 (+)전하가 강해져, {withJosa(name, '을', '를')} 더욱 세게 밀어냅니다. 이 때문에 산란각이 전반적으로 커집니다.</p>
+                    )}
+                </>
+            )
+        },
+        impactParameter: {
+            title: "충돌 계수 (Impact Parameter, b)",
+            content: (
+                 <>
+                    <p><Bold>"{withJosa(name, '이', '가')} 얼마나 중심을 벗어나서 조준되었는가"</Bold>를 나타내는 거리입니다. 원자핵 중심과 입자의 초기 경로 사이의 수직 거리입니다.</p>
+                    <p><Highlight>충돌 계수가 작을수록</Highlight> (정면 충돌) 산란각은 커지고, <Highlight>충돌 계수가 클수록</Highlight> (스쳐 지나감) 산란각은 작아집니다.</p>
+                </>
+            )
+        },
+        scatteringAngle: {
+            title: "산란각 (Scattering Angle, θ)",
+            content: (
+                <>
+                    <p>{withJosa(name, '이', '가')} 원자핵의 전기적 {isAttractive ? '인력' : '반발력'}에 의해 원래 경로에서 <Bold>얼마나 휘어졌는지를 나타내는 각도</Bold>입니다.</p>
+                    <p><Bold>0°</Bold>는 직진, <Bold>180°</Bold>는 정면으로 되튕겨 나왔음을 의미합니다. 러더퍼드는 극소수의 입자만 큰 각도로 산란되는 것을 보고 원자핵 모델을 제안했습니다.</p>
+                    {isAttractive && (
+                        <p>(−)전하 입자는 원자핵 쪽으로 휘어지며, 가까이 지나가면 원자핵을 <Highlight>한 바퀴 돌아 나올</Highlight> 수도 있습니다.</p>
+                    )}
+                </>
+            )
+        },
+    }),
+    app: {
+        title: '러더퍼드 산란 시뮬레이터',
+        help: '도움말 보기',
+        language: '언어',
+        subtitle: (projectile: string) => `원자핵에 쏘아진 ${projectile}의 운동`,
+        nuclearModel: '원자핵 모형',
+        thomsonModel: '톰슨 모형 (푸딩 모델)',
+        angleChart: '산란각 vs 충돌 계수',
+        randomBeam: '무작위 빔',
+        seed: '시드',
+        particleCount: (count: string) => `입자 ${count}개`,
+        centreOfMassFrame: '질량중심계로 보기',
+    },
+    chart: {
+        particles: '입자',
+        foil: '박막',
+        singleNucleus: '단일 원자핵',
+        singleNucleusReference: '단일 원자핵 (비교)',
+        nuclearModel: '원자핵 모형',
+        thomsonModel: '톰슨 모형',
+        classicalReference: '고전 역학 (비교)',
+        relativistic: '상대론',
+        classical: '고전',
+        theory: '이론값',
+        fittedCurve: '맞춘 곡선',
+        residual: '잔차',
+        impactParameter: '충돌 계수',
+        scatteringAngle: '산란각',
+        scatteringAngleAxis: '산란각 (°)',
+        impactParameterAxis: '충돌 계수 (fm)',
+        residualAxis: '잔차 (°)',
+        headOnDistance: '정면 충돌 최근접 거리 d =',
+        fittedHeadOnDistance: '맞춘 최근접 거리 d =',
+        theoryHidden: '표적이 숨겨져 있어 이론 곡선을 그리지 않습니다.',
+        rmsResidual: 'RMS 잔차 =',
+        meanAngle: '평균 산란각',
+        maxAngle: '최대 산란각',
+        backscattered: '90° 넘게 산란',
+        angleDifference: '|Δθ| 평균 / 최대',
+        angleRatio: 'θ 비율',
+        smallAnglePrediction: (ratio: string) => `(작은 각 예측 ${ratio})`,
+    },
+    projectiles: {
+        alpha: '알파 입자',
+        proton: '양성자',
+        deuteron: '중양성자',
+        carbon: '탄소 이온',
+        electron: '전자',
+        positron: '양전자',
+        muon: '뮤온',
+        custom: '사용자 정의 입자',
+    } satisfies Record<ProjectileType, string>,
+    controls: {
+        title: '시뮬레이션 제어',
+        projectile: '입사 입자',
+        customProjectile: '사용자 정의',
+        customCharge: '전하 (e)',
+        customMass: '질량 (u)',
+        targetZ: '표적핵 전하량 (Z)',
+        targetMassNumber: '표적핵 질량수 (A)',
+        massNumberFromZ: 'Z로 추정',
+        focusMode: '원자핵 집중 탐사',
+        targetMode: '표적 종류',
+        targetModes: {
+            single: '단일 원자핵',
+            foil: '얇은 박막 (다중 산란)',
+            thomson: '톰슨 모형 (푸딩 모델)',
+        } satisfies Record<TargetMode, string>,
+        splitView: '톰슨 모형과 나란히 비교',
+        threeDimensional: '3D 빔 (원판 단면)',
+        potential: '상호작용 퍼텐셜',
+        potentials: {
+            coulomb: '점전하 쿨롱',
+            screened: '차폐된 쿨롱 (토마스-페르미)',
+            sphere: '균일하게 대전된 구',
+            woodsSaxon: '쿨롱 + 우즈-색슨 핵력',
+        } satisfies Record<PotentialModel, string>,
+        foilLayers: '박막 두께',
+        layerUnit: '층',
+        foilSpacing: '원자핵 간격',
+        foilArrangement: '원자핵 배치',
+        foilArrangements: {
+            lattice: '격자',
+            random: '무작위',
+        } satisfies Record<FoilArrangement, string>,
+        beamMode: '빔 방식',
+        beamModes: {
+            ladder: '등간격 충돌 계수',
+            random: '무작위 빔 (몬테카를로)',
+        } satisfies Record<BeamMode, string>,
+        seed: '난수 시드',
+        newSeed: '새 시드 뽑기',
+        integrator: '수치 적분 방법',
+        integrators: {
+            euler: '오일러 (고정 간격)',
+            verlet: '속도 베를레 (고정 간격)',
+            rk4: 'RK4 (고정 간격)',
+            rk45: '적응형 RK45',
+        } satisfies Record<IntegratorType, string>,
+        relativistic: '상대론적 역학',
+        energyRange: '에너지 범위',
+        start: '시작',
+        pause: '일시정지',
+        resume: '계속',
+        reset: '시뮬레이션 초기화',
+    },
+    canvas: {
+        thomsonInterior: (radius: string) => `톰슨 원자 내부 · (+)전하가 반지름 ${radius} fm에 고르게 퍼져 있음`,
+        zoomIn: '확대',
+        zoomOut: '축소',
+        fit: '맞춤',
+        fitAtom: '원자 전체가 보이게 맞춤',
+        fitClosestApproach: '최근접 거리가 잘 보이게 맞춤',
+        resetView: '원래대로',
+        resetViewHint: '처음 배율로',
+    },
+    detectors: {
+        title: '섬광 검출기',
+        angle: '위치각',
+        width: '폭',
+        count: '계수',
+        rate: '계수율',
+        remove: '검출기 제거',
+        elapsed: '경과 시간',
+        add: '검출기 추가',
+        solidAngle: '입체각',
+    },
+    diagnostics: {
+        title: '보존량 진단',
+        maxEnergyDrift: '최대 |ΔE/E₀|',
+        maxAngularMomentumDrift: '최대 |ΔL/L₀|',
+        notCentral: '박막에서는 원자핵이 여러 개이므로 각운동량은 보존되지 않습니다. 에너지만 확인하세요.',
+        particle: '입자',
+        empty: '시뮬레이션을 시작하면 진단 결과가 표시됩니다.',
+        truncated: (shown: string, total: string) => `오차가 큰 ${shown}개 입자만 표시합니다 (전체 ${total}개).`,
+    },
+    crossSection: {
+        title: '미분 산란 단면적',
+        simulation: '시뮬레이션',
+        incomplete: '불완전한 구간',
+        rutherford: '러더퍼드 1/sin⁴(θ/2)',
+        particleCount: '입자 수',
+        binCount: '각도 구간 수',
+        empty: '시뮬레이션이 끝나면 산란 단면적이 계산됩니다.',
+    },
+    sweep: {
+        title: '매개변수 스윕',
+        parameter: '스윕할 변수',
+        parameters: {
+            targetZ: '표적핵 전하량 (Z)',
+            energy: '운동 에너지',
+            projectile: '입사 입자',
+        } satisfies Record<SweepParameter, string>,
+        axes: {
+            targetZ: '표적핵 전하량 (Z)',
+            energy: '운동 에너지 (MeV)',
+            projectile: '입사 입자',
+        } satisfies Record<SweepParameter, string>,
+        metrics: {
+            meanAngle: '평균 산란각',
+            backscatterFraction: '90° 넘게 산란된 비율',
+            minClosestApproach: '최소 최근접 거리',
+        } satisfies Record<Exclude<keyof RunSummary, 'particleCount'>, string>,
+        start: '시작값',
+        end: '끝값',
+        steps: '실행 횟수',
+        run: '스윕 실행',
+        cancel: '스윕 중지',
+        progress: (done: string, total: string) => `${done} / ${total}회 완료`,
+        plan: (runs: string, particles: string) => `${runs}회 실행 · 실행마다 입자 ${particles}개`,
+        empty: '스윕을 실행하면 설정마다 결과가 하나씩 그래프에 찍힙니다.',
+    },
+    presetPanel: {
+        title: '실험 프리셋',
+        custom: '직접 설정',
+        userPreset: (name: string) => `내 프리셋 · ${name}`,
+        userDescription: (projectile: string, energy: string, targetZ: number, particles: string) => `${projectile} ${energy} MeV → Z = ${targetZ} · 입자 ${particles}개`,
+        name: '프리셋 이름',
+        save: '현재 설정 저장',
+        copyLink: '링크 복사',
+        copied: '복사됨!',
+        copyFailed: '복사하지 못했습니다. 주소창의 링크를 직접 복사하세요.',
+        delete: '프리셋 삭제',
+    },
+    presets: {
+        'geiger-marsden-1909': {
+            name: '가이거–마스든 1909 금박',
+            description: '라듐에서 나온 약 7.7 MeV 알파 입자를 얇은 금박에 쏜 실험입니다. 대부분은 거의 그대로 지나가지만 약 8000개 중 하나꼴로 90° 넘게 튕겨 나와, 원자의 질량과 양전하가 아주 작은 핵에 모여 있다는 결론으로 이어졌습니다.',
+        },
+        'aluminium-7-7-mev': {
+            name: '알루미늄 · 7.7 MeV 알파',
+            description: '전하가 작은 알루미늄 핵에는 같은 알파 입자가 훨씬 가까이 다가갑니다. 정면 충돌에 가까우면 최근접 거리가 핵 반지름과 비슷해져 핵력이 끼어들고, 큰 산란각에서 러더퍼드 공식과 어긋납니다. 이 "비정상 산란"은 원자핵의 크기를 처음 어림하는 실마리가 되었습니다.',
+        },
+        'low-energy-proton-carbon': {
+            name: '저에너지 양성자 · 탄소',
+            description: '1 MeV 양성자를 가벼운 탄소 핵(¹²C)에 쏩니다. 표적이 입사 입자보다 고작 12배 무거워 핵이 눈에 띄게 튕겨 나가므로, 실험실계와 질량중심계의 산란각 차이를 살펴보기 좋습니다.',
+        },
+    } satisfies Record<BuiltInPresetId, { name: string; description: string }>,
+    replay: {
+        title: '다시 보기',
+        timeline: '시간 막대',
+        first: '처음으로',
+        previous: '한 프레임 뒤로',
+        next: '한 프레임 앞으로',
+        play: '재생',
+        pause: '멈춤',
+        live: '실시간',
+        speed: '재생 속도',
+        empty: '시뮬레이션을 실행하면 모든 프레임이 기록됩니다.',
+        frame: '프레임',
+        frameInterval: (interval: string) => `${interval}프레임마다 기록`,
+        selectParticle: '입자 선택',
+        particle: (id: string, impactParameter: string) => `입자 #${id} · b = ${impactParameter} fm`,
+        jumpToClosestApproach: '최근접 순간으로',
+    },
+    runFile: {
+        title: '결과 저장 · 불러오기',
+        exportCsv: 'CSV 내보내기',
+        exportJson: 'JSON 내보내기',
+        includePaths: '궤적 포함',
+        import: '불러오기',
+        empty: '실행이 끝나면 결과를 내보낼 수 있습니다.',
+        imported: '불러온 결과',
+        savedAt: (date: string) => `${date} 저장`,
+        errors: {
+            missingColumn: (column: string) => `CSV 파일에 '${column}' 열이 없습니다.`,
+            notRunFile: () => '러더퍼드 산란 시뮬레이터에서 내보낸 파일이 아닙니다.',
+            unsupportedVersion: (version: string) => `지원하지 않는 파일 버전입니다 (${version}). 시뮬레이터를 새로 고쳐 보세요.`,
+            noResults: () => '파일에 산란 결과가 없습니다.',
+            badJson: () => 'JSON 파일을 읽을 수 없습니다.',
+            unreadable: (detail: string) => `파일을 읽을 수 없습니다. ${detail}`,
+        } satisfies Record<RunFileErrorReason, (detail: string) => string>,
+    },
+    pinnedRuns: {
+        title: '실행 비교',
+        pin: '현재 실행 고정',
+        clear: '모두 지우기',
+        ghosting: '궤적 겹쳐 보기',
+        particleCount: (count: string) => `입자 ${count}개`,
+        hide: '숨기기',
+        show: '보이기',
+        remove: (label: string) => `${label} 비교에서 빼기`,
+        empty: '실행이 끝난 뒤 고정하면, 다음 실행의 그래프에 함께 표시됩니다.',
+        full: (max: string) => `최대 ${max}개까지 고정할 수 있습니다.`,
+        foilLayers: (layers: string) => `박막 ${layers}층`,
+        thomson: '톰슨 원자',
+        relativistic: '상대론',
+        seed: (seed: number) => `시드 ${seed}`,
+        threeDimensional: '3D',
+    },
+    overlays: {
+        title: '겹쳐 그리기',
+        potential: '퍼텐셜 에너지',
+        forces: '힘 화살표',
+        closestApproach: '최근접 거리 원',
+        asymptotes: '점근선과 산란각',
+    },
+    inspector: {
+        title: (id: string) => `입자 #${id}`,
+        impactParameter: '충돌 계수 b',
+        labAngle: '산란각 (실험실계)',
+        cmAngle: '산란각 (질량중심계)',
+        closestApproach: '최근접 거리',
+        timeOfFlight: '비행 시간',
+        azimuth: '방위각 φ',
+        jumpToClosestApproach: '최근접 순간 보기',
+        close: '닫기',
+        tracing: '궤적을 다시 계산하는 중…',
+        timeAxis: '시간 (zs)',
+        plots: {
+            distance: '거리',
+            speed: '속력',
+            energy: '에너지',
+            force: '힘',
+        },
+        series: {
+            distance: '거리',
+            speed: '속력',
+            kineticEnergy: '운동 에너지',
+            potentialEnergy: '위치 에너지',
+            totalEnergy: '총 에너지',
+            force: '힘',
+        },
+    },
+    challenge: {
+        title: '수수께끼 표적',
+        number: '도전 번호',
+        newNumber: '새 번호 뽑기',
+        hideEnergy: '에너지도 숨기기',
+        start: '도전 시작',
+        hidden: (number: number, isEnergyHidden: boolean) => `도전 #${number} · ${isEnergyHidden ? 'Z와 에너지' : 'Z'}를 숨겼습니다.`,
+        fit: '곡선 맞추기',
+        fittedDistance: (count: string) => `맞춘 최근접 거리 (입자 ${count}개)`,
+        fittedZ: (energy: string) => `${energy} MeV에서 Z ≈`,
+        useEstimate: '추정값에 넣기',
+        fitHint: '실행이 끝난 뒤 곡선을 맞출 수 있습니다.',
+        energyEstimate: '추정 에너지 (MeV)',
+        zEstimate: '추정 전하량 Z',
+        submit: '제출하고 정답 보기',
+        giveUp: '포기',
+        score: (number: number) => `도전 #${number} 점수`,
+        scoreExcellent: '훌륭합니다! 러더퍼드도 감탄했을 거예요.',
+        scoreGood: '좋은 추정입니다. 큰 각도 데이터를 더 모으면 더 정확해집니다.',
+        scoreLow: '아쉽네요. 입자를 더 쏘거나 충돌 계수가 작은 입자를 늘려 다시 맞춰 보세요.',
+        targetZ: '표적핵 전하량 Z',
+        energy: '빔 에너지',
+        answer: '정답',
+        estimate: '추정',
+        finish: '도전 마치기',
+    },
+    view3D: {
+        title: '3D 보기',
+        views: {
+            oblique: '비스듬히',
+            side: '옆에서',
+            beam: '빔 축에서',
+        } satisfies Record<View3DPreset, string>,
+        zoomIn: '확대',
+        zoomOut: '축소',
+        dragHint: '드래그하여 돌리기',
+        azimuthTitle: '방위각 분포',
+        azimuthAxis: '방위각 φ (°)',
+        countAxis: '입자 수',
+        counts: '시뮬레이션',
+        uniform: '고른 분포',
+        azimuthEmpty: '실행이 끝나면 방위각 분포가 표시됩니다.',
+    },
+    figure: {
+        export: '그림 저장',
+        title: '그림으로 저장',
+        lightTheme: '인쇄용 밝은 배경',
+        caption: '설정 설명 넣기',
+        scaleBar: 'fm 눈금 막대',
+        resolution: 'PNG 배율',
+        resolutionOption: (factor: number) => `화면 크기의 ${factor}배`,
+        pngFailed: 'PNG 그림을 만들지 못했습니다.',
+        hiddenTarget: 'Z = ? (수수께끼 표적)',
+        frames: {
+            lab: '실험실계',
+            cm: '질량중심계',
+        } satisfies Record<ReferenceFrame, string>,
+    },
+};
+
+export type Messages = typeof ko;
@@ -0,0 +1,5 @@
+import React from 'react';
+
+// Emphasis inside the explanation paragraphs of every catalog.
+export const Highlight: React.FC<{children: React.ReactNode}> = ({ children }) => <span className="text-cyan-400 font-semibold">{children}</span>;
+export const Bold: React.FC<{children: React.ReactNode}> = ({ children }) => <span className="font-bold text-gray-100">{children}</span>;
@@ -0,0 +1,93 @@
+/**
+ * Runs simulations without a browser and writes the scatter results.
+ *
+ *   npm run batch -- settings.json [--format csv|json] [--out results.csv]
+ *
+ * The settings file holds one object, or an array of them for several runs. Each object
+ * may leave fields out; they fall back to the app's defaults. Pass `-` to read from stdin.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { DEFAULT_SETTINGS } from '../constants';
+import { createSimulationEngine, runToCompletion } from '../simulation/engine';
+import type { FinishedPayload } from '../simulation/protocol';
+import type { SimulationSettings } from '../types';
+import { resolveProjectile, resolveTargetMass, resolveTargetMassNumber } from '../utils/projectiles';
+import { CSV_COLUMNS, csvRows } from '../utils/runFile';
+
+type OutputFormat = 'csv' | 'json';
+
+interface BatchOptions {
+    input: string;
+    format: OutputFormat;
+    out: string | null;
+}
+
+const USAGE = 'Usage: npm run batch -- <settings.json|-> [--format csv|json] [--out <file>]';
+
+const parseArgs = (args: string[]): BatchOptions => {
+    let input: string | null = null;
+    let format: OutputFormat | null = null;
+    let out: string | null = null;
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--format') {
+            const value = args[++i];
+            if (value !== 'csv' && value !== 'json') throw new Error(`Unknown format "${value}".\n${USAGE}`);
+            format = value;
+        } else if (arg === '--out') {
+            out = args[++i] ?? null;
+            if (!out) throw new Error(`--out needs a file name.\n${USAGE}`);
+        } else if (input === null) {
+            input = arg;
+        } else {
+            throw new Error(`Unexpected argument "${arg}".\n${USAGE}`);
+        }
+    }
+    if (input === null) throw new Error(USAGE);
+    // Without --format, the output file's extension decides.
+    return { input, format: format ?? (out?.endsWith('.json') ? 'json' : 'csv'), out };
+};
+
+const readSettings = (input: string): SimulationSettings[] => {
+    const parsed: unknown = JSON.parse(readFileSync(input === '-' ? 0 : input, 'utf8'));
+    const entries = Array.isArray(parsed) ? parsed : [parsed];
+    return entries.map((entry, i) => {
+        if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+            throw new Error(`Run ${i}: settings must be a JSON object.`);
+        }
+        return { ...DEFAULT_SETTINGS, ...(entry as Partial<SimulationSettings>) };
+    });
+};
+
+const runSimulation = (settings: SimulationSettings): FinishedPayload => {
+    const engine = createSimulationEngine({ recordPaths: false });
+    engine.reset({
+        settings,
+        projectile: resolveProjectile(settings),
+        target: { massNumber: resolveTargetMassNumber(settings), mass: resolveTargetMass(settings) },
+    });
+    return runToCompletion(engine);
+};
+
+const toCsv = (results: FinishedPayload[]) =>
+    [CSV_COLUMNS.join(','), ...results.flatMap(csvRows)].join('\n') + '\n';
+
+const main = () => {
+    const options = parseArgs(process.argv.slice(2));
+    const results = readSettings(options.input).map((settings, i) => {
+        const startedAt = Date.now();
+        const result = runSimulation(settings);
+        console.error(`Run ${i}: ${result.scatterData.length} particles in ${((Date.now() - startedAt) / 1000).toFixed(1)} s`);
+        return result;
+    });
+    const output = options.format === 'json' ? JSON.stringify(results, null, 2) + '\n' : toCsv(results);
+    if (options.out) writeFileSync(options.out, output);
+    else process.stdout.write(output);
+};
+
+try {
+    main();
+} catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+}
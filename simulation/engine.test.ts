@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import type { SimulationSettings } from '../types';
+import { resolveProjectile, resolveTargetMass, resolveTargetMassNumber } from '../utils/projectiles';
+import { headOnDistanceFm, predictedAngleDeg, relativisticDeflectionRatio, scatteringKinematics } from '../utils/rutherford';
+import { createSimulationEngine, MAX_RUN_FRAMES, runToCompletion } from './engine';
+import { PATH_POINT_SIZE_3D, unpackPaths } from './pathBuffer';
+
+const BASE_SETTINGS: SimulationSettings = {
+    projectile: 'alpha',
+    customCharge: 2,
+    customMass: 4,
+    energy: 5,
+    energyRange: 'standard',
+    isRelativistic: false,
+    numParticles: 10,
+    targetZ: 79,
+    targetMassNumber: null,
+    isFocusModeEnabled: true,
+    integrator: 'rk45',
+    potential: 'coulomb',
+    beamMode: 'ladder',
+    seed: 1909,
+    targetMode: 'single',
+    foilLayers: 3,
+    foilSpacing: 500,
+    foilArrangement: 'lattice',
+    isSplitView: false,
+    isThreeDimensional: false,
+};
+
+// Particles are retired a few thousand fm out, where the Coulomb tail still bends them by
+// about d/2R; close encounters keep that well under a percent of the deflection.
+const CLOSE_IMPACT_PARAMETER = 50; // fm
+const ANGLE_TOLERANCE = 0.01;
+// Launched inside that tail with the full beam energy, particles also get about d/r₀ closer.
+const CLOSEST_APPROACH_TOLERANCE = 0.02;
+const SLOW_TEST_TIMEOUT = 60_000; // ms
+
+const simulate = (overrides: Partial<SimulationSettings>) => {
+    const settings = { ...BASE_SETTINGS, ...overrides };
+    const engine = createSimulationEngine();
+    engine.reset({
+        settings,
+        projectile: resolveProjectile(settings),
+        target: { massNumber: resolveTargetMassNumber(settings), mass: resolveTargetMass(settings) },
+    });
+    return { settings, results: runToCompletion(engine) };
+};
+
+const expectRutherfordAngles = (overrides: Partial<SimulationSettings>) => {
+    const { settings, results } = simulate(overrides);
+    const frames = [
+        { data: results.cmScatterData, kinematics: scatteringKinematics(settings, 'cm') },
+        { data: results.scatterData, kinematics: scatteringKinematics(settings, 'lab') },
+    ];
+    frames.forEach(({ data, kinematics }) => {
+        const close = data.filter(p => p.x <= CLOSE_IMPACT_PARAMETER);
+        expect(close.length).toBeGreaterThan(0);
+        close.forEach(p => {
+            const expected = predictedAngleDeg(p.x, kinematics);
+            expect(Math.abs(p.y - expected) / expected).toBeLessThan(ANGLE_TOLERANCE);
+        });
+    });
+
+    // r_min = ±d/2 + √((d/2)² + b²), with the minus sign for an attracted projectile.
+    const halfDistance = scatteringKinematics(settings, 'cm').headOnDistance / 2;
+    const sign = resolveProjectile(settings).charge < 0 ? -1 : 1;
+    results.cmScatterData.forEach((p, i) => {
+        if (p.x > CLOSE_IMPACT_PARAMETER) return;
+        const expected = sign * halfDistance + Math.hypot(halfDistance, p.x);
+        expect(Math.abs(results.closestApproaches[i] - expected) / expected).toBeLessThan(CLOSEST_APPROACH_TOLERANCE);
+    });
+    return results;
+};
+
+describe('simulation engine', () => {
+    it('reproduces the Rutherford angle for α-particles on gold', () => {
+        const results = expectRutherfordAngles({});
+        results.diagnostics.forEach(d => {
+            expect(Math.abs(d.energyDrift)).toBeLessThan(1e-6);
+            expect(Math.abs(d.angularMomentumDrift)).toBeLessThan(1e-6);
+        });
+    }, SLOW_TEST_TIMEOUT);
+
+    it('converts centre-of-mass angles to lab angles for a recoiling light nucleus', () => {
+        expectRutherfordAngles({ targetZ: 6 });
+    }, SLOW_TEST_TIMEOUT);
+
+    it('deflects an attracted projectile by the same angle as a repelled one', () => {
+        expectRutherfordAngles({ projectile: 'custom', customCharge: -2 });
+    }, SLOW_TEST_TIMEOUT);
+
+    it('turns fast particles through the relativistic small-angle ratio', () => {
+        const { settings, results } = simulate({ energy: 1000, energyRange: 'ultra', isRelativistic: true, isFocusModeEnabled: false });
+        const expected = relativisticDeflectionRatio(settings.energy, resolveProjectile(settings).mass);
+        const classical = results.classicalCmScatterData!;
+        results.cmScatterData.forEach((p, i) => {
+            expect(p.y / classical[i].y).toBeCloseTo(expected, 2);
+        });
+    });
+
+    it('traces a particle again along the path it took in the run', () => {
+        const settings = { ...BASE_SETTINGS, isFocusModeEnabled: false, targetZ: 6 };
+        const engine = createSimulationEngine();
+        engine.reset({
+            settings,
+            projectile: resolveProjectile(settings),
+            target: { massNumber: resolveTargetMassNumber(settings), mass: resolveTargetMass(settings) },
+        });
+        const results = runToCompletion(engine);
+        const trace = engine.trace(3)!;
+        expect(trace.labAngle).toBe(results.scatterData[3].y);
+        expect(trace.cmAngle).toBe(results.cmScatterData[3].y);
+        expect(trace.closestApproach).toBe(results.closestApproaches[3]);
+        expect(Math.min(...trace.samples.distance)).toBeCloseTo(trace.closestApproach, 0);
+        const { direction } = trace.outgoing;
+        expect(Math.abs(Math.atan2(direction.y, direction.x)) * (180 / Math.PI)).toBeCloseTo(trace.labAngle, 6);
+        // The potential energy of the relative motion is handed back to it on the way out.
+        const { kineticEnergy, potentialEnergy } = trace.samples;
+        const total = kineticEnergy.map((k, i) => k + potentialEnergy[i]);
+        total.forEach(e => expect(Math.abs(e - total[0]) / total[0]).toBeLessThan(1e-6));
+    });
+
+    it('draws straight stretches with few points and ends each path where its particle left', () => {
+        const settings = { ...BASE_SETTINGS, isFocusModeEnabled: false };
+        const engine = createSimulationEngine();
+        const reset = engine.reset({
+            settings,
+            projectile: resolveProjectile(settings),
+            target: { massNumber: resolveTargetMassNumber(settings), mass: resolveTargetMass(settings) },
+        });
+        let frames = 0;
+        while (!engine.step() && frames < MAX_RUN_FRAMES) frames++;
+        const { newPaths, positions } = engine.takeUpdate();
+        const paths = unpackPaths([reset.initialPaths, newPaths]);
+
+        reset.particles.forEach((p, i) => {
+            const path = paths[p.id];
+            expect(path[path.length - 1]).toEqual({ x: positions[2 * i], y: positions[2 * i + 1] });
+        });
+        // The widest particle barely turns, so its path is mostly long straight segments.
+        const widest = reset.particles.reduce((a, b) => (b.impactParameter > a.impactParameter ? b : a));
+        expect(paths[widest.id].length).toBeLessThan(frames / 50);
+    });
+
+    it('samples the potential around the nucleus and the force pushing each particle away', () => {
+        const engine = createSimulationEngine();
+        const reset = engine.reset({
+            settings: BASE_SETTINGS,
+            projectile: resolveProjectile(BASE_SETTINGS),
+            target: { massNumber: resolveTargetMassNumber(BASE_SETTINGS), mass: resolveTargetMass(BASE_SETTINGS) },
+        });
+        // U = k·q₁·q₂ / r, which is the beam energy at the head-on distance.
+        const headOnDistance = headOnDistanceFm(BASE_SETTINGS.energy, BASE_SETTINGS.targetZ, 2) * 1e-15;
+        const field = engine.sampleField({ x0: headOnDistance, y0: 0, step: headOnDistance, columns: 2, rows: 1 });
+        expect(field.energies[0]).toBeCloseTo(BASE_SETTINGS.energy, 4);
+        expect(field.energies[1]).toBeCloseTo(BASE_SETTINGS.energy / 2, 4);
+
+        const { forces, positions } = engine.takeUpdate(false, true);
+        expect(forces).toHaveLength(2 * reset.particles.length);
+        reset.particles.forEach((_, i) => {
+            const outward = forces![2 * i] * positions[2 * i] + forces![2 * i + 1] * positions[2 * i + 1];
+            expect(outward).toBeGreaterThan(0);
+        });
+        expect(engine.takeUpdate().forces).toBeNull();
+    });
+
+    it('flies a 3D beam across its disk and keeps each particle in its own plane', () => {
+        const settings = { ...BASE_SETTINGS, isThreeDimensional: true };
+        const engine = createSimulationEngine();
+        const reset = engine.reset({
+            settings,
+            projectile: resolveProjectile(settings),
+            target: { massNumber: resolveTargetMassNumber(settings), mass: resolveTargetMass(settings) },
+        });
+        const launch = reset.initialPaths3D;
+        expect(launch).toHaveLength(PATH_POINT_SIZE_3D * reset.particles.length);
+        const results = runToCompletion(engine);
+
+        // The polar angles follow Rutherford as the planar ones do, and a repelled particle
+        // leaves at the azimuth it came in at.
+        const kinematics = scatteringKinematics(settings, 'lab');
+        results.scatterData.forEach((p, i) => {
+            const base = PATH_POINT_SIZE_3D * i;
+            const launchAzimuth = Math.atan2(launch[base + 3], launch[base + 2]) * (180 / Math.PI);
+            const offset = ((results.azimuths![i] - launchAzimuth) % 360 + 540) % 360 - 180;
+            expect(Math.abs(offset)).toBeLessThan(1e-3);
+            if (p.x <= CLOSE_IMPACT_PARAMETER) {
+                const expected = predictedAngleDeg(p.x, kinematics);
+                expect(Math.abs(p.y - expected) / expected).toBeLessThan(ANGLE_TOLERANCE);
+            }
+        });
+        results.diagnostics.forEach(d => expect(Math.abs(d.angularMomentumDrift)).toBeLessThan(1e-6));
+        expect(engine.takeUpdate().newPaths3D.length).toBeGreaterThan(0);
+    }, SLOW_TEST_TIMEOUT);
+
+    it('rebuilds the same random beam from the same seed', () => {
+        const overrides: Partial<SimulationSettings> = { beamMode: 'random', integrator: 'verlet', isFocusModeEnabled: false, numParticles: 20 };
+        expect(simulate(overrides).results.scatterData).toEqual(simulate(overrides).results.scatterData);
+    });
+});
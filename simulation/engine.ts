@@ -0,0 +1,1183 @@
+import {
+    ALPHA_PARTICLE_MASS,
+    CANVAS_HEIGHT,
+    CANVAS_WIDTH,
+    DETECTOR_RADIUS_PIXELS,
+    ELECTRON_MASS,
+    ELEMENTARY_CHARGE,
+    FOCUS_BEAM_RADIUS,
+    JOULES_PER_MEV,
+    K_COULOMB,
+    NUCLEUS_RADIUS_BASE,
+    SCALE,
+    SPEED_OF_LIGHT,
+    THOMSON_ATOM_RADIUS,
+    TIME_STEP,
+} from '../constants';
+import type {
+    ConservationDiagnostic,
+    Detector,
+    DetectorHitUpdate,
+    IntegratorType,
+    ParticleSnapshot,
+    PotentialModel,
+    ScatterPoint,
+    SimulationSettings,
+    Vector2D,
+    Vector3D,
+} from '../types';
+import { azimuthDeg, detectorDirection, isThreeDimensionalRun, polarAngleDeg } from '../utils/beamGeometry';
+import { mulberry32 } from '../utils/random';
+import { PATH_POINT_SIZE, PATH_POINT_SIZE_3D } from './pathBuffer';
+import type {
+    FieldRegion,
+    FinishedPayload,
+    ParticleTrace,
+    PotentialField,
+    ResetCompletePayload,
+    ResetPayload,
+    TraceSamples,
+    UpdatePayload,
+} from './protocol';
+
+const MIN_RADIUS = 1e-15;
+const BEAM_RADIUS_PIXELS = CANVAS_HEIGHT / 2 * 0.8;
+const RK45_RELATIVE_TOLERANCE = 1e-9;
+const RK45_POSITION_TOLERANCE = 1e-20; // m
+const RK45_VELOCITY_TOLERANCE = 1e-2; // m/s
+const RK45_MIN_STEP = 1e-30;
+const RK45_MAX_SUBSTEPS = 2000;
+const DETECTOR_RADIUS = DETECTOR_RADIUS_PIXELS * SCALE; // m
+const FOIL_CUTOFF_SPACINGS = 1;
+const BOHR_RADIUS = 5.29177210903e-11; // m
+const WOODS_SAXON_DEPTH = 50; // MeV
+const WOODS_SAXON_DIFFUSENESS = 0.65e-15; // m
+const FOIL_HALF_HEIGHT = (CANVAS_HEIGHT / 2 + 100) * SCALE; // m
+const MAX_SEPARATION_FACTOR = 4; // Recoiling pairs this many box half-widths apart no longer interact.
+const THOMSON_TIME_SCALE = THOMSON_ATOM_RADIUS / (CANVAS_WIDTH / 2 * SCALE);
+const RECOIL_PATH_MIN_STEP = 0.5 * SCALE; // m, half a pixel at the default zoom
+// A path point is kept once the particle has turned this far or gone this far (times the
+// target's time scale) since the last one, so straight stretches cost only a few points.
+const PATH_TURN_TOLERANCE = 0.5 * (Math.PI / 180); // rad
+const PATH_MAX_GAP = 20 * SCALE; // m
+const MAX_FRAME_ENERGY = 15; // MeV, above which the frame step stops shrinking with energy
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5)); // rad
+
+// Radial force F(r) (N, positive = repulsive) and potential energy U(r) (J) of one source.
+interface ForceModel {
+    isSingular: boolean;
+    force: (r: number) => number;
+    energy: (r: number) => number;
+}
+
+// A point the projectile interacts with. Nuclei leave the model out and use the selected potential.
+// Every source lies in the plane z = 0.
+interface Source extends Vector2D {
+    model?: ForceModel;
+}
+
+// Besides its sources, a target sets the box its particles fly through: they are launched
+// at launchX, retired outside ±halfWidth × ±halfHeight and stepped timeScale times the frame step.
+interface Target {
+    nuclei: Source[];
+    cutoff: number; // m, Infinity for an unscreened target
+    cells: Map<number, Source[]> | null;
+    isSingular: boolean;
+    launchX: number; // m
+    halfWidth: number; // m
+    halfHeight: number; // m
+    timeScale: number;
+    electrons?: Vector2D[]; // Set for a Thomson atom
+}
+
+// Each particle's position and momentum hold the separation r = projectile − nucleus and its
+// conjugate momentum; labPosition and recoilPosition are where the pair appears in the lab.
+// A planar run keeps every z at zero.
+interface EngineParticle {
+    id: number;
+    color: string;
+    position: Vector3D;
+    initialPosition: Vector3D;
+    labPosition: Vector3D;
+    recoilPosition: Vector3D;
+    momentum: Vector3D;
+    velocity: Vector3D;
+    force?: Vector3D; // Carried between Verlet steps
+    adaptiveStep?: number; // Trial RK45 step carried between frames
+    beamSpeed: number; // m/s
+    isRelativistic: boolean;
+    impactParameter: number; // m
+    timeStep: number; // s
+    time: number; // s
+    stepCount: number;
+    finished: boolean;
+    lastRecoilPoint?: Vector2D;
+    lastPathPoint?: Vector3D;
+    lastPathDirection?: Vector3D; // Lab-frame unit vector along the motion at lastPathPoint
+    closestApproach: number; // m, smallest distance to a nucleus so far
+    initialEnergy: number; // J
+    initialAngularMomentum: number;
+    angularMomentumAxis: Vector3D; // Normal of the plane through the beam axis and the launch point
+    angularMomentumScale: number;
+}
+
+type State = [number, number, number, number, number, number];
+
+type Integrator = (p: EngineParticle, t: Target) => void;
+
+export interface SimulationEngineOptions {
+    recordPaths?: boolean; // Off for runs whose trajectories are never drawn; also skips replay frames.
+}
+
+export interface SimulationEngine {
+    reset: (payload: ResetPayload) => ResetCompletePayload;
+    setDetectors: (detectors: Detector[]) => void;
+    step: () => boolean; // Advances every particle by one frame; true once all of them have finished.
+    takeUpdate: (withDiagnostics?: boolean, withForces?: boolean) => UpdatePayload; // Positions plus everything recorded since the last update.
+    results: () => FinishedPayload;
+    trace: (particleId: number) => ParticleTrace | null; // One particle flown again on its own, sampled every frame
+    sampleField: (region: FieldRegion) => PotentialField; // The main target's potential, with its nuclei where they start
+    forces: () => Float32Array; // N, x, y on each particle now, laid out like its positions
+}
+
+// Dormand–Prince 5(4) tableau. The 5th-order weights double as the last stage row.
+const DP_A = [
+    [],
+    [1 / 5],
+    [3 / 40, 9 / 40],
+    [44 / 45, -56 / 15, 32 / 9],
+    [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+    [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+    [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+const DP_B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+const DP_B4 = [5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100, 1 / 40];
+
+// With a finite cutoff the nuclei are bucketed into cutoff-sized cells, so a force
+// evaluation only visits the 3×3 neighbouring cells.
+const cellKey = (i: number, j: number) => (i + 32768) * 65536 + (j + 32768);
+
+const createTarget = (nuclei: Source[], cutoff: number, isSingular: boolean): Target => {
+    const target: Target = {
+        nuclei,
+        cutoff,
+        cells: null,
+        isSingular,
+        launchX: -CANVAS_WIDTH / 2 * SCALE,
+        halfWidth: (CANVAS_WIDTH / 2 + 50) * SCALE,
+        halfHeight: (CANVAS_HEIGHT / 2 + 50) * SCALE,
+        timeScale: 1,
+    };
+    if (cutoff !== Infinity) {
+        const cells = new Map<number, Source[]>();
+        nuclei.forEach(n => {
+            const key = cellKey(Math.floor(n.x / cutoff), Math.floor(n.y / cutoff));
+            const cell = cells.get(key);
+            if (cell) cell.push(n);
+            else cells.set(key, [n]);
+        });
+        target.cells = cells;
+    }
+    return target;
+};
+
+const forEachNearbyNucleus = (t: Target, x: number, y: number, visit: (n: Source) => void) => {
+    if (!t.cells) {
+        t.nuclei.forEach(visit);
+        return;
+    }
+    const ci = Math.floor(x / t.cutoff);
+    const cj = Math.floor(y / t.cutoff);
+    for (let i = ci - 1; i <= ci + 1; i++) {
+        for (let j = cj - 1; j <= cj + 1; j++) {
+            const cell = t.cells.get(cellKey(i, j));
+            if (cell) cell.forEach(visit);
+        }
+    }
+};
+
+const nearestNucleusDistance = (x: number, y: number, z: number, t: Target) => {
+    let nearest = Infinity;
+    forEachNearbyNucleus(t, x, y, n => {
+        nearest = Math.min(nearest, Math.sqrt((x - n.x) ** 2 + (y - n.y) ** 2 + z * z));
+    });
+    return nearest;
+};
+
+// A Thomson atom's electrons are not what the projectile approaches; its centre is.
+const centreDistance = (x: number, y: number, z: number, t: Target) => (t.electrons ? Math.hypot(x, y, z) : nearestNucleusDistance(x, y, z, t));
+
+// Switches a pair interaction smoothly off between half the cutoff and the cutoff,
+// standing in for electron screening so force and energy stay continuous.
+const switching = (r: number, cutoff: number) => {
+    const start = 0.5 * cutoff;
+    if (r <= start) return { value: 1, slope: 0 };
+    if (r >= cutoff) return { value: 0, slope: 0 };
+    const u = (r - start) / (cutoff - start);
+    return { value: 1 - 3 * u * u + 2 * u * u * u, slope: (6 * u * u - 6 * u) / (cutoff - start) };
+};
+
+const pairForce = (r: number, cutoff: number, model: ForceModel) => {
+    if (cutoff === Infinity) return model.force(r);
+    const sw = switching(r, cutoff);
+    return model.force(r) * sw.value - model.energy(r) * sw.slope;
+};
+
+const pairPotential = (r: number, cutoff: number, model: ForceModel) =>
+    model.energy(r) * (cutoff === Infinity ? 1 : switching(r, cutoff).value);
+
+const uniformSphereModel = (constant: number, radius: number): ForceModel => ({
+    isSingular: false,
+    force: r => (r >= radius ? constant / (r * r) : (constant * r) / radius ** 3),
+    energy: r => (r >= radius ? constant / r : (constant * (3 - (r * r) / radius ** 2)) / (2 * radius)),
+});
+
+// Plummer-softened point charge: the field of a blob of size ε rather than a point.
+const softenedChargeModel = (constant: number, softening: number): ForceModel => ({
+    isSingular: false,
+    force: r => (constant * r) / (r * r + softening * softening) ** 1.5,
+    energy: r => constant / Math.sqrt(r * r + softening * softening),
+});
+
+// Woods–Saxon occupation f = 1 / (1 + e^((r - R)/a)), written to avoid overflowing e^x.
+const woodsSaxonShape = (r: number, radius: number) => {
+    const x = (r - radius) / WOODS_SAXON_DIFFUSENESS;
+    return x > 0 ? Math.exp(-x) / (1 + Math.exp(-x)) : 1 / (1 + Math.exp(x));
+};
+
+interface NuclearShape {
+    forceConstant: number; // k·q₁·q₂ in N⋅m², negative when the projectile is attracted
+    screeningLength: number; // m
+    chargeRadius: number; // m
+    nuclearRadius: number; // m
+    nuclearDepth: number; // J
+}
+
+const createPotentialModel = (kind: PotentialModel, shape: NuclearShape): ForceModel => {
+    const { forceConstant, screeningLength, chargeRadius, nuclearRadius, nuclearDepth } = shape;
+    switch (kind) {
+        case 'screened':
+            return {
+                isSingular: true,
+                force: r => (forceConstant * Math.exp(-r / screeningLength)) * (1 / (r * r) + 1 / (r * screeningLength)),
+                energy: r => (forceConstant * Math.exp(-r / screeningLength)) / r,
+            };
+        case 'sphere':
+            return uniformSphereModel(forceConstant, chargeRadius);
+        case 'woodsSaxon': {
+            const sphere = uniformSphereModel(forceConstant, chargeRadius);
+            return {
+                isSingular: false,
+                force: r => {
+                    const f = woodsSaxonShape(r, nuclearRadius);
+                    return sphere.force(r) - (nuclearDepth * f * (1 - f)) / WOODS_SAXON_DIFFUSENESS;
+                },
+                energy: r => sphere.energy(r) - nuclearDepth * woodsSaxonShape(r, nuclearRadius),
+            };
+        }
+        default:
+            return {
+                isSingular: true,
+                force: r => forceConstant / (r * r),
+                energy: r => forceConstant / r,
+            };
+    }
+};
+
+// Layers are stacked along the beam and centred on the origin. A lattice is square with
+// every other layer shifted by half a spacing; a random foil scatters the same number of
+// nuclei uniformly through the same slab, seeded from the run seed.
+const buildFoilNuclei = (settings: SimulationSettings): Vector2D[] => {
+    const spacing = settings.foilSpacing * 1e-15;
+    const layers = settings.foilLayers;
+    const thickness = (layers - 1) * spacing;
+    const rows = Math.floor(FOIL_HALF_HEIGHT / spacing);
+    const nuclei: Vector2D[] = [];
+
+    for (let layer = 0; layer < layers; layer++) {
+        const x = -thickness / 2 + layer * spacing;
+        const offset = layer % 2 === 0 ? 0 : spacing / 2;
+        for (let row = -rows; row <= rows; row++) {
+            nuclei.push({ x, y: row * spacing + offset });
+        }
+    }
+
+    if (settings.foilArrangement === 'random') {
+        const random = mulberry32(settings.seed ^ 0x9E3779B9);
+        return nuclei.map(() => ({
+            x: (random() - 0.5) * Math.max(thickness, spacing),
+            y: (random() * 2 - 1) * FOIL_HALF_HEIGHT,
+        }));
+    }
+    return nuclei;
+};
+
+const combine = (s: State, h: number, ks: State[], weights: number[]) => s.map((value, i) => {
+    let sum = 0;
+    for (let j = 0; j < weights.length; j++) {
+        if (weights[j] !== 0) sum += weights[j] * ks[j][i];
+    }
+    return value + h * sum;
+}) as State;
+
+const toState = (p: EngineParticle): State => [p.position.x, p.position.y, p.position.z, p.momentum.x, p.momentum.y, p.momentum.z];
+
+// The component of L = r × p along the launch plane's normal. A central force keeps the particle
+// in that plane, so this is all of L; in a planar run it is L_z.
+const angularMomentum = (p: EngineParticle) => {
+    const { position: r, momentum: q, angularMomentumAxis: n } = p;
+    return n.x * (r.y * q.z - r.z * q.y) + n.y * (r.z * q.x - r.x * q.z) + n.z * (r.x * q.y - r.y * q.x);
+};
+
+const unitVector = (v: Vector3D): Vector3D => {
+    const length = Math.hypot(v.x, v.y, v.z) || 1;
+    return { x: v.x / length, y: v.y / length, z: v.z / length };
+};
+
+const closestApproachFm = (p: EngineParticle) => p.closestApproach / 1e-15;
+
+// Samples kept in a particle trace; longer flights keep evenly spaced frames plus the closest one.
+export const MAX_TRACE_SAMPLES = 2000;
+
+const thinSamples = (samples: TraceSamples, keepIndex: number): TraceSamples => {
+    const count = samples.time.length;
+    if (count <= MAX_TRACE_SAMPLES) return samples;
+    const stride = Math.ceil(count / MAX_TRACE_SAMPLES);
+    const indices: number[] = [];
+    for (let i = 0; i < count; i += stride) {
+        if (keepIndex > indices[indices.length - 1] && keepIndex < i) indices.push(keepIndex);
+        indices.push(i);
+    }
+    if (indices[indices.length - 1] !== count - 1) indices.push(count - 1);
+    const pick = (values: number[]) => indices.map(i => values[i]);
+    return {
+        time: pick(samples.time),
+        distance: pick(samples.distance),
+        speed: pick(samples.speed),
+        kineticEnergy: pick(samples.kineticEnergy),
+        potentialEnergy: pick(samples.potentialEnergy),
+        force: pick(samples.force),
+    };
+};
+
+const toScatterPoint = (p: EngineParticle, finalVelocity: Vector3D): ScatterPoint => ({
+    x: p.impactParameter / 1e-15,
+    y: polarAngleDeg(finalVelocity),
+});
+
+const snapshot = (p: EngineParticle): ParticleSnapshot => ({ id: p.id, position: p.labPosition, color: p.color });
+
+// A fresh particle on the same incoming line, for the comparison runs.
+const copyTrajectoryStart = (p: EngineParticle): EngineParticle => ({
+    ...p,
+    force: undefined,
+    adaptiveStep: undefined,
+    lastRecoilPoint: undefined,
+    lastPathPoint: undefined,
+    lastPathDirection: undefined,
+    time: 0,
+    stepCount: 0,
+    finished: false,
+    closestApproach: Infinity,
+});
+
+/**
+ * The scattering simulation without any rendering or timers: `reset` builds the beam and
+ * target, each `step` advances every particle by one animation frame, and `results` reads
+ * off the final angles. The worker drives it on a timer; the batch runner and the tests
+ * drive it in a loop.
+ */
+export const createSimulationEngine = ({ recordPaths = true }: SimulationEngineOptions = {}): SimulationEngine => {
+    let particles: EngineParticle[] = [];
+    let launchStates: EngineParticle[] = []; // Copies taken at reset, for tracing a particle again
+    let referenceParticles: EngineParticle[] = []; // Single nucleus, run alongside a foil for comparison.
+    let classicalParticles: EngineParticle[] = []; // Newtonian twins of a relativistic run, for comparison.
+    let comparisonParticles: EngineParticle[] = []; // Thomson atom, fired at with the same beam in split view.
+    let newPathData: number[] = []; // Packed as in pathBuffer.ts
+    let newPath3DData: number[] = []; // Also with depth, in a 3D run
+    let newRecoilPathData: number[] = [];
+    let newComparisonPathData: number[] = [];
+    let newFrames: Float32Array[] = []; // Replay rows since the last update, laid out as ReplayLayout says
+    let detectors: Detector[] = [];
+    let newDetectorHits: DetectorHitUpdate = {};
+    let simulationTime = 0; // s
+    let settings: SimulationSettings | null = null;
+    let isThreeDimensional = false;
+    let forceConstant = 0; // k·q₁·q₂ in N⋅m², negative when the projectile is attracted
+    let reducedMass = ALPHA_PARTICLE_MASS; // μ = m·M / (m + M), the mass of the relative motion
+    let recoilFraction = 0; // f = m / (m + M); zero while the nuclei are held fixed
+    let frameTimeStep = TIME_STEP;
+    let potentialModel = createPotentialModel('coulomb', {
+        forceConstant: 0,
+        screeningLength: Infinity,
+        chargeRadius: 0,
+        nuclearRadius: 0,
+        nuclearDepth: 0,
+    });
+    let target: Target | null = null;
+    let referenceTarget: Target | null = null;
+    let comparisonTarget: Target | null = null;
+
+    // The sources lie in the plane z = 0, so z is also the height above each of them.
+    const forceAt = (x: number, y: number, z: number, t: Target): Vector3D => {
+        let fx = 0;
+        let fy = 0;
+        let fz = 0;
+        forEachNearbyNucleus(t, x, y, n => {
+            const dx = x - n.x;
+            const dy = y - n.y;
+            const r2 = dx * dx + dy * dy + z * z;
+            if (r2 >= t.cutoff * t.cutoff) return;
+            const r = Math.sqrt(r2);
+            const factor = pairForce(r, t.cutoff, n.model || potentialModel) / r;
+            fx += factor * dx;
+            fy += factor * dy;
+            fz += factor * z;
+        });
+        return { x: fx, y: fy, z: fz };
+    };
+
+    const potentialAt = (x: number, y: number, z: number, t: Target) => {
+        let energy = 0;
+        forEachNearbyNucleus(t, x, y, n => {
+            const r = Math.sqrt((x - n.x) ** 2 + (y - n.y) ** 2 + z * z);
+            if (r < t.cutoff) energy += pairPotential(r, t.cutoff, n.model || potentialModel);
+        });
+        return energy;
+    };
+
+    // Thomson's atom: Z·e spread evenly through an atom-sized sphere, neutralised by Z electrons
+    // at rest inside it. A free electron can turn a projectile of mass m by at most about m_e/m,
+    // so each electron's field is softened over ε = d_e·m / (2m_e), which caps its kick there.
+    const buildThomsonAtom = (runSettings: SimulationSettings, energyJ: number, projectileMass: number): Target => {
+        const z = runSettings.targetZ;
+        const random = mulberry32(runSettings.seed ^ 0x7a0b);
+        const electronConstant = -forceConstant / z;
+        const electronDistance = Math.abs(electronConstant) / energyJ;
+        const softening = Math.max(MIN_RADIUS, (electronDistance * projectileMass) / (2 * ELECTRON_MASS));
+        const electronModel = softenedChargeModel(electronConstant, softening);
+
+        const electrons: Vector2D[] = [];
+        for (let i = 0; i < z; i++) {
+            const radius = THOMSON_ATOM_RADIUS * Math.sqrt(random());
+            const angle = 2 * Math.PI * random();
+            electrons.push({ x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+        }
+
+        const sources: Source[] = [{ x: 0, y: 0, model: uniformSphereModel(forceConstant, THOMSON_ATOM_RADIUS) }]
+            .concat(electrons.map(e => ({ x: e.x, y: e.y, model: electronModel })));
+        return {
+            ...createTarget(sources, Infinity, false),
+            electrons,
+            launchX: -THOMSON_ATOM_RADIUS,
+            halfWidth: 1.05 * THOMSON_ATOM_RADIUS,
+            halfHeight: 1.05 * THOMSON_ATOM_RADIUS,
+            timeScale: THOMSON_TIME_SCALE,
+        };
+    };
+
+    // Particles carry momentum rather than velocity, so one set of integrators serves both
+    // dynamics: v = p / (γ·m), with γ = √(1 + (p/mc)²) when relativistic and 1 otherwise.
+    const lorentzFactor = (px: number, py: number, pz: number, relativistic: boolean) =>
+        relativistic ? Math.sqrt(1 + (px * px + py * py + pz * pz) / (reducedMass * SPEED_OF_LIGHT) ** 2) : 1;
+
+    const velocityFromMomentum = (px: number, py: number, pz: number, relativistic: boolean): Vector3D => {
+        const inertia = reducedMass * lorentzFactor(px, py, pz, relativistic);
+        return { x: px / inertia, y: py / inertia, z: pz / inertia };
+    };
+
+    // State vectors are [x, y, z, px, py, pz].
+    const derivative = (s: State, t: Target, relativistic: boolean): State => {
+        const f = forceAt(s[0], s[1], s[2], t);
+        const v = velocityFromMomentum(s[3], s[4], s[5], relativistic);
+        return [v.x, v.y, v.z, f.x, f.y, f.z];
+    };
+
+    const applyState = (p: EngineParticle, s: State) => {
+        p.position = { x: s[0], y: s[1], z: s[2] };
+        p.momentum = { x: s[3], y: s[4], z: s[5] };
+        p.velocity = velocityFromMomentum(s[3], s[4], s[5], p.isRelativistic);
+    };
+
+    const stepEuler: Integrator = (p, t) => {
+        const dt = p.timeStep;
+        const f = forceAt(p.position.x, p.position.y, p.position.z, t);
+        p.momentum = {
+            x: p.momentum.x + f.x * dt,
+            y: p.momentum.y + f.y * dt,
+            z: p.momentum.z + f.z * dt,
+        };
+        p.velocity = velocityFromMomentum(p.momentum.x, p.momentum.y, p.momentum.z, p.isRelativistic);
+        p.position = {
+            x: p.position.x + p.velocity.x * dt,
+            y: p.position.y + p.velocity.y * dt,
+            z: p.position.z + p.velocity.z * dt,
+        };
+    };
+
+    // Velocity Verlet written as kick–drift–kick, the form that still holds when the
+    // velocity is no longer proportional to the momentum.
+    const stepVerlet: Integrator = (p, t) => {
+        const dt = p.timeStep;
+        const f = p.force || forceAt(p.position.x, p.position.y, p.position.z, t);
+        const halfMomentum = {
+            x: p.momentum.x + 0.5 * f.x * dt,
+            y: p.momentum.y + 0.5 * f.y * dt,
+            z: p.momentum.z + 0.5 * f.z * dt,
+        };
+        const drift = velocityFromMomentum(halfMomentum.x, halfMomentum.y, halfMomentum.z, p.isRelativistic);
+        p.position = {
+            x: p.position.x + drift.x * dt,
+            y: p.position.y + drift.y * dt,
+            z: p.position.z + drift.z * dt,
+        };
+        const newForce = forceAt(p.position.x, p.position.y, p.position.z, t);
+        p.momentum = {
+            x: halfMomentum.x + 0.5 * newForce.x * dt,
+            y: halfMomentum.y + 0.5 * newForce.y * dt,
+            z: halfMomentum.z + 0.5 * newForce.z * dt,
+        };
+        p.velocity = velocityFromMomentum(p.momentum.x, p.momentum.y, p.momentum.z, p.isRelativistic);
+        p.force = newForce;
+    };
+
+    const stepRK4: Integrator = (p, t) => {
+        const s = toState(p);
+        const h = p.timeStep;
+        const k1 = derivative(s, t, p.isRelativistic);
+        const k2 = derivative(combine(s, h / 2, [k1], [1]), t, p.isRelativistic);
+        const k3 = derivative(combine(s, h / 2, [k2], [1]), t, p.isRelativistic);
+        const k4 = derivative(combine(s, h, [k3], [1]), t, p.isRelativistic);
+        applyState(p, combine(s, h / 6, [k1, k2, k3, k4], [1, 2, 2, 1]));
+    };
+
+    // Advances the particle by one frame, subdividing it as finely as the
+    // local error estimate requires. The trial step carries over between frames.
+    const stepRK45: Integrator = (p, t) => {
+        let s = toState(p);
+        let remaining = p.timeStep;
+        let h = Math.min(p.adaptiveStep || p.timeStep, p.timeStep);
+        let substeps = 0;
+
+        while (remaining > 0 && substeps < RK45_MAX_SUBSTEPS) {
+            substeps++;
+            const step = Math.min(h, remaining);
+            const ks = [derivative(s, t, p.isRelativistic)];
+            for (let stage = 1; stage < 7; stage++) {
+                ks.push(derivative(combine(s, step, ks, DP_A[stage]), t, p.isRelativistic));
+            }
+            const next = combine(s, step, ks, DP_B5);
+            const lower = combine(s, step, ks, DP_B4);
+
+            let errorNorm = 0;
+            for (let i = 0; i < 6; i++) {
+                const absoluteTolerance = i < 3 ? RK45_POSITION_TOLERANCE : RK45_VELOCITY_TOLERANCE * reducedMass;
+                const scale = absoluteTolerance + RK45_RELATIVE_TOLERANCE * Math.max(Math.abs(s[i]), Math.abs(next[i]));
+                errorNorm = Math.max(errorNorm, Math.abs(next[i] - lower[i]) / scale);
+            }
+
+            if (errorNorm <= 1 || step <= RK45_MIN_STEP) {
+                s = next;
+                remaining -= step;
+                // The substeps crowd around the closest approach, which a whole frame can overshoot.
+                p.closestApproach = Math.min(p.closestApproach, centreDistance(s[0], s[1], s[2], t));
+            }
+            const factor = errorNorm === 0 ? 5 : Math.min(5, Math.max(0.2, 0.9 * Math.pow(errorNorm, -0.2)));
+            h = Math.max(RK45_MIN_STEP, step * factor);
+        }
+
+        p.adaptiveStep = h;
+        applyState(p, s);
+    };
+
+    const INTEGRATOR_STEPS: Record<IntegratorType, Integrator> = {
+        euler: stepEuler,
+        verlet: stepVerlet,
+        rk4: stepRK4,
+        rk45: stepRK45,
+    };
+
+    // T = p² / (m·(1 + γ)): ½mv² for Newtonian dynamics, (γ − 1)·mc² for relativistic ones.
+    const kineticEnergy = (p: EngineParticle) => {
+        const momentumSquared = p.momentum.x ** 2 + p.momentum.y ** 2 + p.momentum.z ** 2;
+        return momentumSquared / (reducedMass * (1 + lorentzFactor(p.momentum.x, p.momentum.y, p.momentum.z, p.isRelativistic)));
+    };
+
+    const totalEnergy = (p: EngineParticle, t: Target) => kineticEnergy(p) + potentialAt(p.position.x, p.position.y, p.position.z, t);
+
+    const collectDiagnostics = (): ConservationDiagnostic[] => particles.map(p => ({
+        id: p.id,
+        impactParameter: p.impactParameter,
+        energyDrift: (totalEnergy(p, target!) - p.initialEnergy) / p.initialEnergy,
+        angularMomentumDrift: (angularMomentum(p) - p.initialAngularMomentum) / p.angularMomentumScale,
+    }));
+
+    // The separation r moves like a single body of the reduced mass. The centre of mass drifts
+    // at f·v₀ along the beam, so in the lab the projectile sits at R + (1 − f)·r and its nucleus at R − f·r.
+    const updateLabFrame = (p: EngineParticle) => {
+        const centreX = recoilFraction * (p.initialPosition.x + p.beamSpeed * p.time);
+        const centreY = recoilFraction * p.initialPosition.y;
+        const centreZ = recoilFraction * p.initialPosition.z;
+        p.labPosition = {
+            x: centreX + (1 - recoilFraction) * p.position.x,
+            y: centreY + (1 - recoilFraction) * p.position.y,
+            z: centreZ + (1 - recoilFraction) * p.position.z,
+        };
+        p.recoilPosition = {
+            x: centreX - recoilFraction * p.position.x,
+            y: centreY - recoilFraction * p.position.y,
+            z: centreZ - recoilFraction * p.position.z,
+        };
+    };
+
+    const labVelocity = (p: EngineParticle): Vector3D => ({
+        x: recoilFraction * p.beamSpeed + (1 - recoilFraction) * p.velocity.x,
+        y: (1 - recoilFraction) * p.velocity.y,
+        z: (1 - recoilFraction) * p.velocity.z,
+    });
+
+    // A hit is an outward crossing of the detector sphere inside a detector's cone, which a
+    // planar run can only cross along the cone's arc in the canvas plane.
+    const registerDetectorHits = (p: EngineParticle, previousRadiusSquared: number) => {
+        const { x, y, z } = p.labPosition;
+        const radiusSquared = x * x + y * y + z * z;
+        if (previousRadiusSquared >= DETECTOR_RADIUS ** 2 || radiusSquared < DETECTOR_RADIUS ** 2) return;
+
+        const radius = Math.sqrt(radiusSquared);
+        detectors.forEach(detector => {
+            const direction = detectorDirection(detector.angle);
+            const cosine = (x * direction.x + y * direction.y) / radius;
+            if (cosine >= Math.cos((detector.width * Math.PI) / 360)) {
+                if (!newDetectorHits[detector.id]) {
+                    newDetectorHits[detector.id] = [];
+                }
+                newDetectorHits[detector.id].push(simulationTime);
+            }
+        });
+    };
+
+    // Advances one particle by a frame. Returns false once it has left the simulation box, moved
+    // out of range of its recoiling nucleus or, for fixed-step methods, come closer to a nucleus
+    // than they can resolve.
+    const advanceParticle = (p: EngineParticle, t: Target, integrate: Integrator, isAdaptive: boolean) => {
+        if (p.finished) return false;
+
+        const isOutside = Math.abs(p.labPosition.x) > t.halfWidth
+            || Math.abs(p.labPosition.y) > t.halfHeight
+            || Math.abs(p.labPosition.z) > t.halfHeight;
+        const separationSquared = p.position.x ** 2 + p.position.y ** 2 + p.position.z ** 2;
+
+        if (isOutside || separationSquared > (MAX_SEPARATION_FACTOR * t.halfWidth) ** 2) {
+            p.finished = true;
+            return false;
+        }
+
+        // Fixed-step methods cannot resolve a sub-femtometer approach to a point charge, so
+        // those particles are retired. The adaptive integrator refines the step instead, and
+        // finite-size nuclei have no singularity to avoid. An attracted relativistic particle
+        // with too little angular momentum spirals into a point charge, which no step can follow.
+        const isFalling = p.isRelativistic && forceConstant < 0;
+        if ((!isAdaptive || isFalling) && t.isSingular && nearestNucleusDistance(p.position.x, p.position.y, p.position.z, t) < MIN_RADIUS) {
+            p.finished = true;
+            return false;
+        }
+
+        integrate(p, t);
+        p.time += p.timeStep;
+        updateLabFrame(p);
+        p.closestApproach = Math.min(p.closestApproach, centreDistance(p.position.x, p.position.y, p.position.z, t));
+        return true;
+    };
+
+    // The canvas draws the main paths as seen along z; a 3D run also keeps their depth for the 3D view.
+    const recordPathPoint = (pathData: number[], p: EngineParticle) => {
+        const { x, y, z } = p.labPosition;
+        pathData.push(p.id, x, y);
+        if (isThreeDimensional && pathData === newPathData) newPath3DData.push(p.id, x, y, z);
+        p.lastPathPoint = p.labPosition;
+        p.lastPathDirection = unitVector(labVelocity(p));
+    };
+
+    const recordPathPointIfTurned = (pathData: number[], p: EngineParticle, t: Target) => {
+        const last = p.lastPathPoint;
+        const lastDirection = p.lastPathDirection;
+        if (last && lastDirection) {
+            const direction = unitVector(labVelocity(p));
+            const cosine = direction.x * lastDirection.x + direction.y * lastDirection.y + direction.z * lastDirection.z;
+            const turn = Math.acos(Math.min(1, cosine));
+            const distance = Math.hypot(p.labPosition.x - last.x, p.labPosition.y - last.y, p.labPosition.z - last.z);
+            if (turn < PATH_TURN_TOLERANCE && distance < PATH_MAX_GAP * t.timeScale) return;
+        }
+        recordPathPoint(pathData, p);
+    };
+
+    // The straight stretch since the last kept point would otherwise be missing from the end.
+    const recordFinalPathPoint = (pathData: number[], p: EngineParticle) => {
+        if (p.lastPathPoint !== p.labPosition) recordPathPoint(pathData, p);
+    };
+
+    const recordRecoilPoint = (p: EngineParticle) => {
+        const recoilPoint = { ...p.recoilPosition };
+        const last = p.lastRecoilPoint;
+        if (!last || Math.hypot(recoilPoint.x - last.x, recoilPoint.y - last.y) >= RECOIL_PATH_MIN_STEP) {
+            newRecoilPathData.push(p.id, recoilPoint.x, recoilPoint.y);
+            p.lastRecoilPoint = recoilPoint;
+        }
+    };
+
+    // Writes every position into `into` from `offset`, grouped as ReplayLayout describes.
+    const writePositions = (into: Float32Array, offset: number) => {
+        particles.forEach(p => {
+            into[offset++] = p.labPosition.x;
+            into[offset++] = p.labPosition.y;
+        });
+        if (recoilFraction > 0) {
+            particles.forEach(p => {
+                into[offset++] = p.recoilPosition.x;
+                into[offset++] = p.recoilPosition.y;
+            });
+        }
+        comparisonParticles.forEach(p => {
+            into[offset++] = p.labPosition.x;
+            into[offset++] = p.labPosition.y;
+        });
+    };
+
+    const positionCount = () => 2 * particles.length * (recoilFraction > 0 ? 2 : 1) + 2 * comparisonParticles.length;
+
+    const currentPositions = () => {
+        const positions = new Float32Array(positionCount());
+        writePositions(positions, 0);
+        return positions;
+    };
+
+    // The force on the projectile equals the force along the separation, so it needs no lab-frame correction.
+    const currentForces = () => {
+        const forces = new Float32Array(2 * particles.length);
+        if (!target) return forces;
+        particles.forEach((p, i) => {
+            const force = forceAt(p.position.x, p.position.y, p.position.z, target!);
+            forces[2 * i] = force.x;
+            forces[2 * i + 1] = force.y;
+        });
+        return forces;
+    };
+
+    const recordFrame = () => {
+        if (!recordPaths) return;
+        const row = new Float32Array(1 + positionCount());
+        row[0] = simulationTime;
+        writePositions(row, 1);
+        newFrames.push(row);
+    };
+
+    // The same incoming line and colour, launched at the edge of another target.
+    const relaunchOnto = (p: EngineParticle, t: Target): EngineParticle => {
+        const start = { x: t.launchX, y: p.initialPosition.y, z: p.initialPosition.z };
+        return {
+            ...copyTrajectoryStart(p),
+            position: start,
+            initialPosition: start,
+            labPosition: start,
+            timeStep: frameTimeStep * t.timeScale,
+        };
+    };
+
+    const step = () => {
+        if (!settings || !target || particles.length === 0) return false;
+
+        const integrate = INTEGRATOR_STEPS[settings.integrator] || stepEuler;
+        const isAdaptive = settings.integrator === 'rk45';
+        simulationTime += frameTimeStep * target.timeScale;
+
+        let finishedCount = 0;
+        particles.forEach(p => {
+            const previousRadiusSquared = p.labPosition.x ** 2 + p.labPosition.y ** 2 + p.labPosition.z ** 2;
+            const wasFinished = p.finished;
+            if (!advanceParticle(p, target!, integrate, isAdaptive)) {
+                finishedCount++;
+                if (recordPaths && !wasFinished) recordFinalPathPoint(newPathData, p);
+                return;
+            }
+            registerDetectorHits(p, previousRadiusSquared);
+
+            p.stepCount++;
+            if (recordPaths && p.stepCount % 5 === 0) {
+                recordPathPointIfTurned(newPathData, p, target!);
+                if (recoilFraction > 0) recordRecoilPoint(p);
+            }
+        });
+
+        const countFinished = (group: EngineParticle[], t: Target | null, onAdvance?: (p: EngineParticle) => void, onFinish?: (p: EngineParticle) => void) => {
+            let count = 0;
+            group.forEach(p => {
+                const wasFinished = p.finished;
+                if (!advanceParticle(p, t!, integrate, isAdaptive)) {
+                    count++;
+                    if (!wasFinished) onFinish?.(p);
+                    return;
+                }
+                onAdvance?.(p);
+            });
+            return count;
+        };
+
+        const referenceFinishedCount = countFinished(referenceParticles, referenceTarget);
+        const comparisonFinishedCount = countFinished(comparisonParticles, comparisonTarget, p => {
+            p.stepCount++;
+            if (recordPaths && p.stepCount % 5 === 0) recordPathPointIfTurned(newComparisonPathData, p, comparisonTarget!);
+        }, p => {
+            if (recordPaths) recordFinalPathPoint(newComparisonPathData, p);
+        });
+        const classicalFinishedCount = countFinished(classicalParticles, target);
+        recordFrame();
+
+        return finishedCount === particles.length
+            && referenceFinishedCount === referenceParticles.length
+            && classicalFinishedCount === classicalParticles.length
+            && comparisonFinishedCount === comparisonParticles.length;
+    };
+
+    const takeUpdate = (withDiagnostics = true, withForces = false): UpdatePayload => {
+        const frames = new Float32Array(newFrames.reduce((length, row) => length + row.length, 0));
+        newFrames.reduce((offset, row) => {
+            frames.set(row, offset);
+            return offset + row.length;
+        }, 0);
+        const update: UpdatePayload = {
+            positions: currentPositions(),
+            newPaths: Float32Array.from(newPathData),
+            newPaths3D: Float32Array.from(newPath3DData),
+            newRecoilPaths: Float32Array.from(newRecoilPathData),
+            comparisonNewPaths: Float32Array.from(newComparisonPathData),
+            diagnostics: withDiagnostics ? (target ? collectDiagnostics() : []) : null,
+            forces: withForces ? currentForces() : null,
+            detectorHits: newDetectorHits,
+            simulationTime,
+            frames,
+        };
+        newFrames = [];
+        newPathData = [];
+        newPath3DData = [];
+        newRecoilPathData = [];
+        newComparisonPathData = [];
+        newDetectorHits = {};
+        return update;
+    };
+
+    // The relative velocity turns through the centre-of-mass angle; the lab angle
+    // follows from the projectile's own velocity. The centre of mass moves along the beam
+    // axis, so both frames share one azimuth.
+    const results = (): FinishedPayload => {
+        if (!settings) throw new Error('The simulation has not been reset with settings yet.');
+        const isComparingDynamics = classicalParticles.length > 0;
+        return {
+            scatterData: particles.map(p => toScatterPoint(p, labVelocity(p))),
+            cmScatterData: particles.map(p => toScatterPoint(p, p.velocity)),
+            closestApproaches: particles.map(closestApproachFm),
+            azimuths: isThreeDimensional ? particles.map(p => azimuthDeg(labVelocity(p))) : null,
+            referenceScatterData: referenceTarget ? referenceParticles.map(p => toScatterPoint(p, p.velocity)) : null,
+            classicalScatterData: isComparingDynamics ? classicalParticles.map(p => toScatterPoint(p, labVelocity(p))) : null,
+            classicalCmScatterData: isComparingDynamics ? classicalParticles.map(p => toScatterPoint(p, p.velocity)) : null,
+            comparisonScatterData: comparisonTarget ? comparisonParticles.map(p => toScatterPoint(p, labVelocity(p))) : null,
+            comparisonCmScatterData: comparisonTarget ? comparisonParticles.map(p => toScatterPoint(p, p.velocity)) : null,
+            diagnostics: collectDiagnostics(),
+            settings,
+        };
+    };
+
+    const reset = (payload: ResetPayload): ResetCompletePayload => {
+        settings = payload.settings;
+        const runSettings = settings;
+        isThreeDimensional = isThreeDimensionalRun(runSettings);
+        const particleMap = new Map<string, EngineParticle>();
+        const projectile = payload.projectile;
+        const projectileMass = projectile.mass;
+        const projectileMassNumber = projectile.massNumber;
+        const kineticEnergyJ = runSettings.energy * JOULES_PER_MEV;
+        const restEnergy = projectileMass * SPEED_OF_LIGHT ** 2;
+
+        // Foil nuclei are held in place by the lattice; a lone nucleus or atom recoils.
+        // Relativistic runs keep the reduced-mass picture, which is exact only
+        // for a heavy target.
+        const targetMass = payload.target.mass;
+        recoilFraction = runSettings.targetMode !== 'foil' ? projectileMass / (projectileMass + targetMass) : 0;
+        reducedMass = projectileMass * (1 - recoilFraction);
+        forceConstant = K_COULOMB * (projectile.charge * ELEMENTARY_CHARGE) * (runSettings.targetZ * ELEMENTARY_CHARGE);
+
+        // E = (γ − 1)·mc² relativistically, E = ½mv² classically.
+        const beamKinematics = (relativistic: boolean) => {
+            const gamma = relativistic ? 1 + kineticEnergyJ / restEnergy : 1;
+            const speed = relativistic
+                ? SPEED_OF_LIGHT * Math.sqrt(1 - 1 / (gamma * gamma))
+                : Math.sqrt((2 * kineticEnergyJ) / projectileMass);
+            return { speed, momentum: reducedMass * gamma * speed };
+        };
+        const beam = beamKinematics(runSettings.isRelativistic);
+        const initialVelocityX = beam.speed;
+
+        // Lighter projectiles are faster at the same energy; scaling the frame step by
+        // v_α / v keeps them moving about as many pixels per frame as an α-particle.
+        // Past MAX_FRAME_ENERGY the step stops shrinking, so fast beams still animate.
+        const frameEnergy = Math.min(runSettings.energy, MAX_FRAME_ENERGY) * JOULES_PER_MEV;
+        frameTimeStep = TIME_STEP * Math.sqrt((2 * frameEnergy) / ALPHA_PARTICLE_MASS) / initialVelocityX;
+
+        // Thomas–Fermi screening length a = 0.8853·a₀·Z^(-1/3). The nuclear well
+        // reaches out to the touching radius of target and projectile.
+        const massNumber = payload.target.massNumber;
+        potentialModel = createPotentialModel(runSettings.potential, {
+            forceConstant,
+            screeningLength: 0.8853 * BOHR_RADIUS / Math.cbrt(runSettings.targetZ),
+            chargeRadius: NUCLEUS_RADIUS_BASE * Math.cbrt(massNumber),
+            nuclearRadius: NUCLEUS_RADIUS_BASE * (Math.cbrt(massNumber) + Math.cbrt(projectileMassNumber)),
+            nuclearDepth: projectileMassNumber > 0 ? WOODS_SAXON_DEPTH * JOULES_PER_MEV : 0,
+        });
+
+        const singleNucleus = createTarget([{ x: 0, y: 0 }], Infinity, potentialModel.isSingular);
+        let mainTarget: Target;
+        if (runSettings.targetMode === 'foil') {
+            const spacing = runSettings.foilSpacing * 1e-15;
+            mainTarget = createTarget(buildFoilNuclei(runSettings), FOIL_CUTOFF_SPACINGS * spacing, potentialModel.isSingular);
+            referenceTarget = singleNucleus;
+        } else if (runSettings.targetMode === 'thomson') {
+            mainTarget = buildThomsonAtom(runSettings, kineticEnergyJ, projectileMass);
+            referenceTarget = null;
+        } else {
+            mainTarget = singleNucleus;
+            referenceTarget = null;
+        }
+        target = mainTarget;
+        comparisonTarget = runSettings.isSplitView && runSettings.targetMode !== 'thomson' && !isThreeDimensional
+            ? buildThomsonAtom(runSettings, kineticEnergyJ, projectileMass)
+            : null;
+
+        // A planar beam passes on either side of the nucleus at a signed impact parameter; a 3D
+        // beam crosses its disk at an azimuth from +y towards +z.
+        const addParticle = (impactInPixels: number, key = impactInPixels.toFixed(6), azimuth = 0) => {
+            if (particleMap.has(key)) return;
+
+            const initialPosition = {
+                x: mainTarget.launchX,
+                y: impactInPixels * Math.cos(azimuth) * SCALE,
+                z: impactInPixels * Math.sin(azimuth) * SCALE,
+            };
+            particleMap.set(key, {
+                id: 0,
+                color: '',
+                position: initialPosition,
+                initialPosition,
+                labPosition: initialPosition,
+                recoilPosition: { x: 0, y: 0, z: 0 },
+                momentum: { x: beam.momentum, y: 0, z: 0 },
+                velocity: { x: initialVelocityX, y: 0, z: 0 },
+                beamSpeed: initialVelocityX,
+                isRelativistic: runSettings.isRelativistic,
+                timeStep: frameTimeStep * mainTarget.timeScale,
+                time: 0,
+                impactParameter: Math.abs(impactInPixels * SCALE),
+                stepCount: 0,
+                finished: false,
+                closestApproach: Infinity,
+                initialEnergy: 0,
+                initialAngularMomentum: 0,
+                angularMomentumAxis: { x: 0, y: -Math.sin(azimuth), z: Math.cos(azimuth) },
+                angularMomentumScale: 1,
+            });
+        };
+
+        if (runSettings.beamMode === 'random') {
+            // Uniform over the beam disk: P(b) ∝ b, so b = R·√u. In the plane the side of
+            // the nucleus the particle passes on is drawn separately for display; in 3D the
+            // azimuth is uniform.
+            const random = mulberry32(runSettings.seed);
+            const beamRadiusPixels = runSettings.isFocusModeEnabled ? FOCUS_BEAM_RADIUS / SCALE : BEAM_RADIUS_PIXELS;
+            for (let i = 0; i < runSettings.numParticles; i++) {
+                const radius = beamRadiusPixels * Math.sqrt(random());
+                if (isThreeDimensional) {
+                    addParticle(radius, 'random-' + i, 2 * Math.PI * random());
+                } else {
+                    const sign = random() < 0.5 ? -1 : 1;
+                    addParticle(sign * radius, 'random-' + i);
+                }
+            }
+        } else if (isThreeDimensional) {
+            // A sunflower spiral: the nth of N particles sits at r = R·√((n + ½) / N), a golden
+            // angle round from the last, which covers the disk evenly without any randomness.
+            if (runSettings.isFocusModeEnabled) {
+                for (let i = 1; i <= 150; i++) {
+                    addParticle((i * 1e-15) / SCALE, 'focus-' + i, i * GOLDEN_ANGLE);
+                }
+            }
+            const count = runSettings.numParticles;
+            for (let i = 0; i < count; i++) {
+                addParticle(BEAM_RADIUS_PIXELS * Math.sqrt((i + 0.5) / count), 'disk-' + i, i * GOLDEN_ANGLE);
+            }
+        } else {
+            if (runSettings.isFocusModeEnabled) {
+                for (let i = 1; i <= 150; i++) {
+                    const impactInPixels = (i * 1e-15) / SCALE;
+                    addParticle(impactInPixels);
+                    addParticle(-impactInPixels);
+                }
+            }
+
+            const numStandardParticles = runSettings.numParticles;
+            const halfNum = Math.floor(numStandardParticles / 2);
+            const impactStep = halfNum > 0 ? BEAM_RADIUS_PIXELS / halfNum : 0;
+            for (let i = 0; i < numStandardParticles; i++) {
+                const stepIndex = Math.floor(i / 2) + 1;
+                const sign = (i % 2 === 0 ? 1 : -1);
+                addParticle(impactStep > 0 ? stepIndex * impactStep * sign : 0);
+            }
+        }
+
+        particles = Array.from(particleMap.values());
+        const initialPaths = new Float32Array(PATH_POINT_SIZE * particles.length);
+        const initialPaths3D = new Float32Array(isThreeDimensional ? PATH_POINT_SIZE_3D * particles.length : 0);
+        particles.forEach((p, index) => {
+            p.id = index;
+            p.color = `hsl(${(index * 360) / particles.length}, 90%, 70%)`;
+            initialPaths.set([p.id, p.labPosition.x, p.labPosition.y], PATH_POINT_SIZE * index);
+            if (isThreeDimensional) initialPaths3D.set([p.id, p.labPosition.x, p.labPosition.y, p.labPosition.z], PATH_POINT_SIZE_3D * index);
+            p.lastPathPoint = p.labPosition;
+            p.lastPathDirection = { x: 1, y: 0, z: 0 };
+
+            p.initialEnergy = totalEnergy(p, mainTarget);
+            p.initialAngularMomentum = angularMomentum(p);
+            p.angularMomentumScale = beam.momentum * Math.max(p.impactParameter, MIN_RADIUS);
+        });
+
+        launchStates = particles.map(p => ({ ...p }));
+
+        const classicalBeam = beamKinematics(false);
+        classicalParticles = runSettings.isRelativistic
+            ? particles.map(p => ({
+                ...copyTrajectoryStart(p),
+                momentum: { x: classicalBeam.momentum, y: 0, z: 0 },
+                velocity: { x: classicalBeam.speed, y: 0, z: 0 },
+                beamSpeed: classicalBeam.speed,
+                isRelativistic: false,
+            }))
+            : [];
+        referenceParticles = referenceTarget ? particles.map(copyTrajectoryStart) : [];
+        comparisonParticles = comparisonTarget ? particles.map(p => relaunchOnto(p, comparisonTarget!)) : [];
+        newPathData = [];
+        newPath3DData = [];
+        newRecoilPathData = [];
+        newComparisonPathData = [];
+        newDetectorHits = {};
+        simulationTime = 0;
+        newFrames = [];
+        recordFrame();
+
+        // The canvas only needs where the sources sit; the Thomson force models stay here.
+        return {
+            particles: particles.map(p => ({
+                id: p.id,
+                position: p.labPosition,
+                recoilPosition: recoilFraction > 0 ? p.recoilPosition : undefined,
+                velocity: p.velocity,
+                color: p.color,
+                impactParameter: p.impactParameter,
+            })),
+            initialPaths,
+            initialPaths3D,
+            positions: currentPositions(),
+            nuclei: mainTarget.electrons ? [] : mainTarget.nuclei.map(n => ({ x: n.x, y: n.y })),
+            electrons: mainTarget.electrons || [],
+            comparison: comparisonTarget ? {
+                particles: comparisonParticles.map(snapshot),
+                electrons: comparisonTarget.electrons || [],
+            } : null,
+            replayLayout: {
+                particles: particles.map(({ id, color }) => ({ id, color })),
+                comparisonParticles: comparisonParticles.map(({ id, color }) => ({ id, color })),
+                hasRecoil: recoilFraction > 0,
+            },
+            settings: runSettings,
+        };
+    };
+
+    // Particles never interact, so one flown alone follows exactly the path it had in the run.
+    const trace = (particleId: number): ParticleTrace | null => {
+        const start = launchStates.find(p => p.id === particleId);
+        if (!settings || !target || !start) return null;
+
+        const integrate = INTEGRATOR_STEPS[settings.integrator] || stepEuler;
+        const isAdaptive = settings.integrator === 'rk45';
+        const p: EngineParticle = { ...start };
+        const samples: TraceSamples = { time: [], distance: [], speed: [], kineticEnergy: [], potentialEnergy: [], force: [] };
+        let closestIndex = 0;
+        const sample = (t: Target) => {
+            const { x, y, z } = p.position;
+            const distance = centreDistance(x, y, z, t) / 1e-15;
+            const velocity = labVelocity(p);
+            const force = forceAt(x, y, z, t);
+            if (distance < samples.distance[closestIndex]) closestIndex = samples.distance.length;
+            samples.time.push(p.time);
+            samples.distance.push(distance);
+            samples.speed.push(Math.hypot(velocity.x, velocity.y, velocity.z) / SPEED_OF_LIGHT);
+            samples.kineticEnergy.push(kineticEnergy(p) / JOULES_PER_MEV);
+            samples.potentialEnergy.push(potentialAt(x, y, z, t) / JOULES_PER_MEV);
+            samples.force.push(Math.hypot(force.x, force.y, force.z));
+        };
+
+        sample(target);
+        for (let frame = 0; frame < MAX_RUN_FRAMES && advanceParticle(p, target, integrate, isAdaptive); frame++) {
+            sample(target);
+        }
+        const exitVelocity = labVelocity(p);
+        const exitSpeed = Math.hypot(exitVelocity.x, exitVelocity.y, exitVelocity.z) || 1;
+        return {
+            id: p.id,
+            impactParameter: p.impactParameter / 1e-15,
+            labAngle: toScatterPoint(p, labVelocity(p)).y,
+            cmAngle: toScatterPoint(p, p.velocity).y,
+            azimuth: isThreeDimensional ? azimuthDeg(exitVelocity) : null,
+            closestApproach: closestApproachFm(p),
+            timeOfFlight: p.time,
+            incoming: { point: start.labPosition, direction: { x: 1, y: 0 } },
+            outgoing: { point: p.labPosition, direction: { x: exitVelocity.x / exitSpeed, y: exitVelocity.y / exitSpeed } },
+            samples: thinSamples(samples, closestIndex),
+        };
+    };
+
+    // Before the beam arrives a recoiling nucleus sits at the origin, where the separation and
+    // the lab position coincide.
+    const sampleField = (region: FieldRegion): PotentialField => {
+        const energies = new Float32Array(region.columns * region.rows);
+        if (target) {
+            for (let row = 0; row < region.rows; row++) {
+                const y = region.y0 + row * region.step;
+                for (let column = 0; column < region.columns; column++) {
+                    energies[row * region.columns + column] = potentialAt(region.x0 + column * region.step, y, 0, target) / JOULES_PER_MEV;
+                }
+            }
+        }
+        return { ...region, energies };
+    };
+
+    return {
+        reset,
+        setDetectors: next => {
+            detectors = next;
+        },
+        step,
+        takeUpdate,
+        results,
+        trace,
+        sampleField,
+        forces: currentForces,
+    };
+};
+
+// Frames after which a run is called finished even if some particles are still in flight.
+export const MAX_RUN_FRAMES = 1_000_000;
+
+// Runs a reset engine to the end without a worker and returns its results.
+export const runToCompletion = (engine: SimulationEngine, maxFrames = MAX_RUN_FRAMES): FinishedPayload => {
+    for (let frame = 0; frame < maxFrames; frame++) {
+        if (engine.step()) break;
+    }
+    return engine.results();
+};
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { packPaths, PATH_POINT_SIZE, unpackPaths } from './pathBuffer';
+
+describe('packed paths', () => {
+    it('unpacks the points of several buffers in order', () => {
+        const first = packPaths({ 0: [{ x: 1, y: 2 }], 7: [{ x: -1, y: 0.5 }, { x: -2, y: 0.25 }] });
+        const second = packPaths({ 0: [{ x: 3, y: 4 }] });
+        expect(first).toHaveLength(3 * PATH_POINT_SIZE);
+        expect(unpackPaths([first, second])).toEqual({
+            0: [{ x: 1, y: 2 }, { x: 3, y: 4 }],
+            7: [{ x: -1, y: 0.5 }, { x: -2, y: 0.25 }],
+        });
+    });
+});
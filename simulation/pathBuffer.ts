@@ -0,0 +1,35 @@
+import type { PathUpdate } from '../types';
+
+/**
+ * Path points as the worker streams them: one flat Float32Array of id, x, y per point, lab
+ * frame in metres. Unlike a PathUpdate of point objects it can be transferred instead of
+ * copied, and tens of thousands of particles cost no more than one allocation per update.
+ */
+export const PATH_POINT_SIZE = 3;
+
+// A 3D run also streams its trajectories with their depth: id, x, y, z per point.
+export const PATH_POINT_SIZE_3D = 4;
+
+export const EMPTY_PATH_BUFFER = new Float32Array(0);
+
+export const packPaths = (paths: PathUpdate): Float32Array => {
+    const packed: number[] = [];
+    for (const idStr in paths) {
+        const id = Number(idStr);
+        paths[id].forEach(point => packed.push(id, point.x, point.y));
+    }
+    return Float32Array.from(packed);
+};
+
+// Collects the points of several buffers, in order, back into one path per particle.
+export const unpackPaths = (buffers: Float32Array[]): PathUpdate => {
+    const paths: PathUpdate = {};
+    buffers.forEach(buffer => {
+        for (let i = 0; i + PATH_POINT_SIZE <= buffer.length; i += PATH_POINT_SIZE) {
+            const id = buffer[i];
+            if (!paths[id]) paths[id] = [];
+            paths[id].push({ x: buffer[i + 1], y: buffer[i + 2] });
+        }
+    });
+    return paths;
+};
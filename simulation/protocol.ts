@@ -0,0 +1,126 @@
+import type {
+    ConservationDiagnostic,
+    Detector,
+    DetectorHitUpdate,
+    Particle,
+    ParticleSnapshot,
+    ProjectileSpecies,
+    ScatterPoint,
+    SimulationSettings,
+    Vector2D,
+} from '../types';
+import type { ReplayLayout } from './replay';
+import type { RunSummary } from './sweep';
+
+// Messages exchanged between the app and the simulation worker. The engine produces the
+// response payloads directly, so the batch runner and the tests see exactly what the app sees.
+
+export interface ResetPayload {
+    settings: SimulationSettings;
+    projectile: ProjectileSpecies;
+    target: { massNumber: number; mass: number }; // mass in kg
+}
+
+export type WorkerRequest =
+    | { type: 'start' }
+    | { type: 'pause' }
+    | { type: 'detectors'; payload: { detectors: Detector[] } }
+    | { type: 'reset'; payload: ResetPayload }
+    | { type: 'sweep'; payload: { runs: ResetPayload[] } }
+    | { type: 'cancelSweep' }
+    | { type: 'trace'; payload: { particleId: number } }
+    | { type: 'field'; payload: FieldRegion }
+    | { type: 'forces'; payload: { enabled: boolean } };
+
+// The typed arrays are sent as transfers, so large beams are not copied between threads.
+export interface UpdatePayload {
+    positions: Float32Array; // Where every particle is now, laid out like a replay frame without its time
+    newPaths: Float32Array; // Packed as in pathBuffer.ts
+    newPaths3D: Float32Array; // The same points with depth in a 3D run; empty otherwise
+    newRecoilPaths: Float32Array;
+    comparisonNewPaths: Float32Array; // Thomson atom in split view; empty otherwise
+    diagnostics: ConservationDiagnostic[] | null; // Null when left out of this update
+    forces: Float32Array | null; // N, x, y on each particle laid out like its positions; null unless asked for
+    detectorHits: DetectorHitUpdate;
+    simulationTime: number; // s
+    frames: Float32Array; // Every frame since the last update, for replay
+}
+
+export interface FinishedPayload {
+    scatterData: ScatterPoint[];
+    cmScatterData: ScatterPoint[];
+    closestApproaches: number[]; // fm, per particle in scatterData order
+    azimuths: number[] | null; // degrees, −180 to 180, per particle in a 3D run; the angles are then polar
+    referenceScatterData: ScatterPoint[] | null; // Single nucleus behind a foil
+    classicalScatterData: ScatterPoint[] | null; // Newtonian twins of a relativistic run
+    classicalCmScatterData: ScatterPoint[] | null;
+    comparisonScatterData: ScatterPoint[] | null; // Thomson atom in split view
+    comparisonCmScatterData: ScatterPoint[] | null;
+    diagnostics: ConservationDiagnostic[];
+    settings: SimulationSettings;
+}
+
+// A straight line the particle follows far from the target, in the lab frame as seen along z.
+export interface Asymptote {
+    point: Vector2D; // m
+    direction: Vector2D; // Unit vector along the motion
+}
+
+// A particle's flight frame by frame, measured in the relative coordinate the engine integrates.
+export interface TraceSamples {
+    time: number[]; // s
+    distance: number[]; // fm, to the nearest nucleus or the Thomson atom's centre
+    speed: number[]; // Lab speed as a fraction of c
+    kineticEnergy: number[]; // MeV, of the relative motion
+    potentialEnergy: number[]; // MeV
+    force: number[]; // N, magnitude
+}
+
+export interface ParticleTrace {
+    id: number;
+    impactParameter: number; // fm
+    labAngle: number; // degrees
+    cmAngle: number;
+    azimuth: number | null; // degrees, in a 3D run
+    closestApproach: number; // fm
+    timeOfFlight: number; // s, until the particle left the simulated region
+    incoming: Asymptote; // Along the beam through the launch point
+    outgoing: Asymptote; // Along the final velocity through the point where the particle left
+    samples: TraceSamples;
+}
+
+// Sample points spaced `step` apart in a grid of rows × columns, row by row from (x0, y0), in
+// the lab frame and in metres.
+export interface FieldRegion {
+    x0: number;
+    y0: number;
+    step: number;
+    columns: number;
+    rows: number;
+}
+
+export interface PotentialField extends FieldRegion {
+    energies: Float32Array; // MeV, the projectile's potential energy at each sample point
+}
+
+export interface ResetCompletePayload {
+    particles: Omit<Particle, 'path'>[];
+    initialPaths: Float32Array; // Launch points, packed as in pathBuffer.ts
+    initialPaths3D: Float32Array; // With depth in a 3D run; empty otherwise
+    positions: Float32Array; // As in UpdatePayload
+    nuclei: Vector2D[];
+    electrons: Vector2D[];
+    comparison: { particles: ParticleSnapshot[]; electrons: Vector2D[] } | null;
+    replayLayout: ReplayLayout;
+    settings: SimulationSettings;
+}
+
+export type WorkerResponse =
+    | { type: 'update'; payload: UpdatePayload }
+    | { type: 'finished'; payload: FinishedPayload }
+    | { type: 'resetComplete'; payload: ResetCompletePayload }
+    | { type: 'sweepProgress'; payload: { index: number; summary: RunSummary } }
+    | { type: 'sweepComplete' }
+    | { type: 'trace'; payload: ParticleTrace }
+    | { type: 'field'; payload: PotentialField }
+    | { type: 'forces'; payload: Float32Array }; // As in UpdatePayload, for a run that is not running
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../constants';
+import { resolveProjectile, resolveTargetMass, resolveTargetMassNumber } from '../utils/projectiles';
+import { createSimulationEngine } from './engine';
+import { appendReplayFrames, closestApproachFrame, createReplayRecording, frameSnapshots, MAX_REPLAY_VALUES, replayFrame, replayFrameTime, snapshotPositions } from './replay';
+import type { ReplayLayout } from './replay';
+
+const LAYOUT: ReplayLayout = { particles: [{ id: 0, color: 'red' }], comparisonParticles: [], hasRecoil: false };
+
+// Frames of the single particle in LAYOUT, at time n and position (n, -n).
+const frames = (from: number, count: number) =>
+    Float32Array.from({ length: count * 3 }, (_, i) => {
+        const n = from + Math.floor(i / 3);
+        return [n, n, -n][i % 3];
+    });
+
+describe('replay recording', () => {
+    it('records every frame the engine steps through', () => {
+        const settings = { ...DEFAULT_SETTINGS, numParticles: 4 };
+        const engine = createSimulationEngine();
+        const reset = engine.reset({
+            settings,
+            projectile: resolveProjectile(settings),
+            target: { massNumber: resolveTargetMassNumber(settings), mass: resolveTargetMass(settings) },
+        });
+        for (let i = 0; i < 10; i++) engine.step();
+        const { frames: data, positions, simulationTime } = engine.takeUpdate();
+
+        const recording = createReplayRecording(reset.replayLayout);
+        appendReplayFrames(recording, data);
+        expect(recording.frameCount).toBe(11);
+        expect(replayFrame(recording, 0).particles[0]).toBe(Math.fround(reset.particles[0].position.x));
+        expect(replayFrameTime(recording, 10)).toBe(Math.fround(simulationTime));
+        const last = replayFrame(recording, 10);
+        expect([...last.particles, ...last.recoil!]).toEqual([...positions]);
+    });
+
+    it('turns a frame into particle snapshots and back', () => {
+        const layout: ReplayLayout = { particles: [{ id: 3, color: 'red' }, { id: 5, color: 'blue' }], comparisonParticles: [{ id: 3, color: 'red' }], hasRecoil: true };
+        const recording = createReplayRecording(layout);
+        appendReplayFrames(recording, Float32Array.from([0, 1, 2, 3, 4, -1, -2, -3, -4, 9, 8]));
+        const snapshots = frameSnapshots(layout, replayFrame(recording, 0));
+        expect(snapshots.particles[1]).toEqual({ id: 5, color: 'blue', position: { x: 3, y: 4 }, recoilPosition: { x: -3, y: -4 } });
+        expect(snapshots.comparisonParticles[0].position).toEqual({ x: 9, y: 8 });
+
+        const restored = snapshotPositions(snapshots);
+        expect(restored.layout).toEqual(layout);
+        expect(frameSnapshots(restored.layout, restored.positions)).toEqual(snapshots);
+    });
+
+    it('keeps every other frame once the memory budget is reached', () => {
+        const recording = createReplayRecording(LAYOUT);
+        const capacity = MAX_REPLAY_VALUES / recording.stride;
+        const total = Math.floor(capacity) + 1001;
+        for (let from = 0; from < total; from += 1000) appendReplayFrames(recording, frames(from, Math.min(1000, total - from)));
+
+        expect(recording.frameInterval).toBe(2);
+        expect(recording.frameCount).toBe(Math.ceil(total / 2));
+        for (const frame of [0, 1, 12345, recording.frameCount - 1]) {
+            expect(replayFrameTime(recording, frame)).toBe(2 * frame);
+        }
+    });
+
+    it('finds the frame nearest a fixed nucleus', () => {
+        const recording = createReplayRecording(LAYOUT);
+        appendReplayFrames(recording, frames(0, 20));
+        expect(closestApproachFrame(recording, 0, [{ x: 7, y: -7 }, { x: 100, y: 0 }])).toBe(7);
+    });
+});
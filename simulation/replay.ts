@@ -0,0 +1,174 @@
+import type { ParticleSnapshot, Vector2D } from '../types';
+
+/**
+ * Which particles a recorded frame holds, in order. Each frame is one row of numbers: the
+ * simulation time (s), then x, y of every particle, then x, y of every particle's recoiling
+ * nucleus when `hasRecoil`, then x, y of every comparison particle, all in metres in the lab
+ * frame. Keeping each group together lets it be drawn straight from a view into the row.
+ */
+export interface ReplayLayout {
+    particles: Pick<ParticleSnapshot, 'id' | 'color'>[];
+    comparisonParticles: Pick<ParticleSnapshot, 'id' | 'color'>[];
+    hasRecoil: boolean;
+}
+
+export const frameStride = (layout: ReplayLayout) =>
+    1 + layout.particles.length * (layout.hasRecoil ? 4 : 2) + layout.comparisonParticles.length * 2;
+
+export interface ReplayRecording {
+    layout: ReplayLayout;
+    stride: number;
+    data: Float32Array; // Grows as frames arrive; only the first frameCount rows are filled.
+    frameCount: number;
+    frameInterval: number; // Every how many simulation frames one is kept
+    skipped: number; // Incoming frames since the last kept one
+}
+
+// Float32 values kept per run (64 MB). A longer run keeps every other frame instead, as often
+// as needed, so the whole run stays on the timeline at a coarser step.
+export const MAX_REPLAY_VALUES = 16 * 1024 * 1024;
+const INITIAL_FRAME_CAPACITY = 1024;
+
+export const createReplayRecording = (layout: ReplayLayout): ReplayRecording => {
+    const stride = frameStride(layout);
+    return {
+        layout,
+        stride,
+        data: new Float32Array(stride * Math.max(1, Math.min(INITIAL_FRAME_CAPACITY, Math.floor(MAX_REPLAY_VALUES / stride)))),
+        frameCount: 0,
+        frameInterval: 1,
+        skipped: 0,
+    };
+};
+
+const halveRecording = (recording: ReplayRecording) => {
+    const { data, stride } = recording;
+    const kept = Math.ceil(recording.frameCount / 2);
+    for (let i = 1; i < kept; i++) {
+        data.copyWithin(i * stride, 2 * i * stride, (2 * i + 1) * stride);
+    }
+    recording.frameCount = kept;
+    recording.frameInterval *= 2;
+};
+
+// Appends frames streamed from the worker, a whole number of rows back to back.
+export const appendReplayFrames = (recording: ReplayRecording, frames: Float32Array) => {
+    const { stride } = recording;
+    for (let offset = 0; offset + stride <= frames.length; offset += stride) {
+        if (recording.skipped > 0 && recording.skipped < recording.frameInterval) {
+            recording.skipped++;
+            continue;
+        }
+        recording.skipped = 1;
+
+        if ((recording.frameCount + 1) * stride > recording.data.length) {
+            if (recording.data.length * 2 <= MAX_REPLAY_VALUES) {
+                const grown = new Float32Array(recording.data.length * 2);
+                grown.set(recording.data);
+                recording.data = grown;
+            } else {
+                // This frame lands on the coarser spacing only after an even number of kept frames.
+                const isOffSpacing = recording.frameCount % 2 === 1;
+                halveRecording(recording);
+                if (isOffSpacing) {
+                    recording.skipped = recording.frameInterval / 2 + 1;
+                    continue;
+                }
+            }
+        }
+        recording.data.set(frames.subarray(offset, offset + stride), recording.frameCount * stride);
+        recording.frameCount++;
+    }
+};
+
+export const replayFrameTime = (recording: ReplayRecording, frame: number) => recording.data[frame * recording.stride];
+
+// One instant of a run as x, y pairs in metres, each group in the order of its layout list.
+export interface FramePositions {
+    particles: Float32Array;
+    recoil: Float32Array | null;
+    comparison: Float32Array;
+}
+
+export const EMPTY_LAYOUT: ReplayLayout = { particles: [], comparisonParticles: [], hasRecoil: false };
+export const EMPTY_POSITIONS: FramePositions = { particles: new Float32Array(0), recoil: null, comparison: new Float32Array(0) };
+
+// Splits a frame row without its time into views of each group; nothing is copied.
+export const framePositions = (layout: ReplayLayout, row: Float32Array): FramePositions => {
+    const particleEnd = 2 * layout.particles.length;
+    const recoilEnd = layout.hasRecoil ? 2 * particleEnd : particleEnd;
+    return {
+        particles: row.subarray(0, particleEnd),
+        recoil: layout.hasRecoil ? row.subarray(particleEnd, recoilEnd) : null,
+        comparison: row.subarray(recoilEnd, recoilEnd + 2 * layout.comparisonParticles.length),
+    };
+};
+
+// The views share the recording's memory, so they change if it is thinned later.
+export const replayFrame = (recording: ReplayRecording, frame: number): FramePositions =>
+    framePositions(recording.layout, recording.data.subarray(frame * recording.stride + 1, (frame + 1) * recording.stride));
+
+export interface FrameSnapshots {
+    particles: ParticleSnapshot[];
+    comparisonParticles: ParticleSnapshot[];
+}
+
+export const frameSnapshots = (layout: ReplayLayout, positions: FramePositions): FrameSnapshots => {
+    const pointAt = (values: Float32Array, index: number) => ({ x: values[2 * index], y: values[2 * index + 1] });
+    return {
+        particles: layout.particles.map(({ id, color }, i) => ({
+            id,
+            color,
+            position: pointAt(positions.particles, i),
+            ...(positions.recoil && { recoilPosition: pointAt(positions.recoil, i) }),
+        })),
+        comparisonParticles: layout.comparisonParticles.map(({ id, color }, i) => ({ id, color, position: pointAt(positions.comparison, i) })),
+    };
+};
+
+// The reverse of frameSnapshots, for runs read back from a file.
+export const snapshotPositions = ({ particles, comparisonParticles }: FrameSnapshots): { layout: ReplayLayout; positions: FramePositions } => {
+    const hasRecoil = particles.length > 0 && particles.every(p => p.recoilPosition);
+    const pack = (points: Vector2D[]) => Float32Array.from(points.flatMap(p => [p.x, p.y]));
+    return {
+        layout: {
+            particles: particles.map(({ id, color }) => ({ id, color })),
+            comparisonParticles: comparisonParticles.map(({ id, color }) => ({ id, color })),
+            hasRecoil,
+        },
+        positions: {
+            particles: pack(particles.map(p => p.position)),
+            recoil: hasRecoil ? pack(particles.map(p => p.recoilPosition!)) : null,
+            comparison: pack(comparisonParticles.map(p => p.position)),
+        },
+    };
+};
+
+// The frame in which a particle is nearest its own recoiling nucleus or, for fixed nuclei,
+// the nearest of `nuclei` (metres). A Thomson atom is centred on the origin.
+export const closestApproachFrame = (recording: ReplayRecording, particleIndex: number, nuclei: Vector2D[]) => {
+    const { data, layout, stride } = recording;
+    const centres = nuclei.length > 0 ? nuclei : [{ x: 0, y: 0 }];
+    const offset = 1 + 2 * particleIndex;
+    const recoilOffset = 2 * layout.particles.length;
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let frame = 0; frame < recording.frameCount; frame++) {
+        const row = frame * stride + offset;
+        const x = data[row];
+        const y = data[row + 1];
+        let distance = Infinity;
+        if (layout.hasRecoil) {
+            distance = Math.hypot(x - data[row + recoilOffset], y - data[row + recoilOffset + 1]);
+        } else {
+            centres.forEach(c => {
+                distance = Math.min(distance, Math.hypot(x - c.x, y - c.y));
+            });
+        }
+        if (distance < bestDistance) {
+            bestDistance = distance;
+            best = frame;
+        }
+    }
+    return best;
+};
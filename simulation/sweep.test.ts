@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../constants';
+import type { FinishedPayload } from './protocol';
+import { buildSweepRuns, summarizeRun, sweepValues } from './sweep';
+import type { SweepDefinition } from './sweep';
+
+const Z_SWEEP: SweepDefinition = { parameter: 'targetZ', start: 10, end: 90, steps: 5, projectiles: ['alpha', 'proton'] };
+
+describe('parameter sweep', () => {
+    it('spaces the swept values evenly and rounds Z', () => {
+        expect(sweepValues(Z_SWEEP)).toEqual([10, 30, 50, 70, 90]);
+        expect(sweepValues({ ...Z_SWEEP, start: 1, end: 3, steps: 5 })).toEqual([1, 2, 3]);
+        expect(sweepValues({ ...Z_SWEEP, parameter: 'energy', start: 1, end: 2, steps: 3 })).toEqual([1, 1.5, 2]);
+    });
+
+    it('runs every value once per projectile with the rest of the settings kept', () => {
+        const runs = buildSweepRuns({ ...DEFAULT_SETTINGS, targetMassNumber: 197, isSplitView: true }, Z_SWEEP);
+        expect(runs).toHaveLength(10);
+        expect(runs.map(run => run.projectile)).toEqual([...Array(5).fill('alpha'), ...Array(5).fill('proton')]);
+        runs.forEach(run => {
+            expect(run.payload.settings.targetZ).toBe(run.value);
+            expect(run.payload.settings.targetMassNumber).toBeNull();
+            expect(run.payload.settings.isSplitView).toBe(false);
+            expect(run.payload.settings.numParticles).toBe(DEFAULT_SETTINGS.numParticles);
+            expect(run.payload.projectile.charge).toBe(run.projectile === 'alpha' ? 2 : 1);
+        });
+    });
+
+    it('puts the projectiles themselves on the axis when they are swept', () => {
+        const runs = buildSweepRuns(DEFAULT_SETTINGS, { ...Z_SWEEP, parameter: 'projectile' });
+        expect(runs.map(run => [run.projectile, run.value])).toEqual([['alpha', 0], ['proton', 1]]);
+    });
+
+    it('summarizes a finished run', () => {
+        const results = {
+            scatterData: [{ x: 1, y: 170 }, { x: 10, y: 60 }, { x: 100, y: 10 }, { x: 200, y: 4 }],
+            closestApproaches: [46, 60, 150, 250],
+        } as FinishedPayload;
+        expect(summarizeRun(results)).toEqual({ meanAngle: 61, backscatterFraction: 0.25, minClosestApproach: 46, particleCount: 4 });
+    });
+});
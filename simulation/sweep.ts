@@ -0,0 +1,70 @@
+import type { ProjectileType, SimulationSettings } from '../types';
+import { resolveProjectile, resolveTargetMass, resolveTargetMassNumber } from '../utils/projectiles';
+import { summarizeAngles } from '../utils/statistics';
+import type { FinishedPayload, ResetPayload } from './protocol';
+
+export type SweepParameter = 'energy' | 'targetZ' | 'projectile';
+
+export interface SweepDefinition {
+    parameter: SweepParameter;
+    start: number; // Range of the swept energy (MeV) or Z; unused when sweeping projectiles
+    end: number;
+    steps: number;
+    projectiles: ProjectileType[]; // One series each, or the swept values themselves
+}
+
+// One configuration of a sweep. `value` is the swept energy or Z, or the projectile's index.
+export interface SweepRun {
+    projectile: ProjectileType;
+    value: number;
+    payload: ResetPayload;
+}
+
+export interface RunSummary {
+    meanAngle: number; // degrees, lab frame
+    backscatterFraction: number; // share of particles turned past 90°
+    minClosestApproach: number; // fm
+    particleCount: number;
+}
+
+export const MAX_SWEEP_STEPS = 25;
+
+// Evenly spaced values from start to end; Z is rounded and deduplicated.
+export const sweepValues = (definition: SweepDefinition): number[] => {
+    if (definition.parameter === 'projectile') return definition.projectiles.map((_, i) => i);
+    const steps = Math.min(MAX_SWEEP_STEPS, Math.max(1, Math.round(definition.steps)));
+    const values = Array.from({ length: steps }, (_, i) =>
+        steps === 1 ? definition.start : definition.start + ((definition.end - definition.start) * i) / (steps - 1));
+    return definition.parameter === 'targetZ' ? Array.from(new Set(values.map(Math.round))) : values;
+};
+
+const toResetPayload = (settings: SimulationSettings): ResetPayload => ({
+    settings,
+    projectile: resolveProjectile(settings),
+    target: { massNumber: resolveTargetMassNumber(settings), mass: resolveTargetMass(settings) },
+});
+
+/**
+ * Expands a sweep into the runs it needs, each a copy of the current settings with the swept
+ * field replaced. An explicitly chosen target A would hold for every Z, so swept Z values
+ * estimate A again. Split view only adds a second canvas and is left out.
+ */
+export const buildSweepRuns = (base: SimulationSettings, definition: SweepDefinition): SweepRun[] =>
+    definition.projectiles.flatMap((projectile, index) => {
+        const values = definition.parameter === 'projectile' ? [index] : sweepValues(definition);
+        return values.map(value => {
+            const settings: SimulationSettings = { ...base, projectile, isSplitView: false };
+            if (definition.parameter === 'energy') settings.energy = value;
+            if (definition.parameter === 'targetZ') {
+                settings.targetZ = value;
+                settings.targetMassNumber = null;
+            }
+            return { projectile, value, payload: toResetPayload(settings) };
+        });
+    });
+
+export const summarizeRun = (results: FinishedPayload): RunSummary => ({
+    ...summarizeAngles(results.scatterData),
+    minClosestApproach: results.closestApproaches.reduce((min, d) => Math.min(min, d), Infinity),
+    particleCount: results.scatterData.length,
+});
@@ -0,0 +1,160 @@
+import { createSimulationEngine, MAX_RUN_FRAMES } from './engine';
+import type { ResetPayload, WorkerRequest, WorkerResponse } from './protocol';
+import { summarizeRun } from './sweep';
+
+// The project is type-checked against the DOM library, whose `self` is a Window.
+const scope = self as unknown as {
+    postMessage: (message: WorkerResponse, transfer?: Transferable[]) => void;
+    onmessage: ((e: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+const engine = createSimulationEngine();
+let physicsTimer: ReturnType<typeof setInterval> | null = null;
+let updateTimer: ReturnType<typeof setInterval> | null = null;
+let isRunning = false;
+// Diagnostics cover every particle, so for large beams they go out less often than positions.
+const DIAGNOSTICS_INTERVAL_MS = 250;
+let lastDiagnosticsTime = 0;
+let isReportingForces = false;
+
+// Sweeps run on their own engine, so the run on screen is left as it was.
+const SWEEP_SLICE_MS = 20; // Time spent per timer tick, so cancel requests still get through.
+const sweepEngine = createSimulationEngine({ recordPaths: false });
+let sweepRuns: ResetPayload[] = [];
+let sweepIndex = 0;
+let sweepFrames = 0;
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+const sendUpdate = (withDiagnostics = false) => {
+    if (!isRunning) return;
+    const now = Date.now();
+    if (now - lastDiagnosticsTime >= DIAGNOSTICS_INTERVAL_MS) withDiagnostics = true;
+    if (withDiagnostics) lastDiagnosticsTime = now;
+    const payload = engine.takeUpdate(withDiagnostics, isReportingForces);
+    const transfer: Transferable[] = [
+        payload.positions.buffer,
+        payload.newPaths.buffer,
+        payload.newPaths3D.buffer,
+        payload.newRecoilPaths.buffer,
+        payload.comparisonNewPaths.buffer,
+        payload.frames.buffer,
+    ];
+    if (payload.forces) transfer.push(payload.forces.buffer);
+    scope.postMessage({ type: 'update', payload }, transfer);
+};
+
+const sendForces = () => {
+    const forces = engine.forces();
+    scope.postMessage({ type: 'forces', payload: forces }, [forces.buffer]);
+};
+
+const stopSimulation = () => {
+    isRunning = false;
+    if (physicsTimer) {
+        clearInterval(physicsTimer);
+        physicsTimer = null;
+    }
+    if (updateTimer) {
+        clearInterval(updateTimer);
+        updateTimer = null;
+    }
+};
+
+const runSimulationStep = () => {
+    if (!isRunning || !engine.step()) return;
+    sendUpdate(true);
+    stopSimulation();
+    scope.postMessage({ type: 'finished', payload: engine.results() });
+};
+
+const stopSweep = () => {
+    if (sweepTimer) {
+        clearInterval(sweepTimer);
+        sweepTimer = null;
+    }
+    sweepRuns = [];
+};
+
+const runSweepSlice = () => {
+    const deadline = Date.now() + SWEEP_SLICE_MS;
+    while (Date.now() < deadline) {
+        sweepFrames++;
+        if (!sweepEngine.step() && sweepFrames < MAX_RUN_FRAMES) continue;
+
+        scope.postMessage({ type: 'sweepProgress', payload: { index: sweepIndex, summary: summarizeRun(sweepEngine.results()) } });
+        sweepIndex++;
+        if (sweepIndex >= sweepRuns.length) {
+            stopSweep();
+            scope.postMessage({ type: 'sweepComplete' });
+            return;
+        }
+        sweepEngine.reset(sweepRuns[sweepIndex]);
+        sweepFrames = 0;
+    }
+};
+
+scope.onmessage = (e) => {
+    const request = e.data;
+
+    switch (request.type) {
+        case 'start':
+            if (!isRunning) {
+                isRunning = true;
+                if (!physicsTimer) {
+                    physicsTimer = setInterval(runSimulationStep, 0);
+                }
+                if (!updateTimer) {
+                    updateTimer = setInterval(() => sendUpdate(), 1000 / 60);
+                }
+            }
+            break;
+
+        case 'pause':
+            stopSimulation();
+            break;
+
+        case 'detectors':
+            engine.setDetectors(request.payload.detectors);
+            break;
+
+        case 'reset': {
+            stopSimulation();
+            const payload = engine.reset(request.payload);
+            scope.postMessage({ type: 'resetComplete', payload }, [payload.initialPaths.buffer, payload.initialPaths3D.buffer, payload.positions.buffer]);
+            if (isReportingForces) sendForces();
+            break;
+        }
+
+        case 'sweep':
+            stopSweep();
+            if (request.payload.runs.length === 0) break;
+            sweepRuns = request.payload.runs;
+            sweepIndex = 0;
+            sweepFrames = 0;
+            sweepEngine.reset(sweepRuns[0]);
+            sweepTimer = setInterval(runSweepSlice, 0);
+            break;
+
+        case 'cancelSweep':
+            stopSweep();
+            break;
+
+        case 'trace': {
+            const trace = engine.trace(request.payload.particleId);
+            if (trace) scope.postMessage({ type: 'trace', payload: trace });
+            break;
+        }
+
+        case 'field': {
+            const field = engine.sampleField(request.payload);
+            scope.postMessage({ type: 'field', payload: field }, [field.energies.buffer]);
+            break;
+        }
+
+        case 'forces':
+            isReportingForces = request.payload.enabled;
+            // A paused run sends no updates of its own, so its forces are sent straight away.
+            if (isReportingForces && !isRunning) sendForces();
+            break;
+    }
+};
@@ -0,0 +1,96 @@
+export interface Vector2D {
+    x: number;
+    y: number;
+}
+
+export interface Vector3D extends Vector2D {
+    z: number;
+}
+
+export interface Particle {
+    id: number;
+    position: Vector2D;
+    recoilPosition?: Vector2D; // Where this particle's own target nucleus has been pushed to.
+    velocity: Vector2D;
+    path?: Vector2D[];
+    color: string;
+    impactParameter: number; // in meters
+}
+
+// What the worker streams per particle while it runs.
+export type ParticleSnapshot = Pick<Particle, 'id' | 'position' | 'recoilPosition' | 'color'>;
+
+export type IntegratorType = 'euler' | 'verlet' | 'rk4' | 'rk45';
+
+export type BeamMode = 'ladder' | 'random';
+
+export type TargetMode = 'single' | 'foil' | 'thomson';
+
+export type PotentialModel = 'coulomb' | 'screened' | 'sphere' | 'woodsSaxon';
+
+export type ProjectileType = 'alpha' | 'proton' | 'deuteron' | 'carbon' | 'electron' | 'positron' | 'muon' | 'custom';
+
+export interface ProjectileSpecies {
+    symbol: string;
+    charge: number; // in units of e
+    mass: number; // in kg
+    massNumber: number; // Nucleons; 0 for leptons, which feel no nuclear force.
+}
+
+export type FoilArrangement = 'lattice' | 'random';
+
+export type ReferenceFrame = 'lab' | 'cm';
+
+export type EnergyRange = 'standard' | 'high' | 'ultra';
+
+export interface SimulationSettings {
+    projectile: ProjectileType;
+    customCharge: number; // in units of e, used when projectile is 'custom'
+    customMass: number; // in u, used when projectile is 'custom'
+    energy: number; // in MeV
+    energyRange: EnergyRange;
+    isRelativistic: boolean;
+    numParticles: number;
+    targetZ: number; // Atomic number of the target nucleus
+    targetMassNumber: number | null; // Target A; null estimates it from Z
+    isFocusModeEnabled: boolean;
+    integrator: IntegratorType;
+    potential: PotentialModel;
+    beamMode: BeamMode;
+    seed: number; // PRNG seed for the random beam, recorded with each run
+    targetMode: TargetMode;
+    foilLayers: number; // Foil thickness in atomic layers
+    foilSpacing: number; // Distance between neighbouring nuclei in fm
+    foilArrangement: FoilArrangement;
+    isSplitView: boolean; // Also fire the beam at a Thomson atom and show both side by side.
+    isThreeDimensional: boolean; // Launch the beam across a disk and fly it in 3D; a lone nucleus only.
+}
+
+export type SimulationStatus = 'idle' | 'running' | 'paused';
+
+export interface ScatterPoint {
+    x: number; // Impact parameter in femtometers (fm).
+    y: number; // Scattering angle in degrees (°).
+}
+
+export interface PathUpdate {
+    [particleId: number]: Vector2D[]; // Lab-frame positions in meters
+}
+
+export interface Detector {
+    id: number;
+    angle: number; // Position angle in degrees, counter-clockwise from the beam axis.
+    width: number; // Angular width in degrees.
+    color: string;
+}
+
+export interface DetectorHitUpdate {
+    [detectorId: number]: number[]; // Simulation times of new hits, in seconds.
+}
+
+export interface ConservationDiagnostic {
+    id: number;
+    impactParameter: number; // in meters
+    energyDrift: number; // (E - E₀) / E₀
+    angularMomentumDrift: number; // (L - L₀) / L_ref, L_ref = m·v₀·max(b, 1 fm)
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../constants';
+import { azimuthDeg, detectorDirection, detectorSolidAngle, isThreeDimensionalRun, polarAngleDeg, projectPoint, VIEW_3D_PRESETS } from './beamGeometry';
+
+describe('beam geometry', () => {
+    it('reads polar and azimuthal angles about the beam axis', () => {
+        expect(polarAngleDeg({ x: 1, y: 1, z: 0 })).toBeCloseTo(45, 10);
+        expect(polarAngleDeg({ x: 1, y: -1, z: 0 })).toBeCloseTo(45, 10);
+        expect(polarAngleDeg({ x: -1, y: 0, z: 1 })).toBeCloseTo(135, 10);
+        expect(azimuthDeg({ x: 0, y: 0, z: 2 })).toBeCloseTo(90, 10);
+        expect(azimuthDeg({ x: 5, y: -1, z: 0 })).toBeCloseTo(180, 10);
+    });
+
+    it('gives a detector the solid angle of its cone', () => {
+        expect(detectorSolidAngle(180)).toBeCloseTo(2 * Math.PI, 10);
+        expect(detectorSolidAngle(360)).toBeCloseTo(4 * Math.PI, 10);
+        // A narrow cone is close to a flat disk of radius width/2.
+        expect(detectorSolidAngle(2) / (Math.PI * (Math.PI / 180) ** 2)).toBeCloseTo(1, 4);
+        const up = detectorDirection(90);
+        expect(up.x).toBeCloseTo(0, 10);
+        expect(up.y).toBeCloseTo(-1, 10);
+    });
+
+    it('projects the side view onto the canvas and the beam view across the beam', () => {
+        const p = { x: 3, y: -2, z: 5 };
+        expect(projectPoint(p, VIEW_3D_PRESETS.side)).toEqual({ x: 3, y: -2 });
+        const along = projectPoint(p, VIEW_3D_PRESETS.beam);
+        expect(along.x).toBeCloseTo(-5, 10);
+        expect(along.y).toBeCloseTo(-2, 10);
+    });
+
+    it('flies only a lone nucleus in 3D', () => {
+        expect(isThreeDimensionalRun({ ...DEFAULT_SETTINGS, isThreeDimensional: true })).toBe(true);
+        expect(isThreeDimensionalRun({ ...DEFAULT_SETTINGS, isThreeDimensional: true, targetMode: 'foil' })).toBe(false);
+        expect(isThreeDimensionalRun(DEFAULT_SETTINGS)).toBe(false);
+    });
+});
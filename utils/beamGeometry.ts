@@ -0,0 +1,48 @@
+import type { SimulationSettings, Vector3D } from '../types';
+
+const DEGREES = 180 / Math.PI;
+
+// Only a lone nucleus is flown in 3D; foils and Thomson atoms stay in the plane of the canvas.
+export const isThreeDimensionalRun = (settings: SimulationSettings) =>
+    settings.isThreeDimensional && settings.targetMode === 'single';
+
+// The polar angle θ of a direction from the beam axis (+x) and its azimuth φ about that axis,
+// from +y towards +z, both in degrees. In the plane θ = |atan2(y, x)| and φ is 0 or 180.
+export const polarAngleDeg = (v: Vector3D) => Math.atan2(Math.hypot(v.y, v.z), v.x) * DEGREES;
+
+export const azimuthDeg = (v: Vector3D) => Math.atan2(v.z, v.y) * DEGREES;
+
+// Detectors are centred in the plane of the canvas, where y points down, at a position angle
+// counter-clockwise from the beam axis.
+export const detectorDirection = (angleDeg: number): Vector3D => ({
+    x: Math.cos(angleDeg / DEGREES),
+    y: -Math.sin(angleDeg / DEGREES),
+    z: 0,
+});
+
+// A detector takes in the cone of half-angle width/2 about its direction, ΔΩ = 2π(1 − cos(width/2)) sr.
+// In the plane only the cone's arc is ever crossed.
+export const detectorSolidAngle = (widthDeg: number) => 2 * Math.PI * (1 - Math.cos(widthDeg / (2 * DEGREES)));
+
+export type View3DPreset = 'oblique' | 'side' | 'beam';
+
+export interface ViewRotation {
+    yaw: number; // degrees about the canvas's vertical axis
+    pitch: number; // degrees, tipping the view over the top
+}
+
+// 'side' looks down z exactly as the 2D canvas does; 'beam' looks back along the beam axis.
+export const VIEW_3D_PRESETS: Record<View3DPreset, ViewRotation> = {
+    oblique: { yaw: -35, pitch: 25 },
+    side: { yaw: 0, pitch: 0 },
+    beam: { yaw: 90, pitch: 0 },
+};
+
+// Orthographic projection of a point onto the view plane, in the same units and screen sense as the point.
+export const projectPoint = (p: Vector3D, { yaw, pitch }: ViewRotation) => {
+    const a = yaw / DEGREES;
+    const b = pitch / DEGREES;
+    const x = p.x * Math.cos(a) - p.z * Math.sin(a);
+    const depth = p.x * Math.sin(a) + p.z * Math.cos(a);
+    return { x, y: p.y * Math.cos(b) - depth * Math.sin(b) };
+};
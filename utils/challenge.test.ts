@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../constants';
+import {
+    challengeSettings,
+    createChallenge,
+    fitHeadOnDistance,
+    gradeChallenge,
+    MYSTERY_ENERGY_RANGE,
+    MYSTERY_Z_RANGE,
+    scoreEstimate,
+    targetZFromHeadOnDistance,
+} from './challenge';
+import { rutherfordAngleDeg, scatteringKinematics } from './rutherford';
+
+describe('mystery target challenge', () => {
+    it('hides the same target behind the same number', () => {
+        const challenge = createChallenge(1234, true, 5);
+        expect(createChallenge(1234, true, 5)).toEqual(challenge);
+        expect(challenge.answer.targetZ).toBeGreaterThanOrEqual(MYSTERY_Z_RANGE.min);
+        expect(challenge.answer.targetZ).toBeLessThanOrEqual(MYSTERY_Z_RANGE.max);
+        expect(challenge.answer.energy).toBeGreaterThanOrEqual(MYSTERY_ENERGY_RANGE.min);
+        expect(challenge.answer.energy).toBeLessThanOrEqual(MYSTERY_ENERGY_RANGE.max);
+        expect(createChallenge(1234, false, 5).answer).toEqual({ targetZ: challenge.answer.targetZ, energy: 5 });
+    });
+
+    it('fits the head-on distance back out of slightly noisy scatter data', () => {
+        const headOnDistance = 45;
+        const points = [5, 10, 20, 40, 80, 160, 320].map((b, i) => ({ x: b, y: rutherfordAngleDeg(b, headOnDistance) * (1 + (i % 2 ? 0.002 : -0.002)) }));
+        const fit = fitHeadOnDistance(points)!;
+        expect(fit.headOnDistance).toBeCloseTo(headOnDistance, 0);
+        expect(fit.uncertainty).toBeGreaterThan(0);
+        expect(fit.uncertainty).toBeLessThan(1);
+        expect(fitHeadOnDistance([{ x: 10, y: 30 }])).toBeNull();
+    });
+
+    it('turns a fitted head-on distance back into the hidden charge, recoil included', () => {
+        const challenge = createChallenge(42, false, 7.5);
+        const settings = challengeSettings({ ...DEFAULT_SETTINGS, targetZ: 1, isRelativistic: true }, challenge);
+        expect(settings.targetMode).toBe('single');
+        expect(settings.isRelativistic).toBe(false);
+        const { headOnDistance } = scatteringKinematics(settings, 'cm');
+        expect(targetZFromHeadOnDistance(headOnDistance, { ...settings, targetZ: 1 })).toBe(challenge.answer.targetZ);
+    });
+
+    it('gives full marks for the answer and fewer the further off an estimate is', () => {
+        expect(scoreEstimate(79, 79)).toBe(100);
+        expect(scoreEstimate(75, 79)).toBeLessThan(100);
+        expect(scoreEstimate(60, 79)).toBeLessThan(scoreEstimate(75, 79));
+        expect(scoreEstimate(20, 79)).toBe(0);
+
+        const challenge = createChallenge(7, true, 5);
+        const { answer } = challenge;
+        expect(gradeChallenge(challenge, answer.targetZ, answer.energy).result!.score).toBe(100);
+        expect(gradeChallenge(challenge, answer.targetZ, answer.energy * 2).result!.score).toBe(50);
+        expect(gradeChallenge(createChallenge(7, false, 5), answer.targetZ, null).result).toEqual({ targetZ: answer.targetZ, energy: null, score: 100 });
+    });
+});
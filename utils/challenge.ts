@@ -0,0 +1,126 @@
+import type { ScatterPoint, SimulationSettings } from '../types';
+import { mulberry32 } from './random';
+import { scatteringKinematics } from './rutherford';
+
+// The hidden target is drawn from these, so the answer is a nucleus a school lab could use.
+export const MYSTERY_Z_RANGE = { min: 6, max: 92 };
+export const MYSTERY_ENERGY_RANGE = { min: 3, max: 12, step: 0.5 }; // MeV
+export const MAX_CHALLENGE_NUMBER = 99999;
+const SCORE_WIDTH = 0.1; // Relative error at which an estimate scores 1/e of full marks
+
+export interface ChallengeAnswer {
+    targetZ: number;
+    energy: number; // MeV
+}
+
+export interface ChallengeResult {
+    targetZ: number; // The estimates handed in
+    energy: number | null; // Only asked for when the energy was hidden
+    score: number; // 0–100
+}
+
+export interface Challenge {
+    number: number; // Picks the hidden target, so a whole class can share one
+    isEnergyHidden: boolean;
+    answer: ChallengeAnswer;
+    result: ChallengeResult | null; // Set once an estimate is in and the answer is shown
+}
+
+export const createChallenge = (number: number, isEnergyHidden: boolean, visibleEnergy: number): Challenge => {
+    const random = mulberry32(number ^ 0x5eed);
+    const targetZ = MYSTERY_Z_RANGE.min + Math.floor(random() * (MYSTERY_Z_RANGE.max - MYSTERY_Z_RANGE.min + 1));
+    const energySteps = Math.round((MYSTERY_ENERGY_RANGE.max - MYSTERY_ENERGY_RANGE.min) / MYSTERY_ENERGY_RANGE.step);
+    const hiddenEnergy = MYSTERY_ENERGY_RANGE.min + Math.floor(random() * (energySteps + 1)) * MYSTERY_ENERGY_RANGE.step;
+    return {
+        number,
+        isEnergyHidden,
+        answer: { targetZ, energy: isEnergyHidden ? hiddenEnergy : visibleEnergy },
+        result: null,
+    };
+};
+
+// A lone nucleus with the Coulomb potential and Newtonian dynamics, so the Rutherford relation
+// holds exactly and the data can be fitted with it. The beam is left as the student set it.
+export const challengeSettings = (settings: SimulationSettings, { answer }: Challenge): SimulationSettings => ({
+    ...settings,
+    targetZ: answer.targetZ,
+    targetMassNumber: null,
+    energy: answer.energy,
+    energyRange: 'standard',
+    targetMode: 'single',
+    potential: 'coulomb',
+    isRelativistic: false,
+    isSplitView: false,
+});
+
+export interface HeadOnFit {
+    headOnDistance: number; // fm
+    uncertainty: number; // fm, one standard error
+    pointCount: number;
+}
+
+const MAX_FIT_ITERATIONS = 50;
+
+/**
+ * Least-squares fit of θ = 2·arctan(d / 2b) to centre-of-mass scatter data, in the angle
+ * itself so a few near-head-on particles do not outweigh the rest. Gauss–Newton from the
+ * median of the single-point solutions d = 2b·tan(θ/2).
+ */
+export const fitHeadOnDistance = (points: ScatterPoint[]): HeadOnFit | null => {
+    const usable = points
+        .filter(p => p.x > 0 && p.y > 0 && p.y < 180)
+        .map(p => ({ b: p.x, theta: (p.y * Math.PI) / 180 }));
+    if (usable.length < 2) return null;
+
+    const guesses = usable.map(p => 2 * p.b * Math.tan(p.theta / 2)).sort((a, b) => a - b);
+    let d = guesses[Math.floor(guesses.length / 2)];
+    let curvature = 0;
+    let residualSum = 0;
+    for (let iteration = 0; iteration < MAX_FIT_ITERATIONS; iteration++) {
+        let gradient = 0;
+        curvature = 0;
+        residualSum = 0;
+        usable.forEach(({ b, theta }) => {
+            const residual = theta - 2 * Math.atan(d / (2 * b));
+            const slope = (4 * b) / (4 * b * b + d * d); // ∂θ/∂d
+            gradient += slope * residual;
+            curvature += slope * slope;
+            residualSum += residual * residual;
+        });
+        const change = gradient / curvature;
+        d = Math.max(d + change, d / 2);
+        if (Math.abs(change) < 1e-9 * d) break;
+    }
+    return {
+        headOnDistance: d,
+        uncertainty: Math.sqrt(residualSum / (usable.length - 1) / curvature),
+        pointCount: usable.length,
+    };
+};
+
+// The nuclear charge whose head-on distance, at this beam and with its own recoil, comes
+// closest to d. The mass number is estimated from Z, as the challenge target's is.
+export const targetZFromHeadOnDistance = (headOnDistance: number, settings: SimulationSettings) => {
+    let best = 1;
+    let bestError = Infinity;
+    for (let z = 1; z <= 118; z++) {
+        const error = Math.abs(scatteringKinematics({ ...settings, targetZ: z, targetMassNumber: null }, 'cm').headOnDistance - headOnDistance);
+        if (error < bestError) {
+            best = z;
+            bestError = error;
+        }
+    }
+    return best;
+};
+
+export const scoreEstimate = (estimate: number, answer: number) =>
+    Math.round(100 * Math.exp(-(((estimate - answer) / answer / SCORE_WIDTH) ** 2)));
+
+// With the energy hidden too, both estimates count equally.
+export const gradeChallenge = (challenge: Challenge, targetZ: number, energy: number | null): Challenge => {
+    const zScore = scoreEstimate(targetZ, challenge.answer.targetZ);
+    const score = challenge.isEnergyHidden && energy !== null
+        ? Math.round((zScore + scoreEstimate(energy, challenge.answer.energy)) / 2)
+        : zScore;
+    return { ...challenge, result: { targetZ, energy: challenge.isEnergyHidden ? energy : null, score } };
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { packPaths } from '../simulation/pathBuffer';
+import { printColor, trajectoryFigure, wrapText } from './figure';
+import type { FigureOptions, TrajectoryScene } from './figure';
+
+const FM = 1e-15;
+
+const scene = (overrides: Partial<TrajectoryScene> = {}): TrajectoryScene => ({
+    width: 800,
+    height: 600,
+    centre: { x: 0, y: 0 },
+    scale: FM, // One femtometre per canvas unit
+    trails: [{
+        buffer: packPaths({
+            0: [{ x: -300 * FM, y: -50 * FM }, { x: -100 * FM, y: -50 * FM }, { x: 0, y: -80 * FM }],
+            1: [{ x: -300 * FM, y: 50 * FM }, { x: 200 * FM, y: 50 * FM }],
+        }),
+        isRecoil: false,
+    }],
+    colorOf: id => (id === 0 ? 'hsl(10, 90%, 70%)' : 'hsl(200, 90%, 70%)'),
+    ghostPaths: [],
+    particles: [{ id: 0, color: 'hsl(10, 90%, 70%)' }, { id: 1, color: 'hsl(200, 90%, 70%)' }],
+    positions: Float32Array.from([0, -80 * FM, 200 * FM, 50 * FM]),
+    recoilPositions: null,
+    particleRadius: 3,
+    nuclei: [],
+    nucleusRadius: 5,
+    electrons: [],
+    isThomsonAtom: false,
+    detectors: [{ id: 1, angle: 90, width: 10, color: '#ef4444' }],
+    detectorCounts: { 1: 7 },
+    detectorRadius: 250,
+    closestApproach: null,
+    scaleBar: { length: 100 * FM, label: '100 fm' },
+    ...overrides,
+});
+
+const options = (overrides: Partial<FigureOptions> = {}): FigureOptions => ({ theme: 'dark', isScaleBarShown: true, caption: null, ...overrides });
+
+describe('figure export', () => {
+    it('draws each particle as one polyline in its own colour, placed as on screen', () => {
+        const { svg, width, height } = trajectoryFigure(scene(), options());
+        expect([width, height]).toEqual([800, 600]);
+        expect(svg).toContain('stroke="hsl(10, 90%, 70%)" d="M100 250L300 250 400 220"');
+        expect(svg).toContain('stroke="hsl(200, 90%, 70%)" d="M100 350L600 350"');
+        expect(svg).toContain('>7</text>');
+        expect(svg).toContain('>100 fm</text>');
+    });
+
+    it('prints on white with darkened colours and an escaped caption below the view', () => {
+        const { svg, height } = trajectoryFigure(scene(), options({ theme: 'light', isScaleBarShown: false, caption: 'α 5 MeV <Z = 79> & more' }));
+        expect(svg).toContain('<rect width="100%" height="100%" fill="#ffffff"/>');
+        expect(svg).toContain('stroke="hsl(10, 90%, 40%)"');
+        expect(svg).not.toContain('100 fm');
+        expect(svg).toContain('α 5 MeV &lt;Z = 79&gt; &amp; more');
+        expect(height).toBeGreaterThan(600);
+    });
+
+    it('darkens only colours too pale for paper', () => {
+        expect(printColor('#fde047', 'dark')).toBe('#fde047');
+        expect(printColor('gold', 'light')).toBe('#b8860b');
+        expect(printColor('#1e3a8a', 'light')).toBe('#1e3a8a');
+        expect(printColor('rgba(252, 165, 165, 0.7)', 'light')).toMatch(/^rgba\(\d+, \d+, \d+, 0\.7\)$/);
+        expect(printColor('hsla(120, 50%, 80%, 0.5)', 'light')).toBe('hsla(120, 50%, 40%, 0.5)');
+    });
+
+    it('wraps a caption between words', () => {
+        expect(wrapText('one two three four', 50, 10)).toEqual(['one two', 'three', 'four']);
+        expect(wrapText('', 50, 10)).toEqual([]);
+    });
+});
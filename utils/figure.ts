@@ -0,0 +1,455 @@
+import type { Chart } from 'chart.js';
+import { PATH_POINT_SIZE } from '../simulation/pathBuffer';
+import type { Detector, ParticleSnapshot, Vector2D } from '../types';
+
+// Standalone SVG figures for slides and worksheets, built from what is on screen: the trajectory
+// view from its own data and the charts from their chart.js instances. PNGs are rasterized from
+// the same SVG in the browser, so nothing leaves the page.
+
+export type FigureTheme = 'dark' | 'light';
+
+export interface FigureOptions {
+    theme: FigureTheme;
+    isScaleBarShown: boolean; // Trajectory view only
+    caption: string | null;
+}
+
+export interface Figure {
+    svg: string;
+    width: number; // CSS pixels
+    height: number;
+}
+
+interface FigurePalette {
+    background: string;
+    text: string;
+    mutedText: string;
+    grid: string;
+    frame: string;
+}
+
+const PALETTES: Record<FigureTheme, FigurePalette> = {
+    dark: { background: '#000000', text: '#e5e7eb', mutedText: '#a0aec0', grid: '#4a5568', frame: '#6b7280' },
+    light: { background: '#ffffff', text: '#111827', mutedText: '#374151', grid: '#d1d5db', frame: '#6b7280' },
+};
+
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+const CAPTION_FONT_SIZE = 13;
+const CAPTION_LINE_HEIGHT = 18;
+const PADDING = 16;
+const MAX_LIGHT_LUMINANCE = 0.5; // Colours brighter than this are darkened to read on white paper.
+const MAX_LIGHT_LIGHTNESS = 40; // %, for hsl() colours
+const NAMED_PRINT_COLORS: Record<string, string> = { gold: '#b8860b', yellow: '#a16207', white: '#111827' };
+
+export const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Coordinates to a hundredth of a pixel, which keeps large figures small.
+const n = (value: number) => `${Math.round(value * 100) / 100}`;
+
+/**
+ * The colour used for `color` in a figure of this theme. The screen's colours are chosen for a
+ * black background; on white, light ones are darkened with their hue kept, so pale traces and
+ * gold nuclei still print.
+ */
+export const printColor = (color: string, theme: FigureTheme) => {
+    if (theme === 'dark') return color;
+    const named = NAMED_PRINT_COLORS[color.toLowerCase()];
+    if (named) return named;
+
+    const hsl = color.match(/^hsla?\(\s*([\d.]+)\s*,\s*([\d.]+)%\s*,\s*([\d.]+)%\s*(,\s*[\d.]+\s*)?\)$/);
+    if (hsl) {
+        const lightness = Math.min(Number(hsl[3]), MAX_LIGHT_LIGHTNESS);
+        return hsl[4] ? `hsla(${hsl[1]}, ${hsl[2]}%, ${lightness}%${hsl[4]})` : `hsl(${hsl[1]}, ${hsl[2]}%, ${lightness}%)`;
+    }
+
+    let rgb: number[] | null = null;
+    let alpha: string | null = null;
+    const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+    const functional = color.match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/);
+    if (hex) {
+        const digits = hex[1].length === 3 ? [...hex[1]].map(d => d + d).join('') : hex[1];
+        rgb = [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16));
+    } else if (functional) {
+        rgb = functional.slice(1, 4).map(Number);
+        alpha = functional[4] ?? null;
+    }
+    if (!rgb) return color;
+    const luminance = (0.299 * rgb[0] + 0.587 * rgb[1] + 0.114 * rgb[2]) / 255;
+    if (luminance <= MAX_LIGHT_LUMINANCE) return color;
+    const [r, g, b] = rgb.map(c => Math.round((c * MAX_LIGHT_LUMINANCE) / luminance));
+    return alpha === null ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+// A rough text width for layout, as SVG text cannot be measured without a document.
+// Hangul and other wide scripts take a full em, Latin letters and digits a little over half.
+const textWidth = (text: string, fontSize: number) =>
+    [...text].reduce((width, char) => width + (char.charCodeAt(0) >= 0x1100 ? 1 : 0.58), 0) * fontSize;
+
+// Splits text into lines no wider than maxWidth, breaking between words where it can.
+export const wrapText = (text: string, maxWidth: number, fontSize: number) => {
+    const lines: string[] = [];
+    let line = '';
+    text.split(/\s+/).filter(Boolean).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && textWidth(candidate, fontSize) > maxWidth) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    });
+    if (line) lines.push(line);
+    return lines;
+};
+
+const captionHeight = (lines: string[]) => (lines.length > 0 ? lines.length * CAPTION_LINE_HEIGHT + PADDING / 2 : 0);
+
+const captionMarkup = (lines: string[], top: number, palette: FigurePalette) =>
+    lines.map((line, i) =>
+        `<text x="${PADDING}" y="${n(top + (i + 0.75) * CAPTION_LINE_HEIGHT)}" fill="${palette.mutedText}" font-size="${CAPTION_FONT_SIZE}">${escapeXml(line)}</text>`
+    ).join('');
+
+const wrapSvg = (width: number, height: number, palette: FigurePalette, body: string): Figure => ({
+    width,
+    height,
+    svg: `<?xml version="1.0" encoding="UTF-8"?>\n`
+        + `<svg xmlns="http://www.w3.org/2000/svg" width="${n(width)}" height="${n(height)}" viewBox="0 0 ${n(width)} ${n(height)}" font-family="${FONT_FAMILY}">`
+        + `<rect width="100%" height="100%" fill="${palette.background}"/>${body}</svg>\n`,
+});
+
+// --- Trajectory view ---
+
+/**
+ * What the trajectory view shows, in the lab frame and in metres. The figure covers the same
+ * width × height canvas units around `centre` as the screen does.
+ */
+export interface TrajectoryScene {
+    width: number; // Canvas units
+    height: number;
+    centre: Vector2D;
+    scale: number; // Metres per canvas unit
+    trails: { buffer: Float32Array; isRecoil: boolean }[]; // Packed as in simulation/pathBuffer.ts, in arrival order
+    colorOf: (id: number) => string | undefined; // A particle's trail and dot colour
+    ghostPaths: { buffers: Float32Array[]; color: string }[];
+    particles: Pick<ParticleSnapshot, 'id' | 'color'>[];
+    positions: Float32Array; // x, y of each of `particles` in turn
+    recoilPositions: Float32Array | null;
+    particleRadius: number; // Canvas units
+    nuclei: Vector2D[]; // More than one for a foil; otherwise a lone nucleus sits at the origin.
+    nucleusRadius: number; // Canvas units, of a lone nucleus
+    electrons: Vector2D[];
+    isThomsonAtom: boolean;
+    detectors: Detector[];
+    detectorCounts: Record<number, number>;
+    detectorRadius: number; // Canvas units
+    closestApproach: { radius: number; label: string } | null; // Radius in metres
+    scaleBar: { length: number; label: string }; // Length in metres
+}
+
+const TRAIL_OPACITY = 0.7;
+const GHOST_OPACITY = 0.3;
+const RECOIL_TRAIL_OPACITY = 0.6;
+const MIN_POINT_SPACING = 0.5; // Canvas units; closer points along a path are left out.
+
+/**
+ * Path data for packed buffers, one string per colour. Each particle becomes a single polyline,
+ * so the file holds every point once instead of once per segment.
+ */
+const pathDataByColor = (buffers: Float32Array[], colorOf: (id: number) => string | undefined, toScreen: (x: number, y: number) => Vector2D) => {
+    const polylines = new Map<number, number[]>();
+    buffers.forEach(buffer => {
+        for (let i = 0; i + PATH_POINT_SIZE <= buffer.length; i += PATH_POINT_SIZE) {
+            const id = buffer[i];
+            const point = toScreen(buffer[i + 1], buffer[i + 2]);
+            let points = polylines.get(id);
+            if (!points) polylines.set(id, (points = []));
+            const last = points.length;
+            if (last > 0 && Math.hypot(point.x - points[last - 2], point.y - points[last - 1]) < MIN_POINT_SPACING) continue;
+            points.push(point.x, point.y);
+        }
+    });
+    const byColor = new Map<string, string[]>();
+    polylines.forEach((points, id) => {
+        const color = colorOf(id);
+        if (!color || points.length < 4) return;
+        const coordinates: string[] = [];
+        for (let i = 0; i < points.length; i += 2) coordinates.push(`${n(points[i])} ${n(points[i + 1])}`);
+        let parts = byColor.get(color);
+        if (!parts) byColor.set(color, (parts = []));
+        parts.push(`M${coordinates[0]}L${coordinates.slice(1).join(' ')}`);
+    });
+    return byColor;
+};
+
+const pointOnCircle = (angleDeg: number, radius: number, centre: Vector2D) => ({
+    x: centre.x + radius * Math.cos((angleDeg * Math.PI) / 180),
+    y: centre.y - radius * Math.sin((angleDeg * Math.PI) / 180),
+});
+
+const dot = (x: number, y: number, r: number) => `M${n(x + r)} ${n(y)}a${n(r)} ${n(r)} 0 1 0 ${n(-2 * r)} 0a${n(r)} ${n(r)} 0 1 0 ${n(2 * r)} 0`;
+
+export const trajectoryFigure = (scene: TrajectoryScene, options: FigureOptions): Figure => {
+    const { width, height, centre, scale } = scene;
+    const palette = PALETTES[options.theme];
+    const color = (c: string) => printColor(c, options.theme);
+    const toScreen = (x: number, y: number) => ({ x: (x - centre.x) / scale + width / 2, y: (y - centre.y) / scale + height / 2 });
+    const origin = toScreen(0, 0);
+    const inView = (p: Vector2D, margin: number) => p.x >= -margin && p.x <= width + margin && p.y >= -margin && p.y <= height + margin;
+    const body: string[] = [];
+
+    // Grid squares are as long as the scale bar, as on screen.
+    const gridStep = scene.scaleBar.length / scale;
+    if (gridStep > 4) {
+        const lines: string[] = [];
+        for (let x = origin.x - Math.floor(origin.x / gridStep) * gridStep; x <= width; x += gridStep) lines.push(`M${n(x)} 0V${height}`);
+        for (let y = origin.y - Math.floor(origin.y / gridStep) * gridStep; y <= height; y += gridStep) lines.push(`M0 ${n(y)}H${width}`);
+        body.push(`<path d="${lines.join('')}" stroke="${palette.grid}" stroke-opacity="0.5" stroke-width="1" fill="none"/>`);
+    }
+    if (scene.isThomsonAtom) body.push(`<rect width="${width}" height="${height}" fill="rgba(239, 68, 68, 0.08)"/>`);
+
+    const strokeGroup = (byColor: Map<string, string[]>, attributes: string) => {
+        if (byColor.size === 0) return;
+        body.push(`<g fill="none" stroke-linecap="round" stroke-linejoin="round" ${attributes}>`);
+        byColor.forEach((parts, c) => body.push(`<path stroke="${color(c)}" d="${parts.join('')}"/>`));
+        body.push('</g>');
+    };
+    scene.ghostPaths.forEach(({ buffers, color: ghostColor }) =>
+        strokeGroup(pathDataByColor(buffers, () => ghostColor, toScreen), `stroke-width="1" opacity="${GHOST_OPACITY}"`));
+    strokeGroup(
+        pathDataByColor(scene.trails.filter(chunk => !chunk.isRecoil).map(chunk => chunk.buffer), scene.colorOf, toScreen),
+        `stroke-width="1.5" opacity="${TRAIL_OPACITY}"`
+    );
+    strokeGroup(
+        pathDataByColor(scene.trails.filter(chunk => chunk.isRecoil).map(chunk => chunk.buffer), () => 'gold', toScreen),
+        `stroke-width="1.5" stroke-dasharray="3 3" opacity="${RECOIL_TRAIL_OPACITY}"`
+    );
+
+    if (scene.isThomsonAtom) {
+        const electrons = scene.electrons.map(e => toScreen(e.x, e.y)).filter(p => inView(p, 3)).map(p => dot(p.x, p.y, 3));
+        if (electrons.length > 0) body.push(`<path fill="${color('#60a5fa')}" d="${electrons.join('')}"/>`);
+    } else if (scene.nuclei.length > 1) {
+        const nuclei = scene.nuclei.map(p => toScreen(p.x, p.y)).filter(p => inView(p, 3)).map(p => dot(p.x, p.y, 2.5));
+        if (nuclei.length > 0) body.push(`<path fill="${color('gold')}" d="${nuclei.join('')}"/>`);
+    } else {
+        body.push(`<circle cx="${n(origin.x)}" cy="${n(origin.y)}" r="${n(scene.nucleusRadius)}" fill="${color('gold')}" stroke="${color('yellow')}" stroke-width="2"/>`);
+    }
+
+    if (scene.closestApproach && !scene.isThomsonAtom) {
+        const radius = scene.closestApproach.radius / scale;
+        const centres = scene.nuclei.length > 1 ? scene.nuclei : [{ x: 0, y: 0 }];
+        const stroke = color('#22d3ee');
+        centres.map(p => toScreen(p.x, p.y)).forEach(p =>
+            body.push(`<circle cx="${n(p.x)}" cy="${n(p.y)}" r="${n(radius)}" fill="none" stroke="${stroke}" stroke-width="1.5" stroke-dasharray="5 4"/>`));
+        body.push(`<text x="${n(origin.x + radius * Math.SQRT1_2 + 4)}" y="${n(origin.y - radius * Math.SQRT1_2 - 4)}" fill="${stroke}" font-size="13">${escapeXml(scene.closestApproach.label)}</text>`);
+    }
+
+    const dots = new Map<string, string[]>();
+    scene.particles.forEach((p, i) => {
+        const c = scene.colorOf(p.id) ?? p.color;
+        if (2 * i + 1 >= scene.positions.length) return;
+        const point = toScreen(scene.positions[2 * i], scene.positions[2 * i + 1]);
+        if (!inView(point, scene.particleRadius)) return;
+        let parts = dots.get(c);
+        if (!parts) dots.set(c, (parts = []));
+        parts.push(dot(point.x, point.y, scene.particleRadius));
+    });
+    dots.forEach((parts, c) => body.push(`<path fill="${color(c)}" d="${parts.join('')}"/>`));
+    if (scene.recoilPositions) {
+        const recoils: string[] = [];
+        for (let i = 0; i + 1 < scene.recoilPositions.length; i += 2) {
+            const point = toScreen(scene.recoilPositions[i], scene.recoilPositions[i + 1]);
+            if (inView(point, 2)) recoils.push(dot(point.x, point.y, 2));
+        }
+        if (recoils.length > 0) body.push(`<path fill="${color('gold')}" opacity="0.8" d="${recoils.join('')}"/>`);
+    }
+
+    if (scene.detectors.length > 0) {
+        const radius = scene.detectorRadius;
+        body.push(`<circle cx="${n(origin.x)}" cy="${n(origin.y)}" r="${n(radius)}" fill="none" stroke="${palette.mutedText}" stroke-opacity="0.4" stroke-width="1" stroke-dasharray="4 6"/>`);
+        scene.detectors.forEach(detector => {
+            const start = pointOnCircle(detector.angle - detector.width / 2, radius, origin);
+            const end = pointOnCircle(detector.angle + detector.width / 2, radius, origin);
+            const label = pointOnCircle(detector.angle, radius + 22, origin);
+            const stroke = color(detector.color);
+            body.push(
+                `<path d="M${n(start.x)} ${n(start.y)}A${n(radius)} ${n(radius)} 0 ${detector.width > 180 ? 1 : 0} 0 ${n(end.x)} ${n(end.y)}" fill="none" stroke="${stroke}" stroke-width="8" stroke-opacity="0.8" stroke-linecap="round"/>`,
+                `<text x="${n(label.x)}" y="${n(label.y)}" fill="${stroke}" font-size="14" font-weight="bold" text-anchor="middle" dominant-baseline="middle">${scene.detectorCounts[detector.id] || 0}</text>`
+            );
+        });
+    }
+
+    if (options.isScaleBarShown) {
+        const barWidth = scene.scaleBar.length / scale;
+        body.push(
+            `<g transform="translate(${n(width - PADDING - barWidth)} ${height - PADDING})">`
+            + `<path d="M0 -5V0H${n(barWidth)}V-5" fill="none" stroke="${palette.text}" stroke-width="2"/>`
+            + `<text x="${n(barWidth / 2)}" y="-9" fill="${palette.text}" font-size="13" text-anchor="middle">${escapeXml(scene.scaleBar.label)}</text>`
+            + '</g>'
+        );
+    }
+
+    // Paths run on past the edges of the view; the figure shows only what the screen does.
+    const lines = options.caption ? wrapText(options.caption, width - 2 * PADDING, CAPTION_FONT_SIZE) : [];
+    return wrapSvg(
+        width,
+        height + captionHeight(lines),
+        palette,
+        `<defs><clipPath id="view"><rect width="${width}" height="${height}"/></clipPath></defs>`
+            + `<g clip-path="url(#view)">${body.join('')}</g>`
+            + `<rect width="${width}" height="${height}" fill="none" stroke="${palette.frame}" stroke-width="1"/>`
+            + captionMarkup(lines, height, palette)
+    );
+};
+
+// --- Charts ---
+
+export interface ChartFigureLabels {
+    x: string; // Axis titles, which the app draws outside the chart
+    y: string;
+}
+
+const AXIS_TITLE_SPACE = 28;
+const TICK_FONT_SIZE = 12;
+const LEGEND_FONT_SIZE = 12;
+const LEGEND_BOX = 12;
+
+const lineOf = (value: unknown) => (typeof value === 'string' ? value : null);
+
+/**
+ * A chart redrawn as vectors from its chart.js instance: grid, ticks, every visible dataset
+ * where chart.js placed it, and the legend. `decorate` adds marks a plugin draws, in the
+ * chart's own pixel coordinates, with colours passed through the theme's mapping.
+ */
+export const chartFigure = (
+    chart: Chart<'scatter'>,
+    labels: ChartFigureLabels,
+    options: FigureOptions,
+    decorate?: (color: (c: string) => string) => string
+): Figure => {
+    const palette = PALETTES[options.theme];
+    const color = (c: string) => printColor(c, options.theme);
+    const area = chart.chartArea;
+    const body: string[] = [];
+
+    const grid: string[] = [];
+    const ticks: string[] = [];
+    Object.values(chart.scales).forEach(scale => {
+        if (!scale.options.display) return;
+        const isHorizontal = scale.isHorizontal();
+        scale.ticks.forEach((tick, i) => {
+            const pixel = scale.getPixelForTick(i);
+            grid.push(isHorizontal ? `M${n(pixel)} ${n(area.top)}V${n(area.bottom)}` : `M${n(area.left)} ${n(pixel)}H${n(area.right)}`);
+            const label = Array.isArray(tick.label) ? tick.label.join(' ') : `${tick.label ?? ''}`;
+            if (!label) return;
+            const isFarSide = scale.position === 'right' || scale.position === 'top';
+            const attributes = isHorizontal
+                ? `x="${n(pixel)}" y="${n(isFarSide ? scale.bottom - 6 : scale.top + 6 + TICK_FONT_SIZE)}" text-anchor="middle"`
+                : `x="${n(isFarSide ? scale.left + 6 : scale.right - 6)}" y="${n(pixel)}" text-anchor="${isFarSide ? 'start' : 'end'}" dominant-baseline="middle"`;
+            ticks.push(`<text ${attributes}>${escapeXml(label)}</text>`);
+        });
+    });
+    body.push(`<path d="${grid.join('')}" stroke="${palette.grid}" stroke-width="1" fill="none"/>`);
+    body.push(`<g fill="${palette.mutedText}" font-size="${TICK_FONT_SIZE}">${ticks.join('')}</g>`);
+
+    // chart.js draws the lowest order last, on top of the rest.
+    const series: string[] = [];
+    [...chart.getSortedVisibleDatasetMetas()].reverse().forEach(meta => {
+        const dataset = chart.data.datasets[meta.index];
+        const points = meta.data.filter(p => Number.isFinite(p.x) && Number.isFinite(p.y));
+        const fill = color(lineOf(dataset.backgroundColor) ?? lineOf(dataset.borderColor) ?? palette.text);
+        const stroke = color(lineOf(dataset.borderColor) ?? lineOf(dataset.backgroundColor) ?? palette.text);
+        if (dataset.showLine && points.length > 1) {
+            const dash = Array.isArray(dataset.borderDash) ? ` stroke-dasharray="${dataset.borderDash.join(' ')}"` : '';
+            const lineWidth = typeof dataset.borderWidth === 'number' ? dataset.borderWidth : 3;
+            series.push(`<path d="M${points.map(p => `${n(p.x)} ${n(p.y)}`).join('L')}" fill="none" stroke="${stroke}" stroke-width="${lineWidth}"${dash}/>`);
+        }
+        const radius = typeof dataset.pointRadius === 'number' ? dataset.pointRadius : 3;
+        if (radius <= 0 || points.length === 0) return;
+        const marks = dataset.pointStyle === 'triangle'
+            ? points.map(p => `M${n(p.x)} ${n(p.y - radius)}l${n(radius * 0.866)} ${n(radius * 1.5)}h${n(-radius * 1.732)}z`)
+            : points.map(p => dot(p.x, p.y, radius));
+        series.push(`<path fill="${fill}" d="${marks.join('')}"/>`);
+    });
+    const extra = decorate ? decorate(color) : '';
+    body.push(
+        `<defs><clipPath id="plot"><rect x="${n(area.left)}" y="${n(area.top)}" width="${n(area.right - area.left)}" height="${n(area.bottom - area.top)}"/></clipPath></defs>`,
+        `<g clip-path="url(#plot)">${series.join('')}${extra}</g>`,
+        `<rect x="${n(area.left)}" y="${n(area.top)}" width="${n(area.right - area.left)}" height="${n(area.bottom - area.top)}" fill="none" stroke="${palette.frame}" stroke-width="1"/>`
+    );
+
+    // Laid out again in rows centred over the plot, in the space chart.js kept for it.
+    const legend = chart.legend;
+    if (legend?.options.display && legend.legendItems) {
+        const items = legend.legendItems.map(item => ({ item, width: LEGEND_BOX + 6 + textWidth(item.text, LEGEND_FONT_SIZE) + 14 }));
+        const rows: (typeof items)[] = [[]];
+        let rowWidth = 0;
+        items.forEach(entry => {
+            if (rowWidth + entry.width > legend.width && rows[rows.length - 1].length > 0) {
+                rows.push([]);
+                rowWidth = 0;
+            }
+            rows[rows.length - 1].push(entry);
+            rowWidth += entry.width;
+        });
+        rows.forEach((row, r) => {
+            const total = row.reduce((sum, entry) => sum + entry.width, 0);
+            let x = legend.left + (legend.width - total) / 2;
+            const y = legend.top + 10 + r * (LEGEND_FONT_SIZE + 8);
+            row.forEach(({ item, width }) => {
+                const swatch = color(lineOf(item.fillStyle) ?? lineOf(item.strokeStyle) ?? palette.text);
+                body.push(
+                    `<g${item.hidden ? ' opacity="0.4"' : ''}>`
+                    + `<rect x="${n(x)}" y="${n(y - LEGEND_BOX / 2)}" width="${LEGEND_BOX}" height="${LEGEND_BOX}" fill="${swatch}"/>`
+                    + `<text x="${n(x + LEGEND_BOX + 6)}" y="${n(y)}" fill="${palette.mutedText}" font-size="${LEGEND_FONT_SIZE}" dominant-baseline="middle">${escapeXml(item.text)}</text>`
+                    + '</g>'
+                );
+                x += width;
+            });
+        });
+    }
+
+    const plotWidth = AXIS_TITLE_SPACE + chart.width + PADDING;
+    const plotHeight = PADDING / 2 + chart.height + AXIS_TITLE_SPACE;
+    const lines = options.caption ? wrapText(options.caption, plotWidth - 2 * PADDING, CAPTION_FONT_SIZE) : [];
+    const centreX = AXIS_TITLE_SPACE + (area.left + area.right) / 2;
+    const centreY = PADDING / 2 + (area.top + area.bottom) / 2;
+    return wrapSvg(
+        plotWidth,
+        plotHeight + captionHeight(lines),
+        palette,
+        `<g transform="translate(${AXIS_TITLE_SPACE} ${PADDING / 2})">${body.join('')}</g>`
+            + `<text x="${n(centreX)}" y="${n(plotHeight - 10)}" fill="${palette.text}" font-size="13" text-anchor="middle">${escapeXml(labels.x)}</text>`
+            + `<text transform="translate(16 ${n(centreY)}) rotate(-90)" fill="${palette.text}" font-size="13" text-anchor="middle">${escapeXml(labels.y)}</text>`
+            + captionMarkup(lines, plotHeight, palette)
+    );
+};
+
+// --- PNG ---
+
+/**
+ * Draws a figure's SVG onto a canvas `pixelRatio` times its size and encodes it as PNG. The
+ * SVG is self-contained, so the browser renders it without fetching anything.
+ */
+export const figureToPng = (figure: Figure, pixelRatio: number) => new Promise<Blob>((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([figure.svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+        URL.revokeObjectURL(url);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(figure.width * pixelRatio);
+        canvas.height = Math.round(figure.height * pixelRatio);
+        const context = canvas.getContext('2d');
+        if (!context) {
+            reject(new Error('Canvas 2D context unavailable'));
+            return;
+        }
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('SVG could not be rendered'));
+    };
+    image.src = url;
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { createNumberFormat } from './format';
+
+describe('locale number formatting', () => {
+    it('rounds like toFixed and toExponential in English', () => {
+        const format = createNumberFormat('en');
+        expect(format.fixed(3.14159, 2)).toBe('3.14');
+        expect(format.fixed(7, 1)).toBe('7.0');
+        expect(format.integer(50000)).toBe('50,000');
+        expect(format.number(7.5)).toBe('7.5');
+        expect(format.exponential(0.000012345, 2)).toBe((0.000012345).toExponential(2));
+        expect(format.exponential(-4321, 1)).toBe((-4321).toExponential(1));
+        expect(format.percent(0.1234, 1)).toBe('12.3%');
+    });
+
+    it('uses the separators of the locale it was made for', () => {
+        const format = createNumberFormat('de');
+        expect(format.fixed(1234.5, 2)).toBe('1.234,50');
+        expect(format.number(0.5)).toBe('0,5');
+        expect(format.exponential(0.000012345, 2)).toBe('1,23e-5');
+        expect(createNumberFormat('ko').integer(50000)).toBe('50,000');
+    });
+});
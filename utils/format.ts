@@ -0,0 +1,40 @@
+/**
+ * Numbers as the reader's locale writes them. Building an Intl formatter is slow next to using
+ * one, and charts format thousands of labels, so each precision is built once and kept.
+ */
+export interface NumberFormat {
+    locale: string;
+    number: (value: number) => string; // Up to three decimals, as a person would write it
+    fixed: (value: number, digits: number) => string; // Like toFixed, with the locale's separators
+    integer: (value: number) => string;
+    exponential: (value: number, digits: number) => string; // Like toExponential, e.g. 1.23e-5
+    percent: (fraction: number, digits: number) => string;
+}
+
+export const createNumberFormat = (locale: string): NumberFormat => {
+    const formatters = new Map<string, Intl.NumberFormat>();
+    const formatter = (key: string, options: Intl.NumberFormatOptions) => {
+        let cached = formatters.get(key);
+        if (!cached) {
+            cached = new Intl.NumberFormat(locale, options);
+            formatters.set(key, cached);
+        }
+        return cached;
+    };
+    const fixed = (value: number, digits: number) =>
+        formatter(`fixed${digits}`, { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value);
+
+    return {
+        locale,
+        number: value => formatter('number', {}).format(value),
+        fixed,
+        integer: value => fixed(value, 0),
+        exponential: (value, digits) => {
+            if (!Number.isFinite(value)) return fixed(value, digits);
+            const [mantissa, exponent] = value.toExponential(digits).split('e');
+            return `${fixed(Number(mantissa), digits)}e${exponent}`;
+        },
+        percent: (fraction, digits) =>
+            formatter(`percent${digits}`, { style: 'percent', minimumFractionDigits: digits, maximumFractionDigits: digits }).format(fraction),
+    };
+};
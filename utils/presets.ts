@@ -0,0 +1,78 @@
+import { DEFAULT_SETTINGS } from '../constants';
+import type { SimulationSettings } from '../types';
+
+export type BuiltInPresetId = 'geiger-marsden-1909' | 'aluminium-7-7-mev' | 'low-energy-proton-carbon';
+
+// Built-in presets take their name and description from the message catalog; a user preset
+// has only the name it was saved under and is described from its settings.
+export interface ExperimentPreset {
+    id: string;
+    name: string;
+    description?: string;
+    settings: SimulationSettings;
+    isUserPreset?: boolean;
+}
+
+export const BUILT_IN_PRESETS: { id: BuiltInPresetId; settings: SimulationSettings }[] = [
+    {
+        id: 'geiger-marsden-1909',
+        settings: {
+            ...DEFAULT_SETTINGS,
+            energy: 7.7,
+            numParticles: 1000,
+            targetZ: 79,
+            integrator: 'rk45',
+            beamMode: 'random',
+            targetMode: 'foil',
+            foilLayers: 5,
+            foilArrangement: 'lattice',
+        },
+    },
+    {
+        id: 'aluminium-7-7-mev',
+        settings: {
+            ...DEFAULT_SETTINGS,
+            energy: 7.7,
+            targetZ: 13,
+            targetMassNumber: 27,
+            isFocusModeEnabled: true,
+            integrator: 'rk45',
+            potential: 'woodsSaxon',
+        },
+    },
+    {
+        id: 'low-energy-proton-carbon',
+        settings: {
+            ...DEFAULT_SETTINGS,
+            projectile: 'proton',
+            energy: 1,
+            targetZ: 6,
+            targetMassNumber: 12,
+            isFocusModeEnabled: true,
+            integrator: 'rk45',
+        },
+    },
+];
+
+const USER_PRESETS_KEY = 'rutherford-scattering-presets';
+
+// Saved presets are merged over the defaults, so ones saved before a setting existed still load.
+export const loadUserPresets = (): ExperimentPreset[] => {
+    try {
+        const stored: unknown = JSON.parse(localStorage.getItem(USER_PRESETS_KEY) || '[]');
+        if (!Array.isArray(stored)) return [];
+        return stored
+            .filter((preset): preset is ExperimentPreset => typeof preset?.id === 'string' && typeof preset?.name === 'string')
+            .map(({ description: _description, ...preset }) => ({ ...preset, settings: { ...DEFAULT_SETTINGS, ...preset.settings }, isUserPreset: true }));
+    } catch {
+        return [];
+    }
+};
+
+export const saveUserPresets = (presets: ExperimentPreset[]) => {
+    try {
+        localStorage.setItem(USER_PRESETS_KEY, JSON.stringify(presets));
+    } catch {
+        // Storage can be full or disabled (private browsing); presets then last for the session.
+    }
+};
@@ -0,0 +1,29 @@
+import { ALPHA_PARTICLE_MASS, ATOMIC_MASS_UNIT, DEUTERON_MASS, ELECTRON_MASS, MUON_MASS, PROTON_MASS } from '../constants';
+import type { ProjectileSpecies, ProjectileType, SimulationSettings } from '../types';
+
+export const PROJECTILES: Record<Exclude<ProjectileType, 'custom'>, ProjectileSpecies> = {
+    alpha: { symbol: 'α', charge: 2, mass: ALPHA_PARTICLE_MASS, massNumber: 4 },
+    proton: { symbol: 'p', charge: 1, mass: PROTON_MASS, massNumber: 1 },
+    deuteron: { symbol: 'd', charge: 1, mass: DEUTERON_MASS, massNumber: 2 },
+    carbon: { symbol: '¹²C⁶⁺', charge: 6, mass: 12 * ATOMIC_MASS_UNIT, massNumber: 12 },
+    electron: { symbol: 'e⁻', charge: -1, mass: ELECTRON_MASS, massNumber: 0 },
+    positron: { symbol: 'e⁺', charge: 1, mass: ELECTRON_MASS, massNumber: 0 },
+    muon: { symbol: 'μ⁻', charge: -1, mass: MUON_MASS, massNumber: 0 },
+};
+
+// Mass number of the most common isotope, close enough for Z ≤ 118.
+export const massNumberFromZ = (z: number) => (z === 1 ? 1 : Math.round(2 * z + 0.006 * z * z));
+
+export const resolveTargetMassNumber = (settings: SimulationSettings) => settings.targetMassNumber ?? massNumberFromZ(settings.targetZ);
+
+export const resolveTargetMass = (settings: SimulationSettings) => resolveTargetMassNumber(settings) * ATOMIC_MASS_UNIT;
+
+export const resolveProjectile = (settings: SimulationSettings): ProjectileSpecies => {
+    if (settings.projectile !== 'custom') return PROJECTILES[settings.projectile];
+    return {
+        symbol: 'X',
+        charge: settings.customCharge,
+        mass: settings.customMass * ATOMIC_MASS_UNIT,
+        massNumber: Math.round(settings.customMass),
+    };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { CANVAS_HEIGHT, CANVAS_WIDTH, DEFAULT_SETTINGS, SCALE } from '../constants';
+import type { FinishedPayload } from '../simulation/protocol';
+import { createRunFile, parseRunFile, RUN_FILE_VERSION, runToCsv } from './runFile';
+
+const RESULTS: FinishedPayload = {
+    scatterData: [{ x: 5, y: 132.5 }, { x: 40, y: 38.25 }],
+    cmScatterData: [{ x: 5, y: 135 }, { x: 40, y: 39 }],
+    closestApproaches: [48.5, 70.125],
+    azimuths: null,
+    referenceScatterData: null,
+    classicalScatterData: null,
+    classicalCmScatterData: null,
+    comparisonScatterData: null,
+    comparisonCmScatterData: null,
+    diagnostics: [
+        { id: 0, impactParameter: 5e-15, energyDrift: 1e-9, angularMomentumDrift: -2e-10 },
+        { id: 1, impactParameter: 4e-14, energyDrift: 0, angularMomentumDrift: 0 },
+    ],
+    settings: { ...DEFAULT_SETTINGS, energy: 7.7, targetZ: 13, targetMassNumber: 27, projectile: 'custom', customCharge: -1 },
+};
+
+describe('run files', () => {
+    it('reads back its own JSON with particles and paths', () => {
+        const particles = [{ id: 0, position: { x: 10, y: 20 }, color: '#fff' }];
+        const paths = { trajectories: { 0: [{ x: 0, y: 0 }, { x: 10, y: 20 }] }, recoil: {}, comparison: {} };
+        const runFile = createRunFile(RESULTS, particles, [], paths);
+        expect(parseRunFile(JSON.stringify(runFile))).toEqual(runFile);
+    });
+
+    it('restores settings and per-particle results from CSV', () => {
+        const { results, settings, paths } = parseRunFile(runToCsv(RESULTS));
+        expect(settings).toEqual(RESULTS.settings);
+        expect(results.scatterData).toEqual(RESULTS.scatterData);
+        expect(results.cmScatterData).toEqual(RESULTS.cmScatterData);
+        expect(results.closestApproaches).toEqual(RESULTS.closestApproaches);
+        expect(results.diagnostics.map(d => d.energyDrift)).toEqual([1e-9, 0]);
+        expect(paths).toBeNull();
+    });
+
+    it('keeps the azimuths of a 3D run in its CSV', () => {
+        const threeDimensional = { ...RESULTS, azimuths: [-90, 172.5], settings: { ...RESULTS.settings, isThreeDimensional: true } };
+        expect(parseRunFile(runToCsv(threeDimensional)).results.azimuths).toEqual([-90, 172.5]);
+        expect(parseRunFile(runToCsv(RESULTS)).results.azimuths).toBeNull();
+    });
+
+    it('fills settings added since the file was written and rejects newer versions', () => {
+        const { settings, ...rest } = createRunFile(RESULTS, [], [], null);
+        const { isSplitView: _, ...olderSettings } = settings;
+        expect(parseRunFile(JSON.stringify({ ...rest, settings: olderSettings })).settings.isSplitView).toBe(DEFAULT_SETTINGS.isSplitView);
+        expect(() => parseRunFile(JSON.stringify({ ...rest, settings, version: RUN_FILE_VERSION + 1 }))).toThrow(expect.objectContaining({ reason: 'unsupportedVersion' }));
+        expect(() => parseRunFile(JSON.stringify({ format: 'something-else' }))).toThrow(expect.objectContaining({ reason: 'notRunFile' }));
+    });
+
+    it('moves version 1 paths from canvas pixels to meters', () => {
+        const pixels = { trajectories: { 0: [{ x: CANVAS_WIDTH / 2 + 10, y: CANVAS_HEIGHT / 2 - 20 }] }, recoil: {}, comparison: {} };
+        const runFile = { ...createRunFile(RESULTS, [], [], pixels), version: 1 };
+        const [point] = parseRunFile(JSON.stringify(runFile)).paths!.trajectories[0];
+        expect(point.x).toBeCloseTo(10 * SCALE, 25);
+        expect(point.y).toBeCloseTo(-20 * SCALE, 25);
+    });
+});
@@ -0,0 +1,185 @@
+import { CANVAS_HEIGHT, CANVAS_WIDTH, DEFAULT_SETTINGS, SCALE } from '../constants';
+import type { FinishedPayload } from '../simulation/protocol';
+import type { ParticleSnapshot, PathUpdate, SimulationSettings } from '../types';
+import { isThreeDimensionalRun } from './beamGeometry';
+import { settingsFromEntries, settingsToEntries } from './settings';
+
+export const RUN_FILE_FORMAT = 'rutherford-scattering-run';
+// Version 2 stores paths in meters; version 1 stored canvas pixels at the fixed scale.
+export const RUN_FILE_VERSION = 2;
+
+export type RunFileErrorReason = 'missingColumn' | 'notRunFile' | 'unsupportedVersion' | 'noResults' | 'badJson' | 'unreadable';
+
+// Why a file could not be read, for the app to put in the reader's language. `detail` is the
+// missing column or the unsupported version.
+export class RunFileError extends Error {
+    constructor(readonly reason: RunFileErrorReason, readonly detail = '') {
+        super(detail ? `${reason}: ${detail}` : reason);
+        this.name = 'RunFileError';
+    }
+}
+
+export interface RunPaths {
+    trajectories: PathUpdate; // As the worker streams them
+    recoil: PathUpdate;
+    comparison: PathUpdate; // Thomson atom in split view
+}
+
+/**
+ * A finished run as saved to disk. `results` holds the worker's final payload: scatter points
+ * are { x: impact parameter in fm, y: angle in degrees }, closest approaches are in fm and a
+ * 3D run's azimuths in degrees, all in particle order. Loading it back needs no simulation.
+ */
+export interface RunFile {
+    format: typeof RUN_FILE_FORMAT;
+    version: number;
+    exportedAt: string; // ISO 8601
+    settings: SimulationSettings;
+    results: Omit<FinishedPayload, 'settings'>;
+    particles: ParticleSnapshot[]; // Final positions
+    comparisonParticles: ParticleSnapshot[];
+    paths: RunPaths | null; // Left out unless requested, as it is by far the largest part
+}
+
+export const createRunFile = (
+    results: FinishedPayload,
+    particles: ParticleSnapshot[],
+    comparisonParticles: ParticleSnapshot[],
+    paths: RunPaths | null,
+): RunFile => {
+    const { settings, ...rest } = results;
+    return {
+        format: RUN_FILE_FORMAT,
+        version: RUN_FILE_VERSION,
+        exportedAt: new Date().toISOString(),
+        settings,
+        results: rest,
+        particles,
+        comparisonParticles,
+        paths,
+    };
+};
+
+export const CSV_COLUMNS = ['run', 'particle', 'impact_parameter_fm', 'lab_angle_deg', 'cm_angle_deg', 'closest_approach_fm', 'energy_drift', 'angular_momentum_drift', 'azimuth_deg'];
+
+export const csvRows = (results: Omit<FinishedPayload, 'settings'>, run: number) =>
+    results.scatterData.map((point, i) => {
+        const diagnostic = results.diagnostics[i];
+        return [
+            run,
+            i,
+            point.x,
+            point.y,
+            results.cmScatterData[i].y,
+            results.closestApproaches[i],
+            diagnostic ? diagnostic.energyDrift : '',
+            diagnostic ? diagnostic.angularMomentumDrift : '',
+            results.azimuths ? results.azimuths[i] : '',
+        ].join(',');
+    });
+
+// Settings lead the file as `# name,value` comment lines, which spreadsheets show as
+// plain rows and most CSV readers can be told to skip.
+export const runToCsv = (results: FinishedPayload) => {
+    const settingLines = settingsToEntries(results.settings).map(([key, value]) => `# ${key},${value}`);
+    return [...settingLines, CSV_COLUMNS.join(','), ...csvRows(results, 0)].join('\n') + '\n';
+};
+
+const parseCsv = (text: string): RunFile => {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    const settings = settingsFromEntries(lines.filter(line => line.startsWith('#')).map(line => {
+        const [key, ...value] = line.slice(1).trim().split(',');
+        return [key, value.join(',')];
+    }));
+
+    const rows = lines.filter(line => !line.startsWith('#'));
+    const header = (rows.shift() || '').split(',');
+    const column = (name: string) => {
+        const index = header.indexOf(name);
+        if (index < 0) throw new RunFileError('missingColumn', name);
+        return index;
+    };
+    const columns = {
+        b: column('impact_parameter_fm'),
+        lab: column('lab_angle_deg'),
+        cm: column('cm_angle_deg'),
+        closest: column('closest_approach_fm'),
+        energy: column('energy_drift'),
+        angularMomentum: column('angular_momentum_drift'),
+    };
+    const azimuthColumn = header.indexOf('azimuth_deg'); // Missing from files older than 3D runs
+    const cells = rows.map(row => row.split(',').map(Number));
+
+    return {
+        format: RUN_FILE_FORMAT,
+        version: RUN_FILE_VERSION,
+        exportedAt: '',
+        settings,
+        results: {
+            scatterData: cells.map(c => ({ x: c[columns.b], y: c[columns.lab] })),
+            cmScatterData: cells.map(c => ({ x: c[columns.b], y: c[columns.cm] })),
+            closestApproaches: cells.map(c => c[columns.closest]),
+            azimuths: azimuthColumn >= 0 && isThreeDimensionalRun(settings) ? cells.map(c => c[azimuthColumn]) : null,
+            referenceScatterData: null,
+            classicalScatterData: null,
+            classicalCmScatterData: null,
+            comparisonScatterData: null,
+            comparisonCmScatterData: null,
+            diagnostics: cells.map((c, i) => ({
+                id: i,
+                impactParameter: c[columns.b] * 1e-15,
+                energyDrift: c[columns.energy],
+                angularMomentumDrift: c[columns.angularMomentum],
+            })),
+        },
+        particles: [],
+        comparisonParticles: [],
+        paths: null,
+    };
+};
+
+const pixelsToMeters = (paths: PathUpdate): PathUpdate => {
+    const converted: PathUpdate = {};
+    for (const id in paths) {
+        converted[id] = paths[id].map(p => ({ x: (p.x - CANVAS_WIDTH / 2) * SCALE, y: (p.y - CANVAS_HEIGHT / 2) * SCALE }));
+    }
+    return converted;
+};
+
+const upgradePaths = (paths: RunPaths, version: number): RunPaths => version >= 2 ? paths : {
+    trajectories: pixelsToMeters(paths.trajectories),
+    recoil: pixelsToMeters(paths.recoil),
+    comparison: pixelsToMeters(paths.comparison),
+};
+
+const parseJson = (text: string): RunFile => {
+    const parsed = JSON.parse(text) as Partial<RunFile>;
+    if (parsed.format !== RUN_FILE_FORMAT) throw new RunFileError('notRunFile');
+    if (typeof parsed.version !== 'number' || parsed.version > RUN_FILE_VERSION) {
+        throw new RunFileError('unsupportedVersion', String(parsed.version));
+    }
+    if (!parsed.results || !Array.isArray(parsed.results.scatterData)) throw new RunFileError('noResults');
+    return {
+        ...parsed,
+        // Files from older versions lack settings added since; those take their defaults.
+        settings: { ...DEFAULT_SETTINGS, ...parsed.settings },
+        results: { ...parsed.results, azimuths: parsed.results.azimuths ?? null },
+        particles: parsed.particles || [],
+        comparisonParticles: parsed.comparisonParticles || [],
+        paths: parsed.paths ? upgradePaths(parsed.paths, parsed.version) : null,
+    } as RunFile;
+};
+
+// Reads either export format. A CSV file restores the chart and settings but no trajectories.
+export const parseRunFile = (text: string): RunFile => {
+    const trimmed = text.trimStart();
+    if (trimmed.startsWith('{')) {
+        try {
+            return parseJson(trimmed);
+        } catch (error) {
+            if (error instanceof SyntaxError) throw new RunFileError('badJson');
+            throw error;
+        }
+    }
+    return parseCsv(trimmed);
+};
@@ -0,0 +1,76 @@
+import { ELEMENTARY_CHARGE, JOULES_PER_MEV, K_COULOMB, SPEED_OF_LIGHT } from '../constants';
+import type { ReferenceFrame, SimulationSettings } from '../types';
+import { resolveProjectile, resolveTargetMass } from './projectiles';
+
+// Head-on distance of closest approach |d| = |k·q₁·q₂| / E, in femtometers. For an attractive
+// projectile the deflection has the same magnitude, so only |d| enters the formulas below.
+export const headOnDistanceFm = (energyMeV: number, targetZ: number, projectileCharge: number) =>
+    Math.abs(K_COULOMB * (projectileCharge * ELEMENTARY_CHARGE) * (targetZ * ELEMENTARY_CHARGE)) / (energyMeV * JOULES_PER_MEV) / 1e-15;
+
+// Exact Coulomb scattering angle θ = 2·arctan(d / 2b), in degrees.
+export const rutherfordAngleDeg = (impactParameterFm: number, headOnDistance: number) =>
+    2 * Math.atan(headOnDistance / (2 * impactParameterFm)) * (180 / Math.PI);
+
+// Rutherford differential cross-section dσ/dΩ = (d/4)² / sin⁴(θ/2), in fm²/sr.
+export const rutherfordCrossSection = (thetaDeg: number, headOnDistance: number) =>
+    (headOnDistance / 4) ** 2 / Math.sin((thetaDeg * Math.PI) / 360) ** 4;
+
+// Small-angle ratio θ_relativistic / θ_classical = 2E / (p·v) = 2(E + mc²) / (E + 2mc²) at
+// the same kinetic energy E: 1 for slow particles, approaching 2 in the ultra-relativistic limit.
+export const relativisticDeflectionRatio = (energyMeV: number, massKg: number) => {
+    const restEnergyMeV = (massKg * SPEED_OF_LIGHT ** 2) / JOULES_PER_MEV;
+    return (2 * (energyMeV + restEnergyMeV)) / (energyMeV + 2 * restEnergyMeV);
+};
+
+export interface ScatteringKinematics {
+    headOnDistance: number; // fm, d = k·q₁·q₂ / E_cm
+    massRatio: number; // ρ = m / M, zero when the nucleus is held fixed
+    frame: ReferenceFrame;
+}
+
+export const scatteringKinematics = (settings: SimulationSettings, frame: ReferenceFrame): ScatteringKinematics => {
+    const projectile = resolveProjectile(settings);
+    const massRatio = settings.targetMode !== 'foil' ? projectile.mass / resolveTargetMass(settings) : 0;
+    // Only the energy of the relative motion, E_cm = E·M / (m + M), climbs the Coulomb barrier.
+    // Relativistic runs replace 2E by p·v, as in the relativistic Rutherford formula.
+    const dynamicsFactor = settings.isRelativistic ? relativisticDeflectionRatio(settings.energy, projectile.mass) : 1;
+    const headOnDistance = headOnDistanceFm(settings.energy, settings.targetZ, projectile.charge) * (1 + massRatio) * dynamicsFactor;
+    return { headOnDistance, massRatio, frame };
+};
+
+// tan θ_lab = sin θ_cm / (cos θ_cm + ρ)
+export const labAngleFromCmDeg = (thetaCmDeg: number, massRatio: number) => {
+    const thetaCm = (thetaCmDeg * Math.PI) / 180;
+    return Math.atan2(Math.sin(thetaCm), Math.cos(thetaCm) + massRatio) * (180 / Math.PI);
+};
+
+// Centre-of-mass angles that end up at a given lab angle. A projectile heavier than its
+// target reaches each lab angle below arcsin(M/m) twice and never goes beyond it.
+export const cmAnglesFromLabDeg = (thetaLabDeg: number, massRatio: number): number[] => {
+    const thetaLab = (thetaLabDeg * Math.PI) / 180;
+    const sine = massRatio * Math.sin(thetaLab);
+    if (sine > 1) return [];
+    const offset = Math.asin(sine);
+    const toDeg = (angle: number) => angle * (180 / Math.PI);
+    if (massRatio < 1) return [toDeg(thetaLab + offset)];
+    if (thetaLab >= Math.PI / 2) return [];
+    if (massRatio === 1) return [toDeg(2 * thetaLab)];
+    return [toDeg(thetaLab + offset), toDeg(thetaLab + Math.PI - offset)];
+};
+
+export const predictedAngleDeg = (impactParameterFm: number, kinematics: ScatteringKinematics) => {
+    const thetaCm = rutherfordAngleDeg(impactParameterFm, kinematics.headOnDistance);
+    return kinematics.frame === 'cm' ? thetaCm : labAngleFromCmDeg(thetaCm, kinematics.massRatio);
+};
+
+// dσ/dΩ_lab = Σ dσ/dΩ_cm · (1 + 2ρ·cos θ_cm + ρ²)^(3/2) / |1 + ρ·cos θ_cm|, summed over the
+// centre-of-mass angles that land on θ_lab.
+export const predictedCrossSection = (thetaDeg: number, kinematics: ScatteringKinematics) => {
+    const { headOnDistance, massRatio } = kinematics;
+    if (kinematics.frame === 'cm') return rutherfordCrossSection(thetaDeg, headOnDistance);
+    return cmAnglesFromLabDeg(thetaDeg, massRatio).reduce((sum, thetaCmDeg) => {
+        const cosine = Math.cos((thetaCmDeg * Math.PI) / 180);
+        const jacobian = (1 + 2 * massRatio * cosine + massRatio ** 2) ** 1.5 / Math.abs(1 + massRatio * cosine);
+        return sum + rutherfordCrossSection(thetaCmDeg, headOnDistance) * jacobian;
+    }, 0);
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../constants';
+import type { SimulationSettings } from '../types';
+import { settingsEqual, settingsFromSearch, settingsToSearch } from './settings';
+
+describe('settings permalinks', () => {
+    it('round-trips every field through the query string', () => {
+        const settings: SimulationSettings = { ...DEFAULT_SETTINGS, projectile: 'proton', energy: 7.7, targetMassNumber: 27, isSplitView: true, beamMode: 'random', seed: 42 };
+        const search = settingsToSearch(settings);
+        (Object.keys(DEFAULT_SETTINGS) as (keyof SimulationSettings)[]).forEach(key => expect(search).toContain(`${key}=`));
+        expect(settingsFromSearch(search)).toEqual(settings);
+    });
+
+    it('keeps defaults for missing, unknown and mistyped parameters', () => {
+        const settings = settingsFromSearch('?energy=abc&isRelativistic=yes&targetZ=13&toString=1&targetMassNumber=null');
+        expect(settings).toEqual({ ...DEFAULT_SETTINGS, targetZ: 13 });
+        expect(settingsEqual(settingsFromSearch(''), DEFAULT_SETTINGS)).toBe(true);
+    });
+});
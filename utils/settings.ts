@@ -0,0 +1,45 @@
+import { DEFAULT_SETTINGS } from '../constants';
+import type { SimulationSettings } from '../types';
+
+type SettingKey = keyof SimulationSettings;
+
+const isSettingKey = (key: string): key is SettingKey => Object.prototype.hasOwnProperty.call(DEFAULT_SETTINGS, key);
+
+// Values are read back by the type of their default; a null default (target A) takes numbers.
+const parseSettingValue = (key: SettingKey, raw: string): unknown => {
+    const fallback = DEFAULT_SETTINGS[key];
+    if (raw === 'null') return fallback === null ? null : undefined;
+    if (typeof fallback === 'boolean') return raw === 'true' || raw === 'false' ? raw === 'true' : undefined;
+    if (typeof fallback === 'number' || fallback === null) {
+        const value = Number(raw);
+        return raw !== '' && Number.isFinite(value) ? value : undefined;
+    }
+    return raw;
+};
+
+/**
+ * Builds settings from text name/value pairs, such as URL parameters. Unknown names and
+ * values of the wrong type are dropped, and anything missing keeps its default.
+ */
+export const settingsFromEntries = (entries: Iterable<[string, string]>): SimulationSettings => {
+    const settings: SimulationSettings = { ...DEFAULT_SETTINGS };
+    for (const [key, raw] of entries) {
+        if (!isSettingKey(key)) continue;
+        const value = parseSettingValue(key, raw);
+        if (value !== undefined) (settings as unknown as Record<SettingKey, unknown>)[key] = value;
+    }
+    return settings;
+};
+
+export const settingsToEntries = (settings: SimulationSettings): [string, string][] =>
+    (Object.keys(settings) as SettingKey[]).map(key => [key, String(settings[key])]);
+
+// Every field is written, not just those changed, so a shared link keeps its meaning even if
+// the defaults change later.
+export const settingsToSearch = (settings: SimulationSettings) =>
+    `?${new URLSearchParams(settingsToEntries(settings)).toString()}`;
+
+export const settingsFromSearch = (search: string) => settingsFromEntries(new URLSearchParams(search));
+
+export const settingsEqual = (a: SimulationSettings, b: SimulationSettings) =>
+    (Object.keys(DEFAULT_SETTINGS) as SettingKey[]).every(key => a[key] === b[key]);
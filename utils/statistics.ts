@@ -0,0 +1,6 @@
+import type { ScatterPoint } from '../types';
+
+export const summarizeAngles = (points: ScatterPoint[]) => ({
+    meanAngle: points.length > 0 ? points.reduce((sum, p) => sum + p.y, 0) / points.length : 0,
+    backscatterFraction: points.length > 0 ? points.filter(p => p.y > 90).length / points.length : 0,
+});